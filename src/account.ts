@@ -0,0 +1,496 @@
+import { DurableObject } from "cloudflare:workers";
+import { keyFingerprint } from "./auth";
+import { mapWithConcurrency } from "./concurrency";
+import {
+  DataFastApiError,
+  DataFastClient,
+  type DataFastApi,
+  type DataFastErrorKind,
+  type GoalPayload,
+  type GoalResult,
+  type PaymentPayload,
+  summarizeApiError,
+} from "./datafast-client";
+import { type LedgerEntry, PaymentLedger, type PaymentSubmission } from "./payment-ledger";
+import { type RecentValueKind, type RecentValues, RecentValueStore } from "./recent-values";
+import { SandboxBackend } from "./sandbox";
+import { type SavedSegment, SegmentStore } from "./segments";
+import { findProfile, type SiteProfile, type SiteProfileState, upsertProfile } from "./site-profiles";
+import type { SqlTag } from "./types";
+import { VISITOR_CACHE_TTL_SECONDS, type VisitorSnapshot, VisitorSnapshotStore } from "./visitor-snapshots";
+import {
+  deliverAlert,
+  evaluateWatch,
+  type SessionDelivery,
+  type WatchAlert,
+  type WatchEntry,
+  type WatchlistSettings,
+  WatchlistStore,
+  type WatchRule,
+} from "./watchlist";
+
+// State that belongs to a DataFa.st API key rather than to one MCP session, kept in a Durable Object
+// named after the key's fingerprint. Every session and webhook delivery using the key reaches the
+// same object, so a reconnecting client finds its ledger, visitor snapshots, segments and watchlist
+// where it left them, while a site profile with another key works with that key's own. The watchlist
+// is polled by this object's alarm with the key it belongs to, whether or not any session is still open.
+// Recently used values are kept here too, for completions. The account of the key a connection was
+// opened with also keeps that user's site profiles
+
+// RPC keeps only the message of a thrown error, so API failures travel back as data
+type ApiFailure = {
+  message: string;
+  kind?: DataFastErrorKind;
+  status?: number;
+  retryAfterSeconds?: number;
+};
+
+export type AccountResult<T> = { ok: true; value: T } | { ok: false; error: ApiFailure };
+
+export type SnapshotRead = { snapshot: VisitorSnapshot; cached: boolean };
+
+export type WatchlistOverview = {
+  entries: WatchEntry[];
+  alerts: WatchAlert[];
+  settings: WatchlistSettings;
+  nextPollAt?: string;
+};
+
+// Durable Object storage keys: the site profiles, the key the watchlist is polled with, and the MCP
+// sessions to notify
+const SITE_PROFILES_KEY = "siteProfiles";
+const WATCHLIST_API_KEY = "watchlistApiKey";
+const WATCHLIST_SESSIONS_KEY = "watchlistSessions";
+// Sessions notified of alerts, most recent first; disconnected ones are dropped when an alert finds them gone
+const WATCHLIST_MAX_SESSIONS = 20;
+
+export function isSandboxMode(env: Env): boolean {
+  return env.DATAFAST_SANDBOX === "true";
+}
+
+export class DataFastAccount extends DurableObject<Env> {
+  private sandbox?: SandboxBackend;
+  private paymentLedger?: PaymentLedger;
+  private snapshotStore?: VisitorSnapshotStore;
+  private watchlistStore?: WatchlistStore;
+  private recentValueStore?: RecentValueStore;
+  private segmentStore?: SegmentStore;
+
+  private readonly sqlTag: SqlTag = (strings, ...values) => this.sql(strings, ...values);
+
+  async createGoal(apiKey: string, payload: GoalPayload): Promise<AccountResult<GoalResult>> {
+    return attempt(() => this.backend(apiKey).createGoal(payload));
+  }
+
+  // Visitor data from the snapshot cache when recent enough, otherwise fetched and recorded as a snapshot
+  async visitorSnapshot(apiKey: string, visitorId: string, maxAgeSeconds: number): Promise<AccountResult<SnapshotRead>> {
+    const cached = maxAgeSeconds > 0 ? this.snapshots.fresh(visitorId, maxAgeSeconds) : undefined;
+    if (cached) {
+      return { ok: true, value: { snapshot: cached, cached: true } };
+    }
+    return attempt(async () => {
+      const data = await this.backend(apiKey).getVisitor(visitorId);
+      return { snapshot: this.snapshots.record(visitorId, data), cached: false };
+    });
+  }
+
+  // Payments always go through the ledger, so a transaction ID is sent at most once per key
+  async submitPayment(apiKey: string, payload: PaymentPayload): Promise<AccountResult<PaymentSubmission>> {
+    const api = this.backend(apiKey);
+    return attempt(() => this.ledger.submit(payload, (payment) => api.createPayment(payment)));
+  }
+
+  payments(limit: number, visitorId?: string): LedgerEntry[] {
+    return this.ledger.list(limit, visitorId);
+  }
+
+  payment(transactionId: string): LedgerEntry | undefined {
+    return this.ledger.get(transactionId);
+  }
+
+  transactionIds(prefix: string, limit: number): string[] {
+    return this.ledger.transactionIds(prefix, limit);
+  }
+
+  snapshotHistory(visitorId: string, limit: number): VisitorSnapshot[] {
+    return this.snapshots.history(visitorId, limit);
+  }
+
+  snapshot(visitorId: string, snapshotId: number): VisitorSnapshot | undefined {
+    return this.snapshots.get(visitorId, snapshotId);
+  }
+
+  latestSnapshot(visitorId: string): VisitorSnapshot | undefined {
+    return this.snapshots.latest(visitorId);
+  }
+
+  snapshotBefore(visitorId: string, snapshotId: number): VisitorSnapshot | undefined {
+    return this.snapshots.before(visitorId, snapshotId);
+  }
+
+  snapshotAt(visitorId: string, time: number): VisitorSnapshot | undefined {
+    return this.snapshots.at(visitorId, time);
+  }
+
+  snapshotVisitorIds(prefix: string, limit: number): string[] {
+    return this.snapshots.visitorIds(prefix, limit);
+  }
+
+  // Adds or replaces a watch, with the visitor's current data as the baseline so only later changes alert
+  async watch(apiKey: string, rule: WatchRule): Promise<AccountResult<{ entry: WatchEntry; settings: WatchlistSettings }>> {
+    const read = await this.visitorSnapshot(apiKey, rule.visitorId, 0);
+    if (!read.ok) {
+      return read;
+    }
+    const entry = this.watchlist.watch(rule, read.value.snapshot.data);
+    const settings = this.watchlist.settings();
+    await this.ctx.storage.put(WATCHLIST_API_KEY, apiKey);
+    await this.scheduleWatchlistPoll(settings.intervalSeconds, false);
+    return { ok: true, value: { entry, settings } };
+  }
+
+  async unwatch(visitorId: string): Promise<boolean> {
+    const removed = this.watchlist.unwatch(visitorId);
+    if (removed && this.watchlist.count() === 0) {
+      await this.ctx.storage.deleteAlarm();
+    }
+    return removed;
+  }
+
+  watchlistEntries(): WatchEntry[] {
+    return this.watchlist.entries();
+  }
+
+  watchlistAlerts(limit: number): WatchAlert[] {
+    return this.watchlist.alerts(limit);
+  }
+
+  watchlistSettings(): WatchlistSettings {
+    return this.watchlist.settings();
+  }
+
+  async watchlistOverview(alertLimit: number): Promise<WatchlistOverview> {
+    const alarm = await this.ctx.storage.getAlarm();
+    return {
+      entries: this.watchlist.entries(),
+      alerts: this.watchlist.alerts(alertLimit),
+      settings: this.watchlist.settings(),
+      nextPollAt: alarm === null ? undefined : new Date(alarm).toISOString(),
+    };
+  }
+
+  async configureWatchlist(settings: WatchlistSettings): Promise<void> {
+    const current = this.watchlist.settings();
+    this.watchlist.saveSettings(settings);
+    if (settings.intervalSeconds !== current.intervalSeconds && this.watchlist.count() > 0) {
+      await this.scheduleWatchlistPoll(settings.intervalSeconds, true);
+    }
+  }
+
+  // Registers an MCP session (by Durable Object ID) to receive alerts while its client stays connected
+  async listen(sessionId: string): Promise<void> {
+    const sessions = (await this.ctx.storage.get<string[]>(WATCHLIST_SESSIONS_KEY)) ?? [];
+    const updated = [sessionId, ...sessions.filter((id) => id !== sessionId)].slice(0, WATCHLIST_MAX_SESSIONS);
+    await this.ctx.storage.put(WATCHLIST_SESSIONS_KEY, updated);
+  }
+
+  saveSegment(name: string, visitorIds: string[], description?: string): SavedSegment {
+    return this.segments.save(name, visitorIds, description);
+  }
+
+  segment(name: string): SavedSegment | undefined {
+    return this.segments.get(name);
+  }
+
+  segmentNames(): string[] {
+    return this.segments.names();
+  }
+
+  remember(values: RecentValues): void {
+    for (const kind of Object.keys(values) as RecentValueKind[]) {
+      this.recent.remember(kind, values[kind]);
+    }
+  }
+
+  recentValues(kind: RecentValueKind, prefix: string, limit: number): string[] {
+    return this.recent.suggest(kind, prefix, limit);
+  }
+
+  async siteProfiles(): Promise<SiteProfileState> {
+    return (await this.ctx.storage.get<SiteProfileState>(SITE_PROFILES_KEY)) ?? { profiles: [] };
+  }
+
+  async saveSiteProfile(profile: SiteProfile, activate: boolean): Promise<SiteProfileState> {
+    const state = upsertProfile(await this.siteProfiles(), profile, activate);
+    await this.ctx.storage.put(SITE_PROFILES_KEY, state);
+    return state;
+  }
+
+  // Undefined when no profile has that name
+  async activateSiteProfile(name: string): Promise<SiteProfileState | undefined> {
+    const state = await this.siteProfiles();
+    const profile = findProfile(state, name);
+    if (!profile) {
+      return undefined;
+    }
+    const updated = { ...state, activeProfile: profile.name };
+    await this.ctx.storage.put(SITE_PROFILES_KEY, updated);
+    return updated;
+  }
+
+  // Watchlist polling
+  async alarm() {
+    const entries = this.watchlist.entries();
+    const apiKey = await this.ctx.storage.get<string>(WATCHLIST_API_KEY);
+    if (entries.length === 0 || apiKey === undefined) {
+      return;
+    }
+    const { intervalSeconds } = this.watchlist.settings();
+    try {
+      await this.pollWatchlist(apiKey, entries);
+    } finally {
+      await this.scheduleWatchlistPoll(intervalSeconds, true);
+    }
+  }
+
+  private async scheduleWatchlistPoll(intervalSeconds: number, replace: boolean) {
+    if (replace || (await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + intervalSeconds * 1000);
+    }
+  }
+
+  private async pollWatchlist(apiKey: string, entries: WatchEntry[]) {
+    const api = this.backend(apiKey);
+    const { webhookUrl } = this.watchlist.settings();
+    await mapWithConcurrency(entries, 5, async (entry) => {
+      let data: VisitorSnapshot['data'];
+      try {
+        ({ data } = this.snapshots.record(entry.visitorId, await api.getVisitor(entry.visitorId)));
+      } catch (error) {
+        this.watchlist.checked(entry.visitorId, undefined, summarizeApiError(error));
+        return;
+      }
+
+      for (const triggered of evaluateWatch(entry, data)) {
+        const alert = { ...triggered, alertId: crypto.randomUUID(), visitorId: entry.visitorId, label: entry.label, triggeredAt: new Date().toISOString() };
+        const delivery = await deliverAlert(webhookUrl, alert);
+        const recorded: WatchAlert = { ...alert, ...delivery };
+        this.watchlist.recordAlert(recorded);
+        this.watchlist.clientNotified(recorded.alertId, await this.notifySessions(recorded));
+      }
+      this.watchlist.checked(entry.visitorId, data);
+    });
+  }
+
+  // Passes the alert to every listening session; returns why no client got it, for the alert's record
+  private async notifySessions(alert: WatchAlert): Promise<string | undefined> {
+    const sessions = (await this.ctx.storage.get<string[]>(WATCHLIST_SESSIONS_KEY)) ?? [];
+    const deliveries = await Promise.all(
+      sessions.map(async (sessionId): Promise<SessionDelivery> => {
+        try {
+          return await this.env.MCP_OBJECT.get(this.env.MCP_OBJECT.idFromString(sessionId)).notifyWatchAlert(alert);
+        } catch (error) {
+          return { connected: true, error: error instanceof Error ? error.message : String(error) };
+        }
+      })
+    );
+
+    const connected = sessions.filter((_, index) => deliveries[index].connected);
+    if (connected.length < sessions.length) {
+      await this.ctx.storage.put(WATCHLIST_SESSIONS_KEY, connected);
+    }
+    const reached = deliveries.some((delivery) => delivery.connected && !delivery.error);
+    if (reached) {
+      return undefined;
+    }
+    const errors = deliveries.flatMap((delivery) => (delivery.connected && delivery.error ? [delivery.error] : []));
+    return errors.length > 0 ? errors.join('; ') : 'no MCP client was connected';
+  }
+
+  // Real DataFa.st API, or the fake kept in this object when DATAFAST_SANDBOX is enabled
+  private backend(apiKey: string): DataFastApi {
+    if (isSandboxMode(this.env)) {
+      this.sandbox ??= new SandboxBackend(this.sqlTag);
+      return this.sandbox;
+    }
+    return new DataFastClient(apiKey, { baseUrl: this.env.DATAFAST_API_BASE_URL || undefined });
+  }
+
+  private get ledger(): PaymentLedger {
+    this.paymentLedger ??= new PaymentLedger(this.sqlTag);
+    return this.paymentLedger;
+  }
+
+  private get snapshots(): VisitorSnapshotStore {
+    this.snapshotStore ??= new VisitorSnapshotStore(this.sqlTag);
+    return this.snapshotStore;
+  }
+
+  private get watchlist(): WatchlistStore {
+    this.watchlistStore ??= new WatchlistStore(this.sqlTag);
+    return this.watchlistStore;
+  }
+
+  private get segments(): SegmentStore {
+    this.segmentStore ??= new SegmentStore(this.sqlTag);
+    return this.segmentStore;
+  }
+
+  private get recent(): RecentValueStore {
+    this.recentValueStore ??= new RecentValueStore(this.sqlTag);
+    return this.recentValueStore;
+  }
+
+  private sql<T>(strings: TemplateStringsArray, ...values: (string | number | boolean | null)[]): T[] {
+    return this.ctx.storage.sql.exec(strings.join('?'), ...values).toArray() as T[];
+  }
+}
+
+// What sessions and webhook routes hold: the account of one API key, with API failures rethrown
+// as the DataFastApiError they started as
+export class AccountClient {
+  private readonly stub: DurableObjectStub<DataFastAccount>;
+  private readonly apiKey: string;
+
+  constructor(stub: DurableObjectStub<DataFastAccount>, apiKey: string) {
+    this.stub = stub;
+    this.apiKey = apiKey;
+  }
+
+  async createGoal(payload: GoalPayload): Promise<GoalResult> {
+    return unwrap(await this.stub.createGoal(this.apiKey, payload));
+  }
+
+  async visitorSnapshot(visitorId: string, maxAgeSeconds = VISITOR_CACHE_TTL_SECONDS): Promise<SnapshotRead> {
+    return unwrap(await this.stub.visitorSnapshot(this.apiKey, visitorId, maxAgeSeconds));
+  }
+
+  async submitPayment(payload: PaymentPayload): Promise<PaymentSubmission> {
+    return unwrap(await this.stub.submitPayment(this.apiKey, payload));
+  }
+
+  payments(limit: number, visitorId?: string): Promise<LedgerEntry[]> {
+    return this.stub.payments(limit, visitorId);
+  }
+
+  payment(transactionId: string): Promise<LedgerEntry | undefined> {
+    return this.stub.payment(transactionId);
+  }
+
+  transactionIds(prefix: string, limit: number): Promise<string[]> {
+    return this.stub.transactionIds(prefix, limit);
+  }
+
+  snapshotHistory(visitorId: string, limit: number): Promise<VisitorSnapshot[]> {
+    return this.stub.snapshotHistory(visitorId, limit);
+  }
+
+  snapshot(visitorId: string, snapshotId: number): Promise<VisitorSnapshot | undefined> {
+    return this.stub.snapshot(visitorId, snapshotId);
+  }
+
+  latestSnapshot(visitorId: string): Promise<VisitorSnapshot | undefined> {
+    return this.stub.latestSnapshot(visitorId);
+  }
+
+  snapshotBefore(visitorId: string, snapshotId: number): Promise<VisitorSnapshot | undefined> {
+    return this.stub.snapshotBefore(visitorId, snapshotId);
+  }
+
+  snapshotAt(visitorId: string, time: number): Promise<VisitorSnapshot | undefined> {
+    return this.stub.snapshotAt(visitorId, time);
+  }
+
+  snapshotVisitorIds(prefix: string, limit: number): Promise<string[]> {
+    return this.stub.snapshotVisitorIds(prefix, limit);
+  }
+
+  async watch(rule: WatchRule): Promise<{ entry: WatchEntry; settings: WatchlistSettings }> {
+    return unwrap(await this.stub.watch(this.apiKey, rule));
+  }
+
+  unwatch(visitorId: string): Promise<boolean> {
+    return this.stub.unwatch(visitorId);
+  }
+
+  watchlistEntries(): Promise<WatchEntry[]> {
+    return this.stub.watchlistEntries();
+  }
+
+  watchlistAlerts(limit: number): Promise<WatchAlert[]> {
+    return this.stub.watchlistAlerts(limit);
+  }
+
+  watchlistSettings(): Promise<WatchlistSettings> {
+    return this.stub.watchlistSettings();
+  }
+
+  watchlistOverview(alertLimit: number): Promise<WatchlistOverview> {
+    return this.stub.watchlistOverview(alertLimit);
+  }
+
+  configureWatchlist(settings: WatchlistSettings): Promise<void> {
+    return this.stub.configureWatchlist(settings);
+  }
+
+  listen(sessionId: string): Promise<void> {
+    return this.stub.listen(sessionId);
+  }
+
+  siteProfiles(): Promise<SiteProfileState> {
+    return this.stub.siteProfiles();
+  }
+
+  saveSiteProfile(profile: SiteProfile, activate: boolean): Promise<SiteProfileState> {
+    return this.stub.saveSiteProfile(profile, activate);
+  }
+
+  activateSiteProfile(name: string): Promise<SiteProfileState | undefined> {
+    return this.stub.activateSiteProfile(name);
+  }
+
+  saveSegment(name: string, visitorIds: string[], description?: string): Promise<SavedSegment> {
+    return this.stub.saveSegment(name, visitorIds, description);
+  }
+
+  segment(name: string): Promise<SavedSegment | undefined> {
+    return this.stub.segment(name);
+  }
+
+  segmentNames(): Promise<string[]> {
+    return this.stub.segmentNames();
+  }
+
+  remember(values: RecentValues): Promise<void> {
+    return this.stub.remember(values);
+  }
+
+  recentValues(kind: RecentValueKind, prefix: string, limit: number): Promise<string[]> {
+    return this.stub.recentValues(kind, prefix, limit);
+  }
+}
+
+export async function openAccount(env: Env, apiKey: string): Promise<AccountClient> {
+  const id = env.ACCOUNT_OBJECT.idFromName(await keyFingerprint(apiKey));
+  return new AccountClient(env.ACCOUNT_OBJECT.get(id), apiKey);
+}
+
+async function attempt<T>(run: () => Promise<T>): Promise<AccountResult<T>> {
+  try {
+    return { ok: true, value: await run() };
+  } catch (error) {
+    if (error instanceof DataFastApiError) {
+      const { message, kind, status, retryAfterSeconds } = error;
+      return { ok: false, error: { message, kind, status, retryAfterSeconds } };
+    }
+    return { ok: false, error: { message: error instanceof Error ? error.message : String(error) } };
+  }
+}
+
+function unwrap<T>(result: AccountResult<T>): T {
+  if (result.ok) {
+    return result.value;
+  }
+  const { message, kind, status, retryAfterSeconds } = result.error;
+  throw kind ? new DataFastApiError(kind, message, status, retryAfterSeconds) : new Error(message);
+}
@@ -0,0 +1,173 @@
+import type { AuthRequest } from "@cloudflare/workers-oauth-provider";
+import { DataFastClient } from "./datafast-client";
+
+// How MCP clients authenticate: an OAuth grant holding the DataFa.st key server-side, an
+// "Authorization: Bearer <DataFa.st API key>" header, or the deprecated ?api_key= query parameter
+
+export type ApiKeyCredential = {
+  apiKey: string;
+  source: 'header' | 'query';
+};
+
+// Accepted keys are re-checked at most this often per isolate
+const VERIFIED_KEY_TTL_MS = 5 * 60 * 1000;
+const verifiedKeys = new Map<string, number>();
+
+// Access tokens issued by the OAuth provider have the form "<userId>:<grantId>:<secret>"
+export function isOAuthAccessToken(token: string): boolean {
+  return token.split(':').length === 3;
+}
+
+// The DataFa.st key sent directly with the request, if any; OAuth access tokens are left to the provider
+export function directApiKey(request: Request, url: URL): ApiKeyCredential | undefined {
+  const authorization = request.headers.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    const token = authorization.slice('Bearer '.length).trim();
+    return token && !isOAuthAccessToken(token) ? { apiKey: token, source: 'header' } : undefined;
+  }
+  const apiKey = url.searchParams.get('api_key');
+  return apiKey ? { apiKey, source: 'query' } : undefined;
+}
+
+// False when DataFa.st rejects the key. Throws when the key could not be checked (DataFa.st
+// unreachable, timing out or failing), so callers fail closed rather than accept an unchecked key
+export async function verifyApiKey(env: Env, apiKey: string): Promise<boolean> {
+  const fingerprint = await keyFingerprint(apiKey);
+  const verifiedAt = verifiedKeys.get(fingerprint);
+  if (verifiedAt !== undefined && Date.now() - verifiedAt < VERIFIED_KEY_TTL_MS) {
+    return true;
+  }
+
+  const client = new DataFastClient(apiKey, { baseUrl: env.DATAFAST_API_BASE_URL || undefined, maxRetries: 0 });
+  if (!(await client.verifyApiKey())) {
+    return false;
+  }
+  verifiedKeys.set(fingerprint, Date.now());
+  return true;
+}
+
+// Default handler of the OAuth provider: the consent page where a user connects their DataFa.st key once
+export const authorizeHandler: ExportedHandler<Env> = {
+  async fetch(request, env) {
+    const url = new URL(request.url);
+    if (url.pathname !== '/authorize') {
+      return new Response("Not found", { status: 404 });
+    }
+
+    if (request.method === 'GET') {
+      let authRequest: AuthRequest;
+      try {
+        authRequest = await env.OAUTH_PROVIDER.parseAuthRequest(request);
+      } catch (error) {
+        return authorizePage({ error: `Invalid authorization request: ${error instanceof Error ? error.message : String(error)}` }, 400);
+      }
+      const client = await env.OAUTH_PROVIDER.lookupClient(authRequest.clientId);
+      if (!client) {
+        return authorizePage({ error: "Unknown client. Reconnect from your MCP client to register it again." }, 400);
+      }
+      return authorizePage({ authRequest, clientName: client.clientName || client.clientId });
+    }
+
+    if (request.method !== 'POST') {
+      return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, POST" } });
+    }
+
+    const form = await request.formData();
+    const authRequest = decodeAuthRequest(form.get('auth_request'));
+    const client = authRequest ? await env.OAUTH_PROVIDER.lookupClient(authRequest.clientId) : null;
+    // The request round-trips through the page, so its redirect URI is checked against the client again
+    if (!authRequest || !client || !client.redirectUris.includes(authRequest.redirectUri)) {
+      return authorizePage({ error: "Invalid authorization request. Start the connection again from your MCP client." }, 400);
+    }
+
+    const clientName = client.clientName || client.clientId;
+    const apiKey = String(form.get('api_key') ?? '').trim();
+    if (!apiKey) {
+      return authorizePage({ authRequest, clientName, error: "Enter your DataFa.st API key." }, 400);
+    }
+    let accepted: boolean;
+    try {
+      accepted = await verifyApiKey(env, apiKey);
+    } catch {
+      return authorizePage({ authRequest, clientName, error: "DataFa.st could not be reached to check this API key. Try again in a moment." }, 503);
+    }
+    if (!accepted) {
+      return authorizePage({ authRequest, clientName, error: "DataFa.st rejected this API key. Copy it again from https://datafa.st/dashboard." }, 401);
+    }
+
+    const { redirectTo } = await env.OAUTH_PROVIDER.completeAuthorization({
+      request: authRequest,
+      // Grants made with the same key are grouped under one user, without storing the key in the ID
+      userId: await keyFingerprint(apiKey),
+      metadata: { label: 'DataFa.st API key' },
+      scope: authRequest.scope,
+      props: { apiKey },
+    });
+    return Response.redirect(redirectTo, 302);
+  },
+};
+
+function authorizePage(
+  { authRequest, clientName, error }: { authRequest?: AuthRequest; clientName?: string; error?: string },
+  status = 200
+): Response {
+  const form = authRequest
+    ? `<p><strong>${escapeHtml(clientName ?? '')}</strong> wants to use your DataFa.st account. Your API key is stored encrypted on this server and is never shared with the client.</p>
+    <form method="post">
+      <input type="hidden" name="auth_request" value="${escapeHtml(btoa(JSON.stringify(authRequest)))}">
+      <label for="api_key">DataFa.st API key</label>
+      <input id="api_key" name="api_key" type="password" autocomplete="off" required>
+      <p class="hint">Find it at <a href="https://datafa.st/dashboard">datafa.st/dashboard</a>.</p>
+      <button type="submit">Connect</button>
+    </form>`
+    : '';
+  const html = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Connect DataFa.st</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 28rem; margin: 4rem auto; padding: 0 1rem; color: #111; }
+    label { display: block; font-weight: 600; margin-top: 1rem; }
+    input[type=password] { width: 100%; padding: 0.5rem; margin-top: 0.25rem; box-sizing: border-box; }
+    button { margin-top: 1rem; padding: 0.5rem 1rem; }
+    .hint { color: #555; font-size: 0.875rem; }
+    .error { color: #b00020; }
+  </style>
+</head>
+<body>
+  <h1>Connect DataFa.st</h1>
+  ${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+  ${form}
+</body>
+</html>`;
+  return new Response(html, { status, headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
+
+function decodeAuthRequest(value: unknown): AuthRequest | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(atob(value));
+    return parsed && typeof parsed.clientId === 'string' && typeof parsed.redirectUri === 'string' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Short SHA-256 of a key: the OAuth user ID, and the name of the key's account storage
+export async function keyFingerprint(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+  return [...new Uint8Array(digest)].slice(0, 16).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
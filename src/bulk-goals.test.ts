@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { parseBulkGoals } from "./bulk-goals";
+
+describe('parseBulkGoals', () => {
+  it('fails only the row with a blank visitor ID', () => {
+    const rows = parseBulkGoals({
+      goals: [
+        { visitorId: 'visitor-1', name: 'signup' },
+        { visitorId: '  ', name: 'signup' },
+      ],
+    });
+
+    expect(rows[0]).toEqual({ row: 1, input: { visitorId: 'visitor-1', name: 'signup' } });
+    expect(rows[1].row).toBe(2);
+    expect(rows[1].input).toBeUndefined();
+    expect(rows[1].issues?.[0]).toMatch(/^visitorId: /);
+  });
+
+  it('keeps CSV rows apart: metadata that is not a JSON object fails its own row', () => {
+    const rows = parseBulkGoals({ csv: 'visitor_id,goal,metadata\nvisitor-1,signup,"{""plan"":""pro""}"\nvisitor-2,signup,[1]' });
+
+    expect(rows[0]).toEqual({ row: 2, input: { visitorId: 'visitor-1', name: 'signup', metadata: { plan: 'pro' } } });
+    expect(rows[1]).toEqual({ row: 3, issues: ['metadata: column must be a JSON object such as {"plan":"pro"} (got an array)'] });
+  });
+});
@@ -0,0 +1,126 @@
+import { parseCsvRecords } from "./csv";
+import { formatValidationIssues, type GoalInput, goalInputSchema } from "./validation";
+
+export const BULK_GOALS_MAX_ROWS = 500;
+
+export type BulkGoalSource = {
+  goals?: Array<{ visitorId: string; name: string; metadata?: Record<string, string> }>;
+  csv?: string;
+  jsonl?: string;
+};
+
+export type BulkGoalRow = {
+  // 1-based position in the supplied array, CSV (header is row 1) or JSONL lines
+  row: number;
+  input?: GoalInput;
+  issues?: string[];
+};
+
+export type BulkGoalOutcome = {
+  row: number;
+  visitorId?: string;
+  name?: string;
+  status: 'created' | 'failed' | 'skipped';
+  eventId?: string;
+  error?: string;
+};
+
+const VISITOR_COLUMNS = ['visitorId', 'visitor_id', 'datafast_visitor_id'];
+const NAME_COLUMNS = ['name', 'goal', 'goal_name'];
+
+// Normalizes the three accepted input formats into validated rows; invalid rows keep their issues
+export function parseBulkGoals(source: BulkGoalSource): BulkGoalRow[] {
+  const rows: BulkGoalRow[] = [];
+
+  source.goals?.forEach((goal, index) => {
+    rows.push(validateGoal(index + 1, goal));
+  });
+
+  if (source.csv) {
+    const { headers, records } = parseCsvRecords(source.csv);
+    const visitorColumn = headers.find((header) => VISITOR_COLUMNS.includes(header));
+    const nameColumn = headers.find((header) => NAME_COLUMNS.includes(header));
+    if (!visitorColumn || !nameColumn) {
+      throw new Error(
+        `CSV header must include a visitor column (${VISITOR_COLUMNS.join(', ')}) and a goal name column (${NAME_COLUMNS.join(', ')}); found: ${headers.join(', ') || 'nothing'}`
+      );
+    }
+
+    for (const record of records) {
+      const candidate: Record<string, unknown> = {
+        visitorId: record.values[visitorColumn],
+        name: record.values[nameColumn],
+      };
+      const issues: string[] = [];
+      const metadata: Record<string, string> = {};
+
+      // Metadata comes from a JSON "metadata" column and/or "metadata.<key>" columns
+      if (record.values.metadata) {
+        const parsed = parseJsonObject(record.values.metadata);
+        if (typeof parsed === 'string') {
+          issues.push(`metadata: ${parsed}`);
+        } else {
+          Object.assign(metadata, parsed);
+        }
+      }
+      for (const header of headers) {
+        if (header.startsWith('metadata.') && record.values[header] !== '') {
+          metadata[header.slice('metadata.'.length)] = record.values[header];
+        }
+      }
+      if (Object.keys(metadata).length > 0) {
+        candidate.metadata = metadata;
+      }
+
+      const row = validateGoal(record.row, candidate);
+      rows.push(issues.length > 0 ? { row: record.row, issues: [...issues, ...(row.issues ?? [])] } : row);
+    }
+  }
+
+  if (source.jsonl) {
+    source.jsonl.split(/\r?\n/).forEach((line, index) => {
+      if (line.trim() === '') {
+        return;
+      }
+      let value: Record<string, unknown>;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        rows.push({ row: index + 1, issues: ['line is not valid JSON'] });
+        return;
+      }
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        rows.push({ row: index + 1, issues: ['line must be a JSON object'] });
+        return;
+      }
+      rows.push(
+        validateGoal(index + 1, {
+          visitorId: value.visitorId ?? value.visitor_id ?? value.datafast_visitor_id,
+          name: value.name,
+          metadata: value.metadata,
+        })
+      );
+    });
+  }
+
+  return rows;
+}
+
+// The parsed object, or why the text is not a JSON object (arrays, strings and numbers included)
+function parseJsonObject(text: string): Record<string, unknown> | string {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return 'column is not valid JSON';
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return `column must be a JSON object such as {"plan":"pro"} (got ${Array.isArray(value) ? 'an array' : value === null ? 'null' : typeof value})`;
+  }
+  return value as Record<string, unknown>;
+}
+
+function validateGoal(row: number, candidate: unknown): BulkGoalRow {
+  const parsed = goalInputSchema.safeParse(candidate);
+  return parsed.success ? { row, input: parsed.data } : { row, issues: formatValidationIssues(parsed.error) };
+}
@@ -0,0 +1,28 @@
+// Runs `worker` over `items` with at most `limit` calls in flight, preserving result order.
+// `onSettled` is best-effort: if it throws, the remaining items still run
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onSettled?: (completed: number, total: number) => void | Promise<void>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let completed = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+      completed++;
+      try {
+        await onSettled?.(completed, items.length);
+      } catch {
+        // A lost progress report must not abort a batch whose earlier items were already sent
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, run));
+  return results;
+}
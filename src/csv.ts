@@ -0,0 +1,75 @@
+// Minimal RFC 4180 CSV parsing for pasted exports (quoted fields, escaped quotes, CRLF)
+
+export type CsvRecord = {
+  // 1-based row number in the CSV (the header is row 1), for per-row reports
+  row: number;
+  values: Record<string, string>;
+};
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Parses a CSV with a header row into records keyed by trimmed header name, skipping blank lines
+export function parseCsvRecords(text: string): { headers: string[]; records: CsvRecord[] } {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  const headerIndex = rows.findIndex((row) => row.some((value) => value.trim() !== ''));
+  if (headerIndex === -1) {
+    return { headers: [], records: [] };
+  }
+
+  const headers = rows[headerIndex].map((header) => header.trim());
+  const records: CsvRecord[] = [];
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.every((value) => value.trim() === '')) {
+      continue;
+    }
+    const values: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      values[header] = (row[index] ?? '').trim();
+    });
+    records.push({ row: i + 1, values });
+  }
+
+  return { headers, records };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { DataFastApiError, DataFastClient } from "./datafast-client";
+
+// Each fake answer is used for one request; Retry-After: 0 keeps the retries from sleeping
+
+type FakeAnswer = { status: number; body?: unknown } | Error;
+
+function fakeApi(...answers: FakeAnswer[]) {
+  const requested: string[] = [];
+  const fetcher = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    requested.push(`${init?.method} ${String(input)}`);
+    const answer = answers.shift() ?? { status: 500 };
+    if (answer instanceof Error) {
+      throw answer;
+    }
+    return Response.json(answer.body ?? { error: 'failed' }, { status: answer.status, headers: { 'Retry-After': '0' } });
+  }) as typeof fetch;
+  return { client: new DataFastClient('key', { baseUrl: 'https://api.test', fetcher }), requested };
+}
+
+const PAYMENT = { datafast_visitor_id: 'visitor-1', amount: 10, currency: 'USD', transaction_id: 'tx_1' };
+const GOAL = { datafast_visitor_id: 'visitor-1', name: 'signup' };
+
+describe('DataFastClient retries', () => {
+  it('retries a GET after a 5xx', async () => {
+    const { client, requested } = fakeApi({ status: 503 }, { status: 404, body: { error: 'Visitor not found' } });
+
+    await expect(client.getVisitor('visitor-1')).rejects.toMatchObject({ kind: 'not_found' });
+    expect(requested).toEqual(['GET https://api.test/visitors/visitor-1', 'GET https://api.test/visitors/visitor-1']);
+  });
+
+  it('retries a GET after a network error', async () => {
+    const { client, requested } = fakeApi(new TypeError('fetch failed'), { status: 404 });
+
+    await expect(client.getVisitor('visitor-1')).rejects.toMatchObject({ kind: 'not_found' });
+    expect(requested).toHaveLength(2);
+  });
+
+  it('does not resend a POST after a 5xx or a network error, since it may have been applied', async () => {
+    const serverError = fakeApi({ status: 502 }, { status: 200, body: { transaction_id: 'tx_1' } });
+    await expect(serverError.client.createPayment(PAYMENT)).rejects.toMatchObject({ kind: 'upstream', status: 502 });
+    expect(serverError.requested).toEqual(['POST https://api.test/payments']);
+
+    const networkError = fakeApi(new TypeError('connection reset'), { status: 200, body: { event_id: 'evt_1' } });
+    const error = await networkError.client.createGoal(GOAL).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(DataFastApiError);
+    expect((error as DataFastApiError).message).toBe('Network error: connection reset. The request may still have reached DataFa.st');
+    expect(networkError.requested).toEqual(['POST https://api.test/goals']);
+  });
+
+  it('resends a POST after a 429, which means nothing was processed', async () => {
+    const { client, requested } = fakeApi({ status: 429 }, { status: 200, body: { event_id: 'evt_1' } });
+
+    await expect(client.createGoal(GOAL)).resolves.toEqual({ event_id: 'evt_1', message: 'Goal created' });
+    expect(requested).toEqual(['POST https://api.test/goals', 'POST https://api.test/goals']);
+  });
+});
+
+describe('DataFastClient.verifyApiKey', () => {
+  it('rejects the key only on 401 or 403', async () => {
+    expect(await fakeApi({ status: 401 }).client.verifyApiKey()).toBe(false);
+    expect(await fakeApi({ status: 403 }).client.verifyApiKey()).toBe(false);
+  });
+
+  it('accepts the key on any other answer about the unknown visitor', async () => {
+    for (const status of [404, 400, 422]) {
+      expect(await fakeApi({ status, body: { error: 'Invalid visitor' } }).client.verifyApiKey()).toBe(true);
+    }
+  });
+
+  it('throws when the answer says nothing about the key', async () => {
+    await expect(fakeApi({ status: 503 }, { status: 503 }, { status: 503 }).client.verifyApiKey()).rejects.toMatchObject({ kind: 'upstream' });
+    await expect(fakeApi({ status: 429 }, { status: 429 }, { status: 429 }).client.verifyApiKey()).rejects.toMatchObject({ kind: 'rate_limited' });
+  });
+});
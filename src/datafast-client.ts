@@ -0,0 +1,347 @@
+import { z } from "zod";
+
+// Typed client for the DataFa.st REST API shared by all tools
+
+const DEFAULT_BASE_URL = 'https://datafa.st/api/v1';
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8_000;
+// Retry-After values beyond this are surfaced to the caller instead of blocking the tool call
+const MAX_RETRY_AFTER_MS = 30_000;
+const KEY_CHECK_VISITOR_ID = 'datafast-mcp-key-check';
+
+export type DataFastErrorKind = 'auth' | 'validation' | 'not_found' | 'rate_limited' | 'upstream' | 'unexpected_response';
+
+export class DataFastApiError extends Error {
+  readonly kind: DataFastErrorKind;
+  readonly status?: number;
+  readonly retryAfterSeconds?: number;
+
+  constructor(kind: DataFastErrorKind, message: string, status?: number, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'DataFastApiError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export type GoalPayload = {
+  datafast_visitor_id: string;
+  name: string;
+  metadata?: Record<string, string>;
+};
+
+// Response bodies are validated at runtime. Fields the API may leave out or null (unknown location,
+// no prediction yet) are normalized to null; fields the tools cannot work without are required
+
+// Factories rather than shared instances, so the generated JSON Schema has no $refs
+const optionalText = () =>
+  z
+    .string()
+    .nullish()
+    .transform((value) => value ?? null);
+
+const optionalNumber = () =>
+  z
+    .number()
+    .nullish()
+    .transform((value) => value ?? null);
+
+const goalResultSchema = z.object({
+  event_id: z.string(),
+  message: z
+    .string()
+    .nullish()
+    .transform((message) => message ?? 'Goal created'),
+});
+
+const paymentResultSchema = z.object({
+  transaction_id: z.string().nullish(),
+  message: z
+    .string()
+    .nullish()
+    .transform((message) => message ?? 'Payment recorded'),
+});
+
+export const visitorDataSchema = z.object({
+  identity: z.preprocess(
+    (identity) => identity ?? {},
+    z.object({
+      country: optionalText(),
+      region: optionalText(),
+      city: optionalText(),
+      browser: optionalText(),
+      device_type: optionalText(),
+      os: optionalText(),
+    })
+  ),
+  activity: z.object({
+    visit_count: z.number(),
+    pageview_count: z.number(),
+    first_visit: optionalText(),
+    last_visit: optionalText(),
+    current_url: optionalText(),
+    pages: z
+      .array(z.string())
+      .nullish()
+      .transform((pages) => pages ?? []),
+    goals: z
+      .array(z.object({ name: z.string(), timestamp: optionalText(), metadata: z.record(z.unknown()).nullish() }))
+      .nullish()
+      .transform((goals) => goals ?? []),
+  }),
+  // null until DataFa.st has enough activity to score the visitor
+  prediction: z
+    .object({
+      conversion_score: z.number(),
+      conversion_rate: optionalNumber(),
+      expected_revenue: optionalNumber(),
+      confidence: optionalNumber(),
+    })
+    .nullish()
+    .transform((prediction) => prediction ?? null),
+});
+
+const errorBodySchema = z.object({
+  error: z.union([z.string(), z.object({ message: z.string().nullish() })]).nullish(),
+  message: z.string().nullish(),
+});
+
+export type GoalResult = z.infer<typeof goalResultSchema>;
+
+export type PaymentPayload = {
+  datafast_visitor_id: string;
+  amount: number;
+  currency: string;
+  transaction_id: string;
+  email?: string;
+  name?: string;
+  customer_id?: string;
+  renewal?: boolean;
+  refunded?: boolean;
+};
+
+export type PaymentResult = {
+  transaction_id: string;
+  message: string;
+};
+
+export type VisitorData = z.infer<typeof visitorDataSchema>;
+
+// Operations every backend (the real API or the sandbox) provides to the tools
+export type DataFastApi = {
+  createGoal(payload: GoalPayload): Promise<GoalResult>;
+  createPayment(payload: PaymentPayload): Promise<PaymentResult>;
+  getVisitor(visitorId: string): Promise<VisitorData>;
+};
+
+export type DataFastClientOptions = {
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  fetcher?: typeof fetch;
+};
+
+export class DataFastClient implements DataFastApi {
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly fetcher: typeof fetch;
+
+  constructor(apiKey: string, options: DataFastClientOptions = {}) {
+    this.apiKey = apiKey;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.fetcher = options.fetcher ?? fetch;
+  }
+
+  createGoal(payload: GoalPayload): Promise<GoalResult> {
+    return this.request('POST', '/goals', goalResultSchema, payload);
+  }
+
+  async createPayment(payload: PaymentPayload): Promise<PaymentResult> {
+    const result = await this.request('POST', '/payments', paymentResultSchema, payload);
+    return { transaction_id: result.transaction_id ?? payload.transaction_id, message: result.message };
+  }
+
+  getVisitor(visitorId: string): Promise<VisitorData> {
+    return this.request('GET', `/visitors/${encodeURIComponent(visitorId)}`, visitorDataSchema);
+  }
+
+  // DataFa.st has no key introspection endpoint, so this looks up a visitor that cannot exist and
+  // relies on the documented 401/403 for a rejected key. Any other answer from the API, including a
+  // 4xx for the unknown visitor, means the request got past authentication. Timeouts, 5xx and rate
+  // limits say nothing about the key and are thrown
+  async verifyApiKey(): Promise<boolean> {
+    try {
+      await this.getVisitor(KEY_CHECK_VISITOR_ID);
+      return true;
+    } catch (error) {
+      if (!(error instanceof DataFastApiError) || error.kind === 'upstream' || error.kind === 'rate_limited') {
+        throw error;
+      }
+      return error.kind !== 'auth';
+    }
+  }
+
+  // Only GETs are retried after a network error, timeout or 5xx, since a POST may already have been
+  // applied and goals have no idempotency key. A 429 means nothing was processed, so any method is retried
+  private async request<T extends z.ZodTypeAny>(method: string, path: string, schema: T, body?: unknown): Promise<z.infer<T>> {
+    const url = `${this.baseUrl}${path}`;
+    const idempotent = method === 'GET';
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.fetcher(url, {
+          method,
+          headers: {
+            Authorization: `Bearer ${this.apiKey}`,
+            "Content-Type": "application/json",
+          },
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+      } catch (error) {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        if (idempotent && attempt < this.maxRetries) {
+          await sleep(backoff(attempt));
+          continue;
+        }
+        const reason = timedOut ? `Request timed out after ${this.timeoutMs}ms` : `Network error: ${error instanceof Error ? error.message : String(error)}`;
+        throw new DataFastApiError('upstream', idempotent ? reason : `${reason}. The request may still have reached DataFa.st`);
+      }
+
+      if (response.ok) {
+        let json: unknown;
+        try {
+          json = await response.json();
+        } catch {
+          throw new DataFastApiError('upstream', 'DataFa.st returned a response that is not valid JSON', response.status);
+        }
+        const parsed = schema.safeParse(json);
+        if (!parsed.success) {
+          throw new DataFastApiError(
+            'unexpected_response',
+            `Unexpected API response from ${method} ${path}: ${describeResponseIssues(parsed.error)}`
+          );
+        }
+        return parsed.data;
+      }
+
+      const retryable = response.status === 429 || (idempotent && response.status >= 500);
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryable && attempt < this.maxRetries && (retryAfterMs ?? 0) <= MAX_RETRY_AFTER_MS) {
+        await response.body?.cancel();
+        await sleep(retryAfterMs ?? backoff(attempt));
+        continue;
+      }
+
+      throw await toApiError(response, retryAfterMs);
+    }
+  }
+}
+
+// Turns an API failure into a consistent, actionable tool message
+export function describeApiError(error: unknown): string {
+  if (!(error instanceof DataFastApiError)) {
+    return `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  const status = error.status ? `Error ${error.status}: ` : '';
+  let text = `${status}${error.message}\n\n`;
+
+  switch (error.kind) {
+    case 'auth':
+      text += `**What to do:** Your DataFa.st API key was rejected. Check that the key you connected with is correct and active at https://datafa.st/dashboard.`;
+      break;
+    case 'validation':
+      text += `**What to do:** DataFa.st rejected the request data. Fix the field mentioned above and try again.`;
+      break;
+    case 'not_found':
+      text += `**What to do:** The visitor or resource was not found. Copy the visitor ID from DevTools → Application → Cookies → \`datafast_visitor_id\` on your own domain, and make sure that visitor has at least one pageview.`;
+      break;
+    case 'rate_limited':
+      text += `**What to do:** DataFa.st is rate limiting requests. ${
+        error.retryAfterSeconds ? `Wait ${error.retryAfterSeconds} seconds` : 'Wait a moment'
+      } before trying again.`;
+      break;
+    case 'upstream':
+      text += `**What to do:** DataFa.st could not be reached or returned a server error. This is usually temporary; try again shortly. If a goal or payment was being recorded, check your dashboard first, since it may already have been applied.`;
+      break;
+    case 'unexpected_response':
+      text += `**What to do:** DataFa.st answered, but not in the format this server expects (see the field above). The request may still have been applied, so check your dashboard before retrying, and make sure DATAFAST_API_BASE_URL points at the DataFa.st API.`;
+      break;
+  }
+
+  return text;
+}
+
+// One-line form for per-row reports, e.g. "404 not_found: Visitor not found"
+export function summarizeApiError(error: unknown): string {
+  if (error instanceof DataFastApiError) {
+    return `${error.status ? `${error.status} ` : ''}${error.kind}: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// e.g. "activity.visit_count is missing; prediction.conversion_score should be number but was string"
+function describeResponseIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const field = issue.path.join('.') || 'response body';
+      if (issue.code === z.ZodIssueCode.invalid_type) {
+        return issue.received === 'undefined' ? `${field} is missing` : `${field} should be ${issue.expected} but was ${issue.received}`;
+      }
+      return `${field}: ${issue.message}`;
+    })
+    .join('; ');
+}
+
+async function toApiError(response: Response, retryAfterMs: number | undefined): Promise<DataFastApiError> {
+  const errorData = errorBodySchema.safeParse(await response.json().catch(() => ({})));
+  const error = errorData.success ? errorData.data : {};
+  const message =
+    (typeof error.error === 'string' ? error.error : error.error?.message) || error.message || response.statusText || 'Request failed';
+  const retryAfterSeconds = retryAfterMs === undefined ? undefined : Math.ceil(retryAfterMs / 1000);
+
+  if (response.status === 401 || response.status === 403) {
+    return new DataFastApiError('auth', message, response.status);
+  }
+  if (response.status === 404) {
+    return new DataFastApiError('not_found', message, response.status);
+  }
+  if (response.status === 429) {
+    return new DataFastApiError('rate_limited', message, response.status, retryAfterSeconds);
+  }
+  if (response.status >= 400 && response.status < 500) {
+    return new DataFastApiError('validation', message, response.status);
+  }
+  return new DataFastApiError('upstream', message, response.status);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoff(attempt: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
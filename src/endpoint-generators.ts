@@ -0,0 +1,533 @@
+import type { FrameworkType } from "./types";
+
+// Backend handlers for the /api/datafast-goal and /api/datafast-payment routes the setup guides
+// call from the browser. Each reads the datafast_visitor_id cookie, validates the body with the
+// same rules as the MCP tools, and forwards it to DataFa.st with the key from DATAFAST_API_KEY
+
+export const ENDPOINT_KINDS = ['goal', 'payment'] as const;
+export type EndpointKind = (typeof ENDPOINT_KINDS)[number];
+
+export type GeneratedFile = {
+  path: string;
+  // Code fence language
+  language: string;
+  code: string;
+};
+
+export type GeneratedEndpoints = {
+  // Server the handlers run on: the framework itself, or an Express server for client-only apps
+  server: string;
+  files: GeneratedFile[];
+  envVars: string[];
+  instructions: string[];
+};
+
+// Recording revenue from a browser request trusts whatever amount the browser sends
+const PAYMENT_WARNING = "The payment endpoint records the amount it is sent. Only call it after your backend has confirmed the payment, or record payments from your payment provider's webhooks instead (this server handles Stripe, Lemon Squeezy and Paddle at /webhooks/<provider>).";
+
+const ENV_INSTRUCTION = "Set DATAFAST_API_KEY (from https://datafa.st/dashboard) in the server environment. Never expose it to the browser.";
+
+// Validation and the DataFa.st call shared by the JavaScript handlers
+const JS_HELPER = `const DATAFAST_API = 'https://datafa.st/api/v1';
+const IDENTIFIER = /^[a-z0-9_-]{1,32}$/;
+
+export type GoalInput = { name: string; metadata?: Record<string, string> };
+export type PaymentInput = {
+  amount: number;
+  currency: string;
+  transactionId: string;
+  email?: string;
+  name?: string;
+  customerId?: string;
+  renewal?: boolean;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOptionalString(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === 'string';
+}
+
+// Same rules as DataFa.st: lowercase names of up to 32 characters, at most 10 string metadata values
+export function validateGoal(body: unknown): GoalInput | string {
+  const input = isRecord(body) ? body : {};
+  if (typeof input.name !== 'string' || !IDENTIFIER.test(input.name)) {
+    return 'name must be 1-32 lowercase letters, numbers, underscores or hyphens';
+  }
+  let metadata: Record<string, string> | undefined;
+  if (input.metadata !== undefined && input.metadata !== null) {
+    if (!isRecord(input.metadata)) return 'metadata must be an object';
+    const entries = Object.entries(input.metadata);
+    if (entries.length > 10) return 'metadata may have at most 10 properties';
+    metadata = {};
+    for (const [key, value] of entries) {
+      if (!IDENTIFIER.test(key)) return \`metadata key "\${key}" must be 1-32 lowercase letters, numbers, underscores or hyphens\`;
+      if (typeof value !== 'string' || value.length > 255) return \`metadata value for "\${key}" must be a string of at most 255 characters\`;
+      metadata[key] = value;
+    }
+  }
+  return { name: input.name, metadata };
+}
+
+export function validatePayment(body: unknown): PaymentInput | string {
+  const { amount, currency, transactionId, email, name, customerId, renewal } = isRecord(body) ? body : {};
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) return 'amount must be a number of zero or more';
+  if (typeof currency !== 'string' || !/^[A-Za-z]{3}$/.test(currency)) return 'currency must be an ISO 4217 code such as USD';
+  if (typeof transactionId !== 'string' || !transactionId.trim() || transactionId.length > 255) {
+    return 'transactionId must be a non-empty string of at most 255 characters';
+  }
+  if (!isOptionalString(email)) return 'email must be a string';
+  if (!isOptionalString(name)) return 'name must be a string';
+  if (!isOptionalString(customerId)) return 'customerId must be a string';
+  if (renewal !== undefined && typeof renewal !== 'boolean') return 'renewal must be a boolean';
+  return { amount, currency: currency.toUpperCase(), transactionId: transactionId.trim(), email, name, customerId, renewal };
+}
+
+export function goalPayload(visitorId: string, goal: GoalInput) {
+  return { datafast_visitor_id: visitorId, name: goal.name, metadata: goal.metadata };
+}
+
+export function paymentPayload(visitorId: string, payment: PaymentInput) {
+  return {
+    datafast_visitor_id: visitorId,
+    amount: payment.amount,
+    currency: payment.currency,
+    transaction_id: payment.transactionId,
+    email: payment.email,
+    name: payment.name,
+    customer_id: payment.customerId,
+    renewal: payment.renewal,
+  };
+}
+
+// Forwards the payload and returns DataFa.st's status and JSON body
+export async function sendToDataFast(apiKey: string | undefined, path: '/goals' | '/payments', payload: object) {
+  if (!apiKey) {
+    return { status: 500, body: { error: 'DATAFAST_API_KEY is not set' } };
+  }
+  const response = await fetch(DATAFAST_API + path, {
+    method: 'POST',
+    headers: { Authorization: \`Bearer \${apiKey}\`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  const body = await response.json().catch(() => ({ error: \`DataFa.st returned HTTP \${response.status}\` }));
+  return { status: response.status, body };
+}`;
+
+const MISSING_VISITOR = "No datafast_visitor_id cookie: the tracking script has not run for this visitor";
+
+// Handler bodies shared by the fetch-style frameworks (Next.js, SvelteKit, Astro): `visitorId`,
+// `request` and `apiKey` are in scope, and a Response is returned
+function fetchHandlerBody(kind: EndpointKind): string {
+  const validate = kind === 'goal' ? 'validateGoal' : 'validatePayment';
+  const payload = kind === 'goal' ? 'goalPayload' : 'paymentPayload';
+  return `  if (!visitorId) {
+    return Response.json({ error: '${MISSING_VISITOR}' }, { status: 400 });
+  }
+  const input = ${validate}(await request.json().catch(() => null));
+  if (typeof input === 'string') {
+    return Response.json({ error: input }, { status: 400 });
+  }
+  const result = await sendToDataFast(apiKey, '${kind === 'goal' ? '/goals' : '/payments'}', ${payload}(visitorId, input));
+  return Response.json(result.body, { status: result.status });`;
+}
+
+function helperImports(kind: EndpointKind): string {
+  return kind === 'goal' ? 'goalPayload, sendToDataFast, validateGoal' : 'paymentPayload, sendToDataFast, validatePayment';
+}
+
+function generateNext(kinds: EndpointKind[]): GeneratedEndpoints {
+  return {
+    server: 'Next.js route handlers (App Router)',
+    files: [
+      { path: 'lib/datafast.ts', language: 'typescript', code: JS_HELPER },
+      ...kinds.map((kind) => ({
+        path: `app/api/datafast-${kind}/route.ts`,
+        language: 'typescript',
+        code: `import { cookies } from 'next/headers';
+import { ${helperImports(kind)} } from '@/lib/datafast';
+
+export async function POST(request: Request) {
+  const visitorId = (await cookies()).get('datafast_visitor_id')?.value;
+  const apiKey = process.env.DATAFAST_API_KEY;
+${fetchHandlerBody(kind)}
+}`,
+      })),
+    ],
+    envVars: ['DATAFAST_API_KEY'],
+    instructions: [`${ENV_INSTRUCTION} Put it in .env.local for development.`, "The imports use the default '@/' path alias; adjust them if your project has none."],
+  };
+}
+
+function generateSvelteKit(kinds: EndpointKind[]): GeneratedEndpoints {
+  return {
+    server: 'SvelteKit endpoints',
+    files: [
+      { path: 'src/lib/server/datafast.ts', language: 'typescript', code: JS_HELPER },
+      ...kinds.map((kind) => ({
+        path: `src/routes/api/datafast-${kind}/+server.ts`,
+        language: 'typescript',
+        code: `import { env } from '$env/dynamic/private';
+import type { RequestHandler } from './$types';
+import { ${helperImports(kind)} } from '$lib/server/datafast';
+
+export const POST: RequestHandler = async ({ request, cookies }) => {
+  const visitorId = cookies.get('datafast_visitor_id');
+  const apiKey = env.DATAFAST_API_KEY;
+${fetchHandlerBody(kind)}
+};`,
+      })),
+    ],
+    envVars: ['DATAFAST_API_KEY'],
+    instructions: [`${ENV_INSTRUCTION} Put it in .env for development.`, 'Keeping the helper under src/lib/server stops SvelteKit from ever bundling it for the browser.'],
+  };
+}
+
+function generateAstro(kinds: EndpointKind[]): GeneratedEndpoints {
+  return {
+    server: 'Astro API routes',
+    files: [
+      { path: 'src/lib/datafast.ts', language: 'typescript', code: JS_HELPER },
+      ...kinds.map((kind) => ({
+        path: `src/pages/api/datafast-${kind}.ts`,
+        language: 'typescript',
+        code: `import type { APIRoute } from 'astro';
+import { ${helperImports(kind)} } from '../../lib/datafast';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request, cookies }) => {
+  const visitorId = cookies.get('datafast_visitor_id')?.value;
+  const apiKey = import.meta.env.DATAFAST_API_KEY;
+${fetchHandlerBody(kind)}
+};`,
+      })),
+    ],
+    envVars: ['DATAFAST_API_KEY'],
+    instructions: [ENV_INSTRUCTION, 'API routes need a server adapter (e.g. @astrojs/node, @astrojs/vercel) and `output: "server"` or `"hybrid"`; `prerender = false` keeps them dynamic.'],
+  };
+}
+
+function generateNuxt(kinds: EndpointKind[]): GeneratedEndpoints {
+  return {
+    server: 'Nuxt server routes (Nitro)',
+    files: [
+      { path: 'server/utils/datafast.ts', language: 'typescript', code: JS_HELPER },
+      ...kinds.map((kind) => ({
+        path: `server/api/datafast-${kind}.post.ts`,
+        language: 'typescript',
+        code: `// validate*, *Payload and sendToDataFast are auto-imported from server/utils
+export default defineEventHandler(async (event) => {
+  const visitorId = getCookie(event, 'datafast_visitor_id');
+  if (!visitorId) {
+    throw createError({ statusCode: 400, statusMessage: '${MISSING_VISITOR}' });
+  }
+  const input = ${kind === 'goal' ? 'validateGoal' : 'validatePayment'}(await readBody(event).catch(() => null));
+  if (typeof input === 'string') {
+    throw createError({ statusCode: 400, statusMessage: input });
+  }
+  const result = await sendToDataFast(useRuntimeConfig(event).datafastApiKey, '${kind === 'goal' ? '/goals' : '/payments'}', ${kind === 'goal' ? 'goalPayload' : 'paymentPayload'}(visitorId, input));
+  setResponseStatus(event, result.status);
+  return result.body;
+});`,
+      })),
+    ],
+    envVars: ['NUXT_DATAFAST_API_KEY'],
+    instructions: [
+      "Add `runtimeConfig: { datafastApiKey: '' }` to nuxt.config.ts and set NUXT_DATAFAST_API_KEY in the server environment; the empty default keeps the key out of the client bundle.",
+    ],
+  };
+}
+
+// Express server for client-only apps (React, Vue, Angular, plain HTML)
+function generateExpress(kinds: EndpointKind[], framework: FrameworkType): GeneratedEndpoints {
+  const routes = kinds.map((kind) => {
+    const validate = kind === 'goal' ? 'validateGoal' : 'validatePayment';
+    const payload = kind === 'goal' ? 'goalPayload' : 'paymentPayload';
+    return `router.post('/api/datafast-${kind}', express.json(), async (req, res, next) => {
+  try {
+    const visitorId = readCookie(req.headers.cookie, 'datafast_visitor_id');
+    if (!visitorId) {
+      return res.status(400).json({ error: '${MISSING_VISITOR}' });
+    }
+    const input = ${validate}(req.body);
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+    const result = await sendToDataFast(process.env.DATAFAST_API_KEY, '${kind === 'goal' ? '/goals' : '/payments'}', ${payload}(visitorId, input));
+    res.status(result.status).json(result.body);
+  } catch (error) {
+    next(error);
+  }
+});`;
+  });
+  const imports = [...new Set(kinds.flatMap((kind) => helperImports(kind).split(', ')))].sort().join(', ');
+  return {
+    server: `Express (${framework === 'vanilla' ? 'plain HTML sites' : framework} apps have no server of their own)`,
+    files: [
+      { path: 'server/datafast.ts', language: 'typescript', code: JS_HELPER },
+      {
+        path: 'server/datafast-routes.ts',
+        language: 'typescript',
+        code: `import express from 'express';
+import { ${imports} } from './datafast';
+
+function readCookie(header: string | undefined, name: string): string | undefined {
+  const match = header?.split(/;\\s*/).find((cookie) => cookie.startsWith(name + '='));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : undefined;
+}
+
+export const datafastRouter = express.Router();
+const router = datafastRouter;
+
+${routes.join('\n\n')}
+
+// In your server: app.use(datafastRouter);`,
+      },
+    ],
+    envVars: ['DATAFAST_API_KEY'],
+    instructions: [
+      ENV_INSTRUCTION,
+      "Serve the built app from the same server, or proxy /api/datafast-* to it from your dev server and host, so the cookie is sent with each request.",
+    ],
+  };
+}
+
+function generateLaravel(kinds: EndpointKind[]): GeneratedEndpoints {
+  const methods = kinds.map((kind) =>
+    kind === 'goal'
+      ? `    public function goal(Request $request)
+    {
+        $data = $request->validate([
+            'name' => ['required', 'string', 'max:32', 'regex:/^[a-z0-9_-]+$/'],
+            'metadata' => ['sometimes', 'array', 'max:10'],
+            'metadata.*' => ['string', 'max:255'],
+        ]);
+
+        return $this->send($request, '/goals', [
+            'name' => $data['name'],
+            'metadata' => $data['metadata'] ?? null,
+        ]);
+    }`
+      : `    public function payment(Request $request)
+    {
+        $data = $request->validate([
+            'amount' => ['required', 'numeric', 'min:0'],
+            'currency' => ['required', 'string', 'size:3'],
+            'transactionId' => ['required', 'string', 'max:255'],
+            'email' => ['sometimes', 'string'],
+            'name' => ['sometimes', 'string'],
+            'customerId' => ['sometimes', 'string'],
+            'renewal' => ['sometimes', 'boolean'],
+        ]);
+
+        return $this->send($request, '/payments', [
+            'amount' => (float) $data['amount'],
+            'currency' => strtoupper($data['currency']),
+            'transaction_id' => $data['transactionId'],
+            'email' => $data['email'] ?? null,
+            'name' => $data['name'] ?? null,
+            'customer_id' => $data['customerId'] ?? null,
+            'renewal' => $data['renewal'] ?? null,
+        ]);
+    }`
+  );
+  return {
+    server: 'Laravel controller',
+    files: [
+      {
+        path: 'app/Http/Controllers/DataFastController.php',
+        language: 'php',
+        code: `<?php
+
+namespace App\\Http\\Controllers;
+
+use Illuminate\\Http\\Request;
+use Illuminate\\Support\\Facades\\Http;
+
+class DataFastController extends Controller
+{
+${methods.join('\n\n')}
+
+    private function send(Request $request, string $path, array $payload)
+    {
+        $visitorId = $request->cookie('datafast_visitor_id');
+        if (! $visitorId) {
+            return response()->json(['error' => '${MISSING_VISITOR}'], 400);
+        }
+
+        $response = Http::withToken(config('services.datafast.key'))
+            ->acceptJson()
+            ->post('https://datafa.st/api/v1'.$path, array_filter(
+                ['datafast_visitor_id' => $visitorId] + $payload,
+                fn ($value) => $value !== null
+            ));
+
+        return response()->json($response->json(), $response->status());
+    }
+}`,
+      },
+      {
+        path: 'routes/web.php',
+        language: 'php',
+        code: `use App\\Http\\Controllers\\DataFastController;
+
+${kinds.map((kind) => `Route::post('/api/datafast-${kind}', [DataFastController::class, '${kind}']);`).join('\n')}`,
+      },
+      {
+        path: 'config/services.php',
+        language: 'php',
+        code: `'datafast' => [
+    'key' => env('DATAFAST_API_KEY'),
+],`,
+      },
+    ],
+    envVars: ['DATAFAST_API_KEY'],
+    instructions: [
+      `${ENV_INSTRUCTION} Add it to .env.`,
+      "The tracking cookie is set by JavaScript, so exclude it from cookie encryption: add 'datafast_visitor_id' to the EncryptCookies middleware's $except list (Laravel 11+: `$middleware->encryptCookies(except: ['datafast_visitor_id'])` in bootstrap/app.php).",
+      "Routes in web.php need the CSRF token: send the X-XSRF-TOKEN header from the page, or exclude api/datafast-* from CSRF verification.",
+    ],
+  };
+}
+
+function generateDjango(kinds: EndpointKind[]): GeneratedEndpoints {
+  const views = kinds.map((kind) =>
+    kind === 'goal'
+      ? `@require_POST
+def goal(request):
+    body = _json_body(request)
+    name = body.get("name")
+    if not isinstance(name, str) or not IDENTIFIER.match(name):
+        return JsonResponse({"error": "name must be 1-32 lowercase letters, numbers, underscores or hyphens"}, status=400)
+    metadata = body.get("metadata")
+    if metadata is not None:
+        if not isinstance(metadata, dict) or len(metadata) > 10:
+            return JsonResponse({"error": "metadata must be an object with at most 10 properties"}, status=400)
+        for key, value in metadata.items():
+            if not IDENTIFIER.match(key) or not isinstance(value, str) or len(value) > 255:
+                return JsonResponse({"error": f"invalid metadata entry {key!r}"}, status=400)
+    return _send(request, "/goals", {"name": name, "metadata": metadata})`
+      : `@require_POST
+def payment(request):
+    body = _json_body(request)
+    amount = body.get("amount")
+    currency = body.get("currency")
+    transaction_id = body.get("transactionId")
+    if isinstance(amount, bool) or not isinstance(amount, (int, float)) or amount < 0:
+        return JsonResponse({"error": "amount must be a number of zero or more"}, status=400)
+    if not isinstance(currency, str) or not re.fullmatch(r"[A-Za-z]{3}", currency):
+        return JsonResponse({"error": "currency must be an ISO 4217 code such as USD"}, status=400)
+    if not isinstance(transaction_id, str) or not transaction_id.strip() or len(transaction_id) > 255:
+        return JsonResponse({"error": "transactionId must be a non-empty string of at most 255 characters"}, status=400)
+    return _send(request, "/payments", {
+        "amount": amount,
+        "currency": currency.upper(),
+        "transaction_id": transaction_id.strip(),
+        "email": body.get("email"),
+        "name": body.get("name"),
+        "customer_id": body.get("customerId"),
+        "renewal": body.get("renewal"),
+    })`
+  );
+  return {
+    server: 'Django views',
+    files: [
+      {
+        path: 'datafast/views.py',
+        language: 'python',
+        code: `import json
+import os
+import re
+import urllib.error
+import urllib.request
+
+from django.http import JsonResponse
+from django.views.decorators.http import require_POST
+
+DATAFAST_API = "https://datafa.st/api/v1"
+IDENTIFIER = re.compile(r"^[a-z0-9_-]{1,32}$")
+
+
+def _json_body(request):
+    try:
+        body = json.loads(request.body or b"{}")
+    except ValueError:
+        return {}
+    return body if isinstance(body, dict) else {}
+
+
+def _send(request, path, payload):
+    visitor_id = request.COOKIES.get("datafast_visitor_id")
+    if not visitor_id:
+        return JsonResponse({"error": "${MISSING_VISITOR}"}, status=400)
+    api_key = os.environ.get("DATAFAST_API_KEY")
+    if not api_key:
+        return JsonResponse({"error": "DATAFAST_API_KEY is not set"}, status=500)
+    data = {"datafast_visitor_id": visitor_id, **{key: value for key, value in payload.items() if value is not None}}
+    upstream = urllib.request.Request(
+        DATAFAST_API + path,
+        data=json.dumps(data).encode(),
+        headers={"Authorization": f"Bearer {api_key}", "Content-Type": "application/json"},
+        method="POST",
+    )
+    try:
+        with urllib.request.urlopen(upstream, timeout=10) as response:
+            return JsonResponse(json.loads(response.read() or b"{}"), status=response.status, safe=False)
+    except urllib.error.HTTPError as error:
+        return JsonResponse({"error": error.read().decode(errors="replace")}, status=error.code)
+    except (urllib.error.URLError, TimeoutError) as error:
+        # DataFa.st could not be reached or timed out: a gateway error rather than a traceback
+        return JsonResponse({"error": f"DataFa.st could not be reached: {getattr(error, 'reason', error)}"}, status=502)
+
+
+${views.join('\n\n\n')}`,
+      },
+      {
+        path: 'urls.py',
+        language: 'python',
+        code: `from django.urls import path
+
+from datafast import views as datafast_views
+
+urlpatterns += [
+${kinds.map((kind) => `    path("api/datafast-${kind}", datafast_views.${kind}),`).join('\n')}
+]`,
+      },
+    ],
+    envVars: ['DATAFAST_API_KEY'],
+    instructions: [
+      ENV_INSTRUCTION,
+      "The views keep Django's CSRF protection: send the csrftoken cookie's value in an X-CSRFToken header with each fetch.",
+    ],
+  };
+}
+
+export function generateEndpoints(framework: FrameworkType, kinds: EndpointKind[]): GeneratedEndpoints {
+  let endpoints: GeneratedEndpoints;
+  switch (framework) {
+    case 'nextjs':
+      endpoints = generateNext(kinds);
+      break;
+    case 'svelte':
+      endpoints = generateSvelteKit(kinds);
+      break;
+    case 'astro':
+      endpoints = generateAstro(kinds);
+      break;
+    case 'nuxt':
+      endpoints = generateNuxt(kinds);
+      break;
+    case 'laravel':
+      endpoints = generateLaravel(kinds);
+      break;
+    case 'django':
+      endpoints = generateDjango(kinds);
+      break;
+    default:
+      endpoints = generateExpress(kinds, framework);
+  }
+  return kinds.includes('payment') ? { ...endpoints, instructions: [...endpoints.instructions, PAYMENT_WARNING] } : endpoints;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { detectFramework } from "./framework-detection";
+
+function packageJson(dependencies: Record<string, string>, devDependencies: Record<string, string> = {}): string {
+  return JSON.stringify({ dependencies, devDependencies });
+}
+
+function components(count: number, extension: string): string[] {
+  return Array.from({ length: count }, (_, index) => `src/components/Component${index}.${extension}`);
+}
+
+describe('detectFramework', () => {
+  it('reports Nuxt rather than Vue for a Nuxt project with many .vue files', () => {
+    const detection = detectFramework({
+      packageJson: packageJson({ nuxt: '^3.12.0', vue: '^3.4.0' }),
+      files: ['nuxt.config.ts', 'app.vue', ...components(12, 'vue')],
+    });
+
+    expect(detection.framework).toBe('nuxt');
+    expect(detection.variant).toBe('nuxt3');
+    expect(detection.signals).toContain('found nuxt.config.ts');
+  });
+
+  it('reports Vue for a Vue project, counting its .vue files as one signal', () => {
+    const detection = detectFramework({ files: components(10, 'vue') });
+
+    expect(detection.framework).toBe('vue');
+    expect(detection.confidence).toBe(0.4);
+    expect(detection.signals).toEqual(['found src/components/Component0.vue (and 9 more)']);
+  });
+
+  it('reports Next.js rather than React for a Next.js project', () => {
+    const detection = detectFramework({
+      packageJson: packageJson({ next: '15.0.0', react: '^19.0.0', 'react-dom': '^19.0.0' }, { '@vitejs/plugin-react': '^4.0.0' }),
+      files: ['next.config.mjs', 'app/layout.tsx', 'app/page.tsx'],
+    });
+
+    expect(detection.framework).toBe('nextjs');
+    expect(detection.variant).toBe('app-router');
+  });
+
+  it('reports React for a React project', () => {
+    const detection = detectFramework({
+      packageJson: packageJson({ react: '^19.0.0' }, { vite: '^6.0.0', '@vitejs/plugin-react': '^4.0.0' }),
+      files: ['vite.config.ts', 'src/main.tsx'],
+    });
+
+    expect(detection.framework).toBe('react');
+    expect(detection.variant).toBe('vite');
+  });
+
+  it('scores a SvelteKit project above a plain Svelte one with more components', () => {
+    const kit = detectFramework({
+      packageJson: packageJson({}, { '@sveltejs/kit': '^2.0.0', svelte: '^5.0.0' }),
+      files: ['svelte.config.js', 'src/routes/+page.svelte'],
+    });
+    const plain = detectFramework({ files: components(20, 'svelte') });
+
+    expect(kit.framework).toBe('svelte');
+    expect(kit.signals).toContain('package.json depends on "@sveltejs/kit"');
+    expect(plain.framework).toBe('svelte');
+    expect(plain.confidence).toBe(0.4);
+    expect(kit.confidence).toBeGreaterThan(plain.confidence);
+  });
+
+  it('reports Laravel for a Laravel app with a Vue frontend', () => {
+    const detection = detectFramework({
+      composerJson: JSON.stringify({ require: { 'laravel/framework': '^11.0' } }),
+      packageJson: packageJson({ vue: '^3.4.0' }, { '@vitejs/plugin-vue': '^5.0.0', 'laravel-vite-plugin': '^1.0.0' }),
+      files: ['artisan', 'resources/views/app.blade.php', ...components(15, 'vue')],
+    });
+
+    expect(detection.framework).toBe('laravel');
+  });
+});
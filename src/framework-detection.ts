@@ -0,0 +1,290 @@
+import type { FrameworkType, FrameworkVariantId } from "./types";
+
+// Project files an agent can pass in so the framework can be resolved without guessing
+export type ProjectEvidence = {
+  packageJson?: string;
+  composerJson?: string;
+  requirementsTxt?: string;
+  pyprojectToml?: string;
+  files?: string[];
+};
+
+export type FrameworkDetection = {
+  framework: FrameworkType;
+  variant?: FrameworkVariantId;
+  // Whether the project uses TypeScript; absent when the evidence doesn't say
+  typescript?: boolean;
+  confidence: number;
+  signals: string[];
+  warnings: string[];
+};
+
+type Signal = {
+  framework: FrameworkType;
+  weight: number;
+  description: string;
+};
+
+// Meta-frameworks come first so a Next.js project is not reported as plain React
+const SPECIFICITY: FrameworkType[] = ['nextjs', 'nuxt', 'svelte', 'astro', 'angular', 'laravel', 'django', 'vue', 'react', 'vanilla'];
+
+const PACKAGE_SIGNALS: Array<{ dependency: string; framework: FrameworkType; weight: number }> = [
+  { dependency: 'next', framework: 'nextjs', weight: 0.9 },
+  { dependency: 'nuxt', framework: 'nuxt', weight: 0.9 },
+  { dependency: 'nuxt3', framework: 'nuxt', weight: 0.9 },
+  { dependency: '@sveltejs/kit', framework: 'svelte', weight: 0.9 },
+  { dependency: 'svelte', framework: 'svelte', weight: 0.5 },
+  { dependency: 'astro', framework: 'astro', weight: 0.9 },
+  { dependency: '@angular/core', framework: 'angular', weight: 0.9 },
+  { dependency: '@vue/cli-service', framework: 'vue', weight: 0.8 },
+  { dependency: '@vitejs/plugin-vue', framework: 'vue', weight: 0.7 },
+  { dependency: 'vue', framework: 'vue', weight: 0.6 },
+  { dependency: 'react-scripts', framework: 'react', weight: 0.8 },
+  { dependency: '@vitejs/plugin-react', framework: 'react', weight: 0.7 },
+  { dependency: 'react', framework: 'react', weight: 0.6 },
+  { dependency: 'laravel-vite-plugin', framework: 'laravel', weight: 0.6 },
+];
+
+const FILE_SIGNALS: Array<{ pattern: RegExp; framework: FrameworkType; weight: number }> = [
+  { pattern: /(^|\/)next\.config\.(js|mjs|cjs|ts)$/, framework: 'nextjs', weight: 0.9 },
+  { pattern: /(^|\/)nuxt\.config\.(js|mjs|ts)$/, framework: 'nuxt', weight: 0.9 },
+  { pattern: /(^|\/)svelte\.config\.(js|mjs|ts)$/, framework: 'svelte', weight: 0.85 },
+  { pattern: /\.svelte$/, framework: 'svelte', weight: 0.4 },
+  { pattern: /(^|\/)astro\.config\.(js|mjs|ts)$/, framework: 'astro', weight: 0.9 },
+  { pattern: /\.astro$/, framework: 'astro', weight: 0.5 },
+  { pattern: /(^|\/)angular\.json$/, framework: 'angular', weight: 0.9 },
+  { pattern: /(^|\/)vue\.config\.js$/, framework: 'vue', weight: 0.8 },
+  { pattern: /\.vue$/, framework: 'vue', weight: 0.4 },
+  { pattern: /(^|\/)artisan$/, framework: 'laravel', weight: 0.9 },
+  { pattern: /\.blade\.php$/, framework: 'laravel', weight: 0.7 },
+  { pattern: /(^|\/)manage\.py$/, framework: 'django', weight: 0.85 },
+  { pattern: /(^|\/)wsgi\.py$/, framework: 'django', weight: 0.5 },
+  { pattern: /(^|\/)index\.html?$/, framework: 'vanilla', weight: 0.3 },
+];
+
+// Frameworks built on another one: their projects also carry the base framework's dependencies and
+// files, so the base framework's signals are set aside when the meta-framework has any
+const BASE_FRAMEWORKS: Partial<Record<FrameworkType, FrameworkType[]>> = {
+  nextjs: ['react'],
+  nuxt: ['vue'],
+  astro: ['react', 'vue', 'svelte'],
+  laravel: ['vue', 'react'],
+};
+
+const NEXT_APP_ROUTER = /(^|\/)(src\/)?app\/(layout|page)\.(js|jsx|ts|tsx)$/;
+const NEXT_PAGES_ROUTER = /(^|\/)(src\/)?pages\/(_app|_document|index)\.(js|jsx|ts|tsx)$/;
+
+export function detectFramework(evidence: ProjectEvidence): FrameworkDetection {
+  const signals: Signal[] = [];
+  const warnings: string[] = [];
+  const files = (evidence.files ?? []).map(normalizePath);
+  let dependencies: Record<string, string> = {};
+
+  if (evidence.packageJson) {
+    const pkg = parseJson(evidence.packageJson);
+    if (pkg) {
+      dependencies = {
+        ...asRecord(pkg.peerDependencies),
+        ...asRecord(pkg.devDependencies),
+        ...asRecord(pkg.dependencies),
+      };
+      for (const { dependency, framework, weight } of PACKAGE_SIGNALS) {
+        if (dependency in dependencies) {
+          signals.push({ framework, weight, description: `package.json depends on "${dependency}"` });
+        }
+      }
+    } else {
+      warnings.push('package.json could not be parsed as JSON and was ignored');
+    }
+  }
+
+  if (evidence.composerJson) {
+    const composer = parseJson(evidence.composerJson);
+    if (composer) {
+      const requires = { ...asRecord(composer['require-dev']), ...asRecord(composer.require) };
+      if ('laravel/framework' in requires) {
+        signals.push({ framework: 'laravel', weight: 0.95, description: 'composer.json requires "laravel/framework"' });
+      }
+    } else {
+      warnings.push('composer.json could not be parsed as JSON and was ignored');
+    }
+  }
+
+  if (evidence.requirementsTxt && /^\s*django\s*(\[[^\]]*\])?\s*([<>=~!;]|$)/im.test(evidence.requirementsTxt)) {
+    signals.push({ framework: 'django', weight: 0.9, description: 'requirements.txt lists "django"' });
+  }
+
+  if (evidence.pyprojectToml && /(^|["'\s])django\s*(\[[^\]]*\])?\s*([<>=~^!"',]|$)/im.test(evidence.pyprojectToml)) {
+    signals.push({ framework: 'django', weight: 0.9, description: 'pyproject.toml lists "django"' });
+  }
+
+  // Each pattern is one signal however many files match it, so ten .vue files count no more than one
+  for (const { pattern, framework, weight } of FILE_SIGNALS) {
+    const matches = files.filter((file) => pattern.test(file));
+    if (matches.length > 0) {
+      const more = matches.length > 1 ? ` (and ${matches.length - 1} more)` : '';
+      signals.push({ framework, weight, description: `found ${matches[0]}${more}` });
+    }
+  }
+
+  const suppressed = new Set<FrameworkType>();
+  for (const [meta, bases] of Object.entries(BASE_FRAMEWORKS) as Array<[FrameworkType, FrameworkType[]]>) {
+    if (signals.some((signal) => signal.framework === meta)) {
+      for (const base of bases) {
+        suppressed.add(base);
+      }
+    }
+  }
+
+  // Combine independent signals: each one closes part of the remaining uncertainty
+  const scores = new Map<FrameworkType, number>();
+  for (const signal of signals) {
+    if (suppressed.has(signal.framework)) {
+      continue;
+    }
+    const current = scores.get(signal.framework) ?? 0;
+    scores.set(signal.framework, 1 - (1 - current) * (1 - signal.weight));
+  }
+
+  let best: FrameworkType | undefined;
+  let bestScore = 0;
+  for (const framework of SPECIFICITY) {
+    const score = scores.get(framework) ?? 0;
+    if (score > bestScore) {
+      best = framework;
+      bestScore = score;
+    }
+  }
+
+  if (!best) {
+    return {
+      framework: 'vanilla',
+      confidence: 0,
+      signals: ['No framework signals found in the supplied evidence; falling back to vanilla HTML'],
+      warnings,
+    };
+  }
+
+  const framework = best;
+  const used = signals.filter((signal) => signal.framework === framework).map((signal) => signal.description);
+  const variant = detectVariant(framework, dependencies, files, used);
+
+  return {
+    framework,
+    variant,
+    typescript: detectTypeScript(evidence, dependencies, files),
+    confidence: Math.round(bestScore * 100) / 100,
+    signals: used,
+    warnings,
+  };
+}
+
+function detectVariant(
+  framework: FrameworkType,
+  dependencies: Record<string, string>,
+  files: string[],
+  signals: string[]
+): FrameworkVariantId | undefined {
+  if (framework === 'nextjs') {
+    const appRouterFile = files.find((file) => NEXT_APP_ROUTER.test(file));
+    if (appRouterFile) {
+      signals.push(`found ${appRouterFile} (App Router)`);
+      return 'app-router';
+    }
+    const pagesRouterFile = files.find((file) => NEXT_PAGES_ROUTER.test(file));
+    if (pagesRouterFile) {
+      signals.push(`found ${pagesRouterFile} (Pages Router)`);
+      return 'pages-router';
+    }
+    const major = majorVersion(dependencies.next);
+    if (major !== undefined && major < 13) {
+      signals.push(`next@${dependencies.next} predates the App Router`);
+      return 'pages-router';
+    }
+    return undefined;
+  }
+
+  if (framework === 'nuxt') {
+    if ('nuxt3' in dependencies) {
+      return 'nuxt3';
+    }
+    const major = majorVersion(dependencies.nuxt);
+    if (major !== undefined) {
+      signals.push(`nuxt@${dependencies.nuxt} is Nuxt ${major}`);
+      return major >= 3 ? 'nuxt3' : 'nuxt2';
+    }
+    const nuxt3File = files.find((file) => /(^|\/)(nuxt\.config\.ts|app\.vue)$/.test(file));
+    if (nuxt3File) {
+      signals.push(`found ${nuxt3File} (Nuxt 3 layout)`);
+      return 'nuxt3';
+    }
+  }
+
+  if (framework === 'angular') {
+    const appConfig = files.find((file) => /(^|\/)src\/app\/app\.config\.ts$/.test(file));
+    if (appConfig) {
+      signals.push(`found ${appConfig} (standalone)`);
+      return 'standalone';
+    }
+    const appModule = files.find((file) => /(^|\/)src\/app\/app\.module\.ts$/.test(file));
+    if (appModule) {
+      signals.push(`found ${appModule} (NgModule)`);
+      return 'ngmodule';
+    }
+    const major = majorVersion(dependencies['@angular/core']);
+    if (major !== undefined) {
+      signals.push(`@angular/core@${dependencies['@angular/core']} ${major >= 19 ? 'supports provideAppInitializer' : 'predates provideAppInitializer'}`);
+      return major >= 19 ? 'standalone' : 'ngmodule';
+    }
+  }
+
+  if (framework === 'react' || framework === 'vue') {
+    const viteConfig = files.find((file) => /(^|\/)vite\.config\.(js|mjs|cjs|ts|mts)$/.test(file));
+    if ('vite' in dependencies || viteConfig) {
+      signals.push(viteConfig ? `found ${viteConfig}` : 'package.json depends on "vite"');
+      return 'vite';
+    }
+    const cliDependency = framework === 'react' ? 'react-scripts' : '@vue/cli-service';
+    if (cliDependency in dependencies) {
+      return framework === 'react' ? 'cra' : 'vue-cli';
+    }
+  }
+
+  return undefined;
+}
+
+function detectTypeScript(evidence: ProjectEvidence, dependencies: Record<string, string>, files: string[]): boolean | undefined {
+  if (files.some((file) => /(^|\/)tsconfig(\.[\w-]+)?\.json$/.test(file) || /\.tsx?$/.test(file))) {
+    return true;
+  }
+  if ('typescript' in dependencies) {
+    return true;
+  }
+  if (files.some((file) => /\.(jsx|mjs|cjs)$/.test(file) || /(^|\/)(jsconfig\.json|next\.config\.js|nuxt\.config\.js)$/.test(file))) {
+    return false;
+  }
+  // A package.json without TypeScript is a JavaScript project
+  return evidence.packageJson ? false : undefined;
+}
+
+function normalizePath(path: string): string {
+  return path.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function majorVersion(range: string | undefined): number | undefined {
+  const match = range ? /(\d+)/.exec(range) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+function parseJson(text: string): Record<string, unknown> | undefined {
+  try {
+    const value = JSON.parse(text);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function asRecord(value: unknown): Record<string, string> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, string>) : {};
+}
@@ -0,0 +1,368 @@
+import type { FrameworkConfig, FrameworkType, FrameworkVariant, FrameworkVariantId, ScriptSnippet } from "./types";
+
+// Tracking script setup for each framework and its variants. Templates hold complete files (or the
+// part of the file that changes), with {WEBSITE_ID}, {DOMAIN} and {SCRIPT_SRC} placeholders that
+// renderTemplate fills in, escaped for the variant's context
+
+const HTML_HEAD = `<head>
+  <!-- ...existing tags -->
+  <script
+    defer
+    data-website-id="{WEBSITE_ID}"
+    data-domain="{DOMAIN}"
+    src="{SCRIPT_SRC}"
+  ></script>
+</head>`;
+
+export const FRAMEWORKS: Record<FrameworkType, FrameworkConfig> = {
+  nextjs: {
+    name: 'Next.js',
+    variants: [
+      {
+        id: 'app-router',
+        name: 'App Router',
+        file: 'app/layout.tsx',
+        language: 'tsx',
+        context: 'html-attribute',
+        scriptTemplate: `import Script from 'next/script';
+import type { ReactNode } from 'react';
+
+export default function RootLayout({ children }: { children: ReactNode }) {
+  return (
+    <html lang="en">
+      <body>
+        {children}
+        <Script
+          data-website-id="{WEBSITE_ID}"
+          data-domain="{DOMAIN}"
+          src="{SCRIPT_SRC}"
+          strategy="afterInteractive"
+        />
+      </body>
+    </html>
+  );
+}`,
+        installInstructions: 'Add the Script component to your root layout (app/layout, or src/app/layout with a src directory) so it loads on every page. Keep your existing metadata, fonts and providers.',
+        javascript: {
+          file: 'app/layout.js',
+          language: 'jsx',
+          scriptTemplate: `import Script from 'next/script';
+
+export default function RootLayout({ children }) {
+  return (
+    <html lang="en">
+      <body>
+        {children}
+        <Script
+          data-website-id="{WEBSITE_ID}"
+          data-domain="{DOMAIN}"
+          src="{SCRIPT_SRC}"
+          strategy="afterInteractive"
+        />
+      </body>
+    </html>
+  );
+}`,
+        },
+      },
+      {
+        id: 'pages-router',
+        name: 'Pages Router',
+        file: 'pages/_app.tsx',
+        language: 'tsx',
+        context: 'html-attribute',
+        scriptTemplate: `import type { AppProps } from 'next/app';
+import Script from 'next/script';
+
+export default function App({ Component, pageProps }: AppProps) {
+  return (
+    <>
+      <Script
+        data-website-id="{WEBSITE_ID}"
+        data-domain="{DOMAIN}"
+        src="{SCRIPT_SRC}"
+        strategy="afterInteractive"
+      />
+      <Component {...pageProps} />
+    </>
+  );
+}`,
+        installInstructions: 'Add the Script component to your custom App (pages/_app, or src/pages/_app with a src directory) so it loads on every page. Keep your existing global CSS imports and providers.',
+        javascript: {
+          file: 'pages/_app.js',
+          language: 'jsx',
+          scriptTemplate: `import Script from 'next/script';
+
+export default function App({ Component, pageProps }) {
+  return (
+    <>
+      <Script
+        data-website-id="{WEBSITE_ID}"
+        data-domain="{DOMAIN}"
+        src="{SCRIPT_SRC}"
+        strategy="afterInteractive"
+      />
+      <Component {...pageProps} />
+    </>
+  );
+}`,
+        },
+      },
+    ],
+  },
+  nuxt: {
+    name: 'Nuxt.js',
+    variants: [
+      {
+        id: 'nuxt3',
+        name: 'Nuxt 3',
+        file: 'nuxt.config.ts',
+        language: 'typescript',
+        context: 'js-string',
+        scriptTemplate: `export default defineNuxtConfig({
+  app: {
+    head: {
+      script: [
+        {
+          defer: true,
+          'data-website-id': '{WEBSITE_ID}',
+          'data-domain': '{DOMAIN}',
+          src: '{SCRIPT_SRC}'
+        }
+      ]
+    }
+  }
+});`,
+        installInstructions: 'Merge the app.head.script entry into your nuxt.config. defineNuxtConfig is auto-imported.',
+        javascript: { file: 'nuxt.config.js', language: 'javascript' },
+      },
+      {
+        id: 'nuxt2',
+        name: 'Nuxt 2',
+        file: 'nuxt.config.ts',
+        language: 'typescript',
+        context: 'js-string',
+        scriptTemplate: `export default {
+  head: {
+    script: [
+      {
+        defer: true,
+        'data-website-id': '{WEBSITE_ID}',
+        'data-domain': '{DOMAIN}',
+        src: '{SCRIPT_SRC}'
+      }
+    ]
+  }
+};`,
+        installInstructions: 'Merge the head.script entry into your nuxt.config.',
+        javascript: { file: 'nuxt.config.js', language: 'javascript' },
+      },
+    ],
+  },
+  angular: {
+    name: 'Angular',
+    variants: [
+      {
+        id: 'standalone',
+        name: 'Standalone (app.config.ts)',
+        file: 'src/app/app.config.ts',
+        language: 'typescript',
+        context: 'js-string',
+        scriptTemplate: `import { DOCUMENT } from '@angular/common';
+import { type ApplicationConfig, inject, provideAppInitializer } from '@angular/core';
+
+export const appConfig: ApplicationConfig = {
+  providers: [
+    // ...your existing providers
+    provideAppInitializer(() => {
+      const document = inject(DOCUMENT);
+      const script = document.createElement('script');
+      script.defer = true;
+      script.dataset['websiteId'] = '{WEBSITE_ID}';
+      script.dataset['domain'] = '{DOMAIN}';
+      script.src = '{SCRIPT_SRC}';
+      document.head.appendChild(script);
+    }),
+  ],
+};`,
+        installInstructions: 'Add the initializer to the providers in src/app/app.config.ts. provideAppInitializer needs Angular 19; on older versions add the script tag to src/index.html instead (the ngmodule variant).',
+      },
+      {
+        id: 'ngmodule',
+        name: 'NgModule (index.html)',
+        file: 'src/index.html',
+        language: 'html',
+        context: 'html-attribute',
+        scriptTemplate: HTML_HEAD,
+        installInstructions: 'Add the script tag to the <head> of src/index.html. This works for every Angular version, with or without NgModules.',
+      },
+    ],
+  },
+  react: {
+    name: 'React',
+    variants: [
+      {
+        id: 'vite',
+        name: 'Vite',
+        file: 'index.html',
+        language: 'html',
+        context: 'html-attribute',
+        scriptTemplate: HTML_HEAD,
+        installInstructions: 'Add the script tag to the <head> of index.html in the project root (next to vite.config).',
+      },
+      {
+        id: 'cra',
+        name: 'Create React App',
+        file: 'public/index.html',
+        language: 'html',
+        context: 'html-attribute',
+        scriptTemplate: HTML_HEAD,
+        installInstructions: 'Add the script tag to the <head> of public/index.html.',
+      },
+    ],
+  },
+  vue: {
+    name: 'Vue.js',
+    variants: [
+      {
+        id: 'vite',
+        name: 'Vite',
+        file: 'index.html',
+        language: 'html',
+        context: 'html-attribute',
+        scriptTemplate: HTML_HEAD,
+        installInstructions: 'Add the script tag to the <head> of index.html in the project root (next to vite.config).',
+      },
+      {
+        id: 'vue-cli',
+        name: 'Vue CLI',
+        file: 'public/index.html',
+        language: 'html',
+        context: 'html-attribute',
+        scriptTemplate: HTML_HEAD,
+        installInstructions: 'Add the script tag to the <head> of public/index.html.',
+      },
+    ],
+  },
+  laravel: {
+    name: 'Laravel',
+    variants: [
+      {
+        name: 'Blade layout',
+        file: 'resources/views/layouts/app.blade.php',
+        language: 'blade',
+        context: 'blade',
+        scriptTemplate: HTML_HEAD,
+        installInstructions: 'Add the script tag to the <head> of your main Blade layout (e.g. resources/views/layouts/app.blade.php).',
+      },
+    ],
+  },
+  django: {
+    name: 'Django',
+    variants: [
+      {
+        name: 'Base template',
+        file: 'templates/base.html',
+        language: 'html',
+        context: 'django',
+        scriptTemplate: HTML_HEAD,
+        installInstructions: 'Add the script tag to the <head> of the base template your pages extend (e.g. templates/base.html).',
+      },
+    ],
+  },
+  astro: {
+    name: 'Astro',
+    variants: [
+      {
+        name: 'Layout component',
+        file: 'src/layouts/Layout.astro',
+        language: 'astro',
+        context: 'html-attribute',
+        scriptTemplate: `---
+interface Props {
+  title?: string;
+}
+
+const { title = 'My site' } = Astro.props;
+---
+
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>{title}</title>
+    <script
+      is:inline
+      defer
+      data-website-id="{WEBSITE_ID}"
+      data-domain="{DOMAIN}"
+      src="{SCRIPT_SRC}"
+    ></script>
+  </head>
+  <body>
+    <slot />
+  </body>
+</html>`,
+        installInstructions: 'Add the script tag to the <head> of the layout every page uses. is:inline stops Astro from bundling the script, which would drop its data attributes.',
+      },
+    ],
+  },
+  svelte: {
+    name: 'SvelteKit',
+    variants: [
+      {
+        name: 'app.html',
+        file: 'src/app.html',
+        language: 'html',
+        context: 'html-attribute',
+        scriptTemplate: `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <script
+      defer
+      data-website-id="{WEBSITE_ID}"
+      data-domain="{DOMAIN}"
+      src="{SCRIPT_SRC}"
+    ></script>
+    %sveltekit.head%
+  </head>
+  <body data-sveltekit-preload-data="hover">
+    <div style="display: contents">%sveltekit.body%</div>
+  </body>
+</html>`,
+        installInstructions: 'Add the script tag to the <head> of src/app.html, keeping the %sveltekit.head% and %sveltekit.body% placeholders.',
+      },
+    ],
+  },
+  vanilla: {
+    name: 'Vanilla HTML',
+    variants: [
+      {
+        name: 'HTML page',
+        file: 'index.html',
+        language: 'html',
+        context: 'html-attribute',
+        scriptTemplate: HTML_HEAD,
+        installInstructions: 'Add the script tag to the <head> of every HTML page (or the shared header include).',
+      },
+    ],
+  },
+};
+
+// The requested variant of a framework, the default one when no ID is given, or undefined when the
+// framework has no variant with that ID
+export function frameworkVariant(framework: FrameworkType, id?: FrameworkVariantId): FrameworkVariant | undefined {
+  const { variants } = FRAMEWORKS[framework];
+  return id === undefined ? variants[0] : variants.find((variant) => variant.id === id);
+}
+
+export function variantIds(framework: FrameworkType): FrameworkVariantId[] {
+  return FRAMEWORKS[framework].variants.flatMap((variant) => (variant.id ? [variant.id] : []));
+}
+
+// The file, language and template for a TypeScript or JavaScript project
+export function variantSnippet(variant: FrameworkVariant, typescript: boolean): ScriptSnippet {
+  const { file, language, scriptTemplate } = variant;
+  return typescript ? { file, language, scriptTemplate } : { file, language, scriptTemplate, ...variant.javascript };
+}
@@ -1,276 +1,346 @@
+import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { McpAgent } from "agents/mcp";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ErrorCode,
+  McpError,
+  type ServerNotification,
+  type ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-
-// Framework detection types
-type FrameworkType = 'nextjs' | 'vue' | 'react' | 'angular' | 'laravel' | 'django' | 'astro' | 'svelte' | 'nuxt' | 'vanilla';
-
-type FrameworkConfig = {
-  name: string;
-  scriptTemplate: string;
-  proxyTemplate?: string;
-  installInstructions: string;
-};
+import { type AccountClient, isSandboxMode, openAccount, type SnapshotRead } from "./account";
+import { type ApiKeyCredential, authorizeHandler, directApiKey, verifyApiKey } from "./auth";
+import { BULK_GOALS_MAX_ROWS, type BulkGoalOutcome, type BulkGoalRow, parseBulkGoals } from "./bulk-goals";
+import { mapWithConcurrency } from "./concurrency";
+import {
+  DataFastApiError,
+  describeApiError,
+  summarizeApiError,
+  type GoalResult,
+} from "./datafast-client";
+import { ENDPOINT_KINDS, generateEndpoints } from "./endpoint-generators";
+import { detectFramework, type FrameworkDetection } from "./framework-detection";
+import { FRAMEWORKS, frameworkVariant, variantIds, variantSnippet } from "./frameworks";
+import { buildInstallPatch, type InstallPatch, variantForFiles } from "./install-patch";
+import { checkInstallation } from "./installation-check";
+import {
+  IMPORT_FIELDS,
+  importMappingSchema,
+  PAYMENT_IMPORT_MAX_ROWS,
+  PAYMENT_IMPORT_PREVIEW_ROWS,
+  PAYMENT_PROVIDERS,
+  type PaymentImportPlan,
+  planPaymentImport,
+} from "./payment-import";
+import type { LedgerEntry, PaymentSubmission } from "./payment-ledger";
+import {
+  analyzeVisitorPrompt,
+  diagnoseMissingDataPrompt,
+  onboardProjectPrompt,
+  REVENUE_PROVIDERS,
+  revenueAttributionPrompt,
+  type SiteArgs,
+} from "./prompts";
+import { chooseProxyTarget, generateProxyConfig, PROXY_TARGETS } from "./proxy-configs";
+import { matchingValues, type RecentValueKind, type RecentValues } from "./recent-values";
+import { renderTemplate } from "./templates";
+import {
+  SEGMENT_MAX_VISITORS,
+  SEGMENT_TOP_CONVERTERS,
+  type SegmentSummary,
+  type SegmentVisitor,
+  summarizeSegment,
+  uniqueIds,
+} from "./segments";
+import {
+  amountSchema,
+  checkAmountPrecision,
+  currencySchema,
+  domainSchema,
+  goalMetadataSchema,
+  goalNameSchema,
+  toGoalPayload,
+  toPaymentPayload,
+  transactionIdSchema,
+  visitorIdSchema,
+  websiteIdSchema,
+} from "./validation";
+import {
+  diffSnapshots,
+  parseSince,
+  VISITOR_CACHE_TTL_SECONDS,
+  VISITOR_SNAPSHOTS_MAX,
+  type VisitorDiff,
+  type VisitorSnapshot,
+} from "./visitor-snapshots";
+import {
+  COLD_LEAD_SCORE,
+  HOT_LEAD_SCORE,
+  type SessionDelivery,
+  type WatchAlert,
+  type WatchEntry,
+  WATCHLIST_ALERTS_URI,
+  WATCHLIST_DEFAULT_INTERVAL_SECONDS,
+  WATCHLIST_MAX_VISITORS,
+  WATCHLIST_MIN_INTERVAL_SECONDS,
+  type WatchlistSettings,
+} from "./watchlist";
+import {
+  activeProfile,
+  findProfile,
+  maskApiKey,
+  resolveSiteDefaults,
+  type SiteProfile,
+  type SiteProfileState,
+  siteProfileNameSchema,
+} from "./site-profiles";
+import {
+  addSiteProfileOutputSchema,
+  compareVisitorSegmentsOutputSchema,
+  configureWatchlistOutputSchema,
+  createGoalOutputSchema,
+  createGoalsBulkOutputSchema,
+  createPaymentOutputSchema,
+  diffVisitorSnapshotsOutputSchema,
+  generateServerEndpointsOutputSchema,
+  getVisitorDataOutputSchema,
+  getVisitorHistoryOutputSchema,
+  helpOutputSchema,
+  importPaymentsOutputSchema,
+  installTrackingScriptOutputSchema,
+  listRecordedPaymentsOutputSchema,
+  listSiteProfilesOutputSchema,
+  listWatchlistOutputSchema,
+  saveVisitorSegmentOutputSchema,
+  switchSiteProfileOutputSchema,
+  type ToolOutput,
+  unwatchVisitorOutputSchema,
+  validateInstallationOutputSchema,
+  watchVisitorOutputSchema,
+} from "./tool-outputs";
+import { FRAMEWORK_TYPES, FRAMEWORK_VARIANTS, type FrameworkConfig, type FrameworkType, isFrameworkType } from "./types";
+import {
+  isWebhookProvider,
+  parseWebhookEvent,
+  verifyWebhookSignature,
+  type WebhookEvent,
+  type WebhookProvider,
+  type WebhookResult,
+} from "./webhooks";
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Values offered when completing arguments, or listing visitor and payment resources
+const RESOURCE_COMPLETION_LIMIT = 20;
+
+// Limits on the project files install_tracking_script patches
+const PROJECT_FILES_MAX = 10;
+const PROJECT_FILE_MAX_LENGTH = 200_000;
+
+// Durable Object storage key of the resource URIs the client subscribed to
+const RESOURCE_SUBSCRIPTIONS_KEY = "resourceSubscriptions";
+
+// Tool overview shown by datafast_help
+const HELP_TOOLS = [
+  { name: 'install_tracking_script', description: 'Create framework-specific code' },
+  { name: 'validate_installation', description: 'Test your setup' },
+  { name: 'generate_server_endpoints', description: 'Backend goal and payment handlers for your framework' },
+  { name: 'create_goal', description: 'Track conversions' },
+  { name: 'create_goals_bulk', description: 'Backfill many conversions at once' },
+  { name: 'create_payment', description: 'Revenue attribution' },
+  { name: 'import_payments', description: 'Import Stripe, Lemon Squeezy or Paddle CSV exports' },
+  { name: 'list_recorded_payments', description: 'Reconcile payments recorded by this server' },
+  { name: 'get_visitor_data', description: 'Analytics insights' },
+  { name: 'get_visitor_history', description: 'Stored snapshots of a visitor' },
+  { name: 'diff_visitor_snapshots', description: 'What a visitor did since a snapshot or time' },
+  { name: 'watch_visitor', description: 'Get notified when a lead heats up or completes a goal' },
+  { name: 'unwatch_visitor', description: 'Remove a visitor from the watchlist' },
+  { name: 'list_watchlist', description: 'Watched visitors and recent alerts' },
+  { name: 'configure_watchlist', description: 'Alert webhook and polling interval' },
+  { name: 'save_visitor_segment', description: 'Save a cohort of visitor IDs by name' },
+  { name: 'compare_visitor_segments', description: 'Compare cohorts (e.g. paid vs organic) side by side' },
+  { name: 'add_site_profile', description: 'Save a website (ID, domain, API key) as a named profile' },
+  { name: 'list_site_profiles', description: 'Show saved website profiles' },
+  { name: 'switch_site_profile', description: 'Change which website the other tools default to' },
+  { name: 'datafast_help', description: 'This help system' },
+];
 
 // Define our MCP agent with DataFast API tools
-type State = Record<string, never>;
 type Props = {
   apiKey: string;
 };
 
-export class DataFastMCP extends McpAgent<Env, State, Props> {
-  server = new McpServer({
-    name: "DataFast Analytics API",
-    version: "1.0.0",
-  });
-
-  // Framework configurations for DataFa.st setup
-  private frameworks: Record<FrameworkType, FrameworkConfig> = {
-    nextjs: {
-      name: 'Next.js',
-      scriptTemplate: `// Add to your _app.js or layout.js
-<Script
-  data-website-id="{WEBSITE_ID}"
-  data-domain="{DOMAIN}"
-  src="{SCRIPT_SRC}"
-  strategy="afterInteractive"
-/>`,
-      proxyTemplate: `// next.config.js
-module.exports = {
-  async rewrites() {
-    return [
-      {
-        source: '/js/script.js',
-        destination: 'https://datafa.st/js/script.js'
-      },
-      {
-        source: '/api/events',
-        destination: 'https://datafa.st/api/events'
-      }
-    ]
-  }
-}`,
-      installInstructions: 'Import Script from "next/script" and add the tracking script to your _app.js or root layout.'
+export class DataFastMCP extends McpAgent<Env, unknown, Props> {
+  server = new McpServer(
+    {
+      name: "DataFast Analytics API",
+      version: "1.0.0",
     },
-    vue: {
-      name: 'Vue.js',
-      scriptTemplate: `<!-- Add to your index.html or main component -->
-<script
-  defer
-  data-website-id="{WEBSITE_ID}"
-  data-domain="{DOMAIN}"
-  src="{SCRIPT_SRC}"
-></script>`,
-      proxyTemplate: `// vue.config.js
-module.exports = {
-  devServer: {
-    proxy: {
-      '/js/script.js': {
-        target: 'https://datafa.st',
-        changeOrigin: true
-      },
-      '/api/events': {
-        target: 'https://datafa.st',
-        changeOrigin: true
-      }
+    {
+      capabilities: { logging: {}, resources: { subscribe: true } },
     }
-  }
-}`,
-      installInstructions: 'Add the script tag to your public/index.html or main App.vue component.'
-    },
-    react: {
-      name: 'React',
-      scriptTemplate: `// Add to your index.html or App.js
-<script
-  defer
-  data-website-id="{WEBSITE_ID}"
-  data-domain="{DOMAIN}"
-  src="{SCRIPT_SRC}"
-></script>`,
-      installInstructions: 'Add the script tag to your public/index.html file in the <head> section.'
-    },
-    angular: {
-      name: 'Angular',
-      scriptTemplate: `<!-- Add to your index.html -->
-<script
-  defer
-  data-website-id="{WEBSITE_ID}"
-  data-domain="{DOMAIN}"
-  src="{SCRIPT_SRC}"
-></script>`,
-      installInstructions: 'Add the script tag to your src/index.html file in the <head> section.'
-    },
-    laravel: {
-      name: 'Laravel',
-      scriptTemplate: `{{-- Add to your blade template --}}
-<script
-  defer
-  data-website-id="{WEBSITE_ID}"
-  data-domain="{DOMAIN}"
-  src="{SCRIPT_SRC}"
-></script>`,
-      installInstructions: 'Add the script tag to your main layout blade template (e.g., app.blade.php).'
-    },
-    django: {
-      name: 'Django',
-      scriptTemplate: `<!-- Add to your base template -->
-<script
-  defer
-  data-website-id="{WEBSITE_ID}"
-  data-domain="{DOMAIN}"
-  src="{SCRIPT_SRC}"
-></script>`,
-      installInstructions: 'Add the script tag to your base.html template in the <head> section.'
-    },
-    astro: {
-      name: 'Astro',
-      scriptTemplate: `---
-// Add to your Layout.astro
----
-<script
-  defer
-  data-website-id="{WEBSITE_ID}"
-  data-domain="{DOMAIN}"
-  src="{SCRIPT_SRC}"
-></script>`,
-      installInstructions: 'Add the script tag to your main layout component.'
-    },
-    svelte: {
-      name: 'SvelteKit',
-      scriptTemplate: `<!-- Add to your app.html -->
-<script
-  defer
-  data-website-id="{WEBSITE_ID}"
-  data-domain="{DOMAIN}"
-  src="{SCRIPT_SRC}"
-></script>`,
-      installInstructions: 'Add the script tag to your src/app.html file in the <head> section.'
-    },
-    nuxt: {
-      name: 'Nuxt.js',
-      scriptTemplate: `// Add to nuxt.config.js
-export default {
-  head: {
-    script: [
-      {
-        defer: true,
-        'data-website-id': '{WEBSITE_ID}',
-        'data-domain': '{DOMAIN}',
-        src: '{SCRIPT_SRC}'
-      }
-    ]
-  }
-}`,
-      installInstructions: 'Add the script configuration to your nuxt.config.js file.'
-    },
-    vanilla: {
-      name: 'Vanilla HTML',
-      scriptTemplate: `<!-- Add to your HTML -->
-<script
-  defer
-  data-website-id="{WEBSITE_ID}"
-  data-domain="{DOMAIN}"
-  src="{SCRIPT_SRC}"
-></script>`,
-      installInstructions: 'Add the script tag to your HTML file in the <head> section.'
-    }
-  };
+  );
 
   async init() {
     // Tool 1: Generate tracking script for detected framework
-    this.server.tool(
+    this.server.registerTool(
       "install_tracking_script",
-      "Install DataFa.st tracking script for your specific framework. Automatically detects framework or accepts manual selection.",
       {
-        websiteId: z.string().describe("Your website ID from DataFa.st dashboard (required - get this from https://datafa.st/dashboard)"),
-        domain: z.string().describe("Your website domain (e.g., 'example.com')"),
-        framework: z.enum(['nextjs', 'vue', 'react', 'angular', 'laravel', 'django', 'astro', 'svelte', 'nuxt', 'vanilla']).optional().describe("Framework to use (will auto-detect if not provided)"),
-        useProxy: z.boolean().optional().describe("Whether to set up proxy to avoid ad blockers (recommended: true)")
+        description: "Install DataFa.st tracking script for your specific framework. Automatically detects framework or accepts manual selection.",
+        inputSchema: {
+          websiteId: z.string().optional().describe("Your website ID from DataFa.st dashboard (get this from https://datafa.st/dashboard; defaults to the active site profile)"),
+          domain: z.string().optional().describe("Your website domain (e.g., 'example.com'; defaults to the active site profile)"),
+          framework: z.enum(FRAMEWORK_TYPES).optional().describe("Framework to use (defaults to the active site profile, otherwise auto-detected from projectEvidence)"),
+          variant: z.enum(FRAMEWORK_VARIANTS).optional().describe("Framework setup: Next.js app-router/pages-router, Nuxt nuxt3/nuxt2, Angular standalone/ngmodule, React vite/cra, Vue vite/vue-cli (defaults to the detected variant, otherwise the first)"),
+          typescript: z.boolean().optional().describe("Whether the project uses TypeScript (defaults to what projectEvidence shows, otherwise true)"),
+          useProxy: z.boolean().optional().describe("Whether to set up proxy to avoid ad blockers (defaults to the active site profile, otherwise true)"),
+          proxyTarget: z.enum(PROXY_TARGETS).optional().describe("Where the proxy runs: your host (cloudflare-worker, vercel, netlify, nginx, apache, caddy) or your app server (express, nextjs, laravel, django). Defaults to the framework's own proxy, or the host found in projectEvidence files"),
+          projectEvidence: z.object({
+            packageJson: z.string().optional().describe("Contents of the project's package.json"),
+            composerJson: z.string().optional().describe("Contents of composer.json (PHP projects)"),
+            requirementsTxt: z.string().optional().describe("Contents of requirements.txt (Python projects)"),
+            pyprojectToml: z.string().optional().describe("Contents of pyproject.toml (Python projects)"),
+            files: z.array(z.string()).optional().describe("Project file listing or config filenames, e.g. ['next.config.js', 'app/layout.tsx']")
+          }).optional().describe("Project files used to auto-detect the framework when 'framework' is not provided"),
+          projectFiles: z.array(z.object({
+            path: z.string().describe("Path relative to the project root, e.g. 'app/layout.tsx'"),
+            content: z.string().max(PROJECT_FILE_MAX_LENGTH).describe("Current contents of the file")
+          })).max(PROJECT_FILES_MAX).optional().describe("Files to patch (layout, index.html, nuxt.config, base.html, and vercel.json, _redirects or next.config for the proxy). When given, the response is a unified diff that adds the script, or updates an existing DataFa.st tag, instead of a snippet")
+        },
+        outputSchema: installTrackingScriptOutputSchema
       },
       async (params) => {
-        const { websiteId, domain, framework, useProxy = true } = params;
+        const site = resolveSiteDefaults(params, await this.activeProfile());
+        if (site.status === 'invalid') {
+          return this.validationErrorResult("Tracking Script Generation Failed", site.issues);
+        }
+        const { websiteId, domain, profile } = site;
+        const { framework = profile?.framework, useProxy = profile?.useProxy ?? true, projectFiles } = params;
+        await this.remember({ websiteId, domain });
+        // Files supplied for patching are evidence too
+        const projectEvidence = projectFiles
+          ? { ...params.projectEvidence, files: [...(params.projectEvidence?.files ?? []), ...projectFiles.map((file) => file.path)] }
+          : params.projectEvidence;
         
         // Auto-detect framework if not provided
-        let detectedFramework: FrameworkType = framework || 'vanilla';
+        let detection: FrameworkDetection | undefined;
         if (!framework) {
-          // Framework detection logic would go here
-          // For now, defaulting to vanilla
-          detectedFramework = 'vanilla';
+          detection = detectFramework(projectEvidence ?? {});
         }
+        const detectedFramework: FrameworkType = framework ?? detection?.framework ?? 'vanilla';
         
-        const config = this.frameworks[detectedFramework];
+        const config = FRAMEWORKS[detectedFramework];
+        const variant = params.variant || detection?.variant
+          ? frameworkVariant(detectedFramework, params.variant ?? detection?.variant)
+          : (projectFiles && variantForFiles(detectedFramework, projectFiles)) ?? frameworkVariant(detectedFramework);
+        if (!variant) {
+          const ids = variantIds(detectedFramework);
+          return this.validationErrorResult("Tracking Script Generation Failed", [
+            `variant: "${params.variant}" does not apply to ${config.name}${ids.length > 0 ? ` (use ${ids.join(' or ')})` : '; leave it out'}`,
+          ]);
+        }
+        // Otherwise the language of the supplied source files, leaving out config files such as next.config.mjs
+        const sourceFile = projectFiles?.find((file) => /\.(tsx?|jsx?)$/.test(file.path) && !/\.config\.\w+$/.test(file.path));
+        const typescript = params.typescript ?? detection?.typescript ?? (sourceFile ? /\.tsx?$/.test(sourceFile.path) : true);
+        const snippet = variantSnippet(variant, typescript);
         const scriptSrc = useProxy ? '/js/script.js' : 'https://datafa.st/js/script.js';
         
-        const script = config.scriptTemplate
-          .replace('{WEBSITE_ID}', websiteId)
-          .replace('{DOMAIN}', domain)
-          .replace('{SCRIPT_SRC}', scriptSrc);
+        const script = renderTemplate(snippet.scriptTemplate, { WEBSITE_ID: websiteId, DOMAIN: domain, SCRIPT_SRC: scriptSrc }, variant.context);
         
         let response = `🚀 **DataFa.st Tracking Script for ${config.name}**\n\n`;
-        response += `**Script:**\n\`\`\`${detectedFramework === 'nextjs' || detectedFramework === 'nuxt' ? 'javascript' : 'html'}\n${script}\n\`\`\`\n\n`;
-        response += `**Installation:** ${config.installInstructions}\n\n`;
+        if (detection) {
+          response += this.formatDetection(detection, config);
+        }
+        const otherVariants = variantIds(detectedFramework).filter((id) => id !== variant.id);
+        if (variant.id) {
+          response += `**Setup:** ${variant.name}${variant.javascript ? (typescript ? ', TypeScript' : ', JavaScript') : ''} — pass \`variant\` (${otherVariants.map((id) => `\`${id}\``).join(', ')}) for another setup\n\n`;
+        }
+        
+        const proxyChoice = !useProxy
+          ? undefined
+          : params.proxyTarget
+            ? { target: params.proxyTarget, reason: 'requested' }
+            : chooseProxyTarget(detectedFramework, projectEvidence);
+        const proxy = proxyChoice && generateProxyConfig(proxyChoice.target, domain);
         
-        if (useProxy && config.proxyTemplate) {
-          response += `**Proxy Configuration (Recommended):**\n\`\`\`javascript\n${config.proxyTemplate}\n\`\`\`\n\n`;
+        const patch = projectFiles && buildInstallPatch(detectedFramework, variant, projectFiles, { websiteId, domain, scriptSrc }, proxy);
+        if (patch) {
+          response += this.formatInstallPatch(patch);
+        }
+        if (!patch?.scriptPatched) {
+          response += `**Script:** \`${snippet.file}\`\n\`\`\`${snippet.language}\n${script}\n\`\`\`\n\n`;
+          response += `**Installation:** ${variant.installInstructions}\n\n`;
+        }
+        
+        if (proxy && !patch?.proxyPatched) {
+          response += `**Proxy Configuration for ${proxy.name} (Recommended):** add to ${proxy.file}\n\`\`\`${proxy.language}\n${proxy.code}\n\`\`\`\n\n`;
+          for (const extra of proxy.extraFiles ?? []) {
+            response += `Add to ${extra.file}:\n\`\`\`${extra.language}\n${extra.code}\n\`\`\`\n\n`;
+          }
+          response += `${proxy.instructions}\n\n`;
           response += `ℹ️ **Why use proxy?** Proxying through your domain prevents ad blockers from blocking tracking and improves data accuracy.\n\n`;
+        } else if (useProxy) {
+          response += `**Proxy Configuration:** the script loads from \`/js/script.js\`, so \`/js/script.js\` and \`/api/events\` must be proxied to https://datafa.st in production. `;
+          response += `Run this tool again with \`proxyTarget\` set to where the site is hosted (${PROXY_TARGETS.map((target) => `\`${target}\``).join(', ')}) to get the configuration.\n\n`;
         }
         
         response += `⚠️ **Important:** Get your website ID from https://datafa.st/dashboard\n`;
         response += `📚 **Next steps:** Use the \`validate_installation\` tool after setup to test tracking.`;
         
         return {
-          content: [{ type: "text", text: response }]
+          content: [{ type: "text", text: response }],
+          structuredContent: {
+            framework: detectedFramework,
+            frameworkName: config.name,
+            variant: variant.id,
+            variantName: variant.name,
+            typescript,
+            file: snippet.file,
+            script,
+            scriptSrc,
+            installInstructions: variant.installInstructions,
+            proxyConfig: proxy?.code,
+            proxy: proxy && {
+              target: proxy.target,
+              name: proxy.name,
+              file: proxy.file,
+              instructions: proxy.instructions,
+              extraFiles: proxy.extraFiles,
+              reason: proxyChoice?.reason,
+            },
+            detection,
+            patch: patch && { diff: patch.diff, files: patch.files, manual: patch.manual },
+          } satisfies ToolOutput<typeof installTrackingScriptOutputSchema>
         };
       }
     );
 
     // Tool 2: Create custom goal
-    this.server.tool(
+    this.server.registerTool(
       "create_goal",
-      "Create a custom conversion goal using DataFa.st API to track user actions like signups, purchases, or downloads.",
       {
-        visitorId: z.string().describe("DataFa.st visitor ID from browser cookies - find it in DevTools > Application > Cookies > datafast_visitor_id"),
-        name: z.string().describe("Goal name (lowercase, max 32 chars, e.g. 'newsletter_signup', 'purchase')"),
-        metadata: z.record(z.string()).optional().describe("Optional metadata object with custom properties (max 10 properties)")
+        description: "Create a custom conversion goal using DataFa.st API to track user actions like signups, purchases, or downloads.",
+        inputSchema: {
+          visitorId: visitorIdSchema.describe("DataFa.st visitor ID from browser cookies - find it in DevTools > Application > Cookies > datafast_visitor_id"),
+          name: goalNameSchema.describe("Goal name (lowercase letters, numbers, underscores or hyphens, max 32 chars, e.g. 'newsletter_signup', 'purchase')"),
+          metadata: goalMetadataSchema.optional().describe("Optional metadata object with custom properties (max 10 properties; keys like goal names, values max 255 chars)")
+        },
+        outputSchema: createGoalOutputSchema
       },
       async (params) => {
-        const apiKey = this.props.apiKey;
-        const { visitorId, name, metadata } = params;
-
-        const response = await fetch("https://datafa.st/api/v1/goals", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            datafast_visitor_id: visitorId,
-            name: name,
-            metadata: metadata
-          }),
-        });
+        const { visitorId, name } = params;
 
-        if (!response.ok) {
-          const errorData = (await response.json().catch(() => ({}))) as {
-            error?: { message?: string };
-          };
-          return {
-            content: [
-              {
-                type: "text",
-                text: `❌ **Goal Creation Failed**\nError ${response.status}: ${
-                  errorData.error?.message || response.statusText
-                }\n\n**Common issues:**\n- Visitor must have at least one prior pageview\n- Goal name must be lowercase, max 32 characters\n- Invalid visitor ID`,
-              },
-            ],
-            isError: true,
-          };
+        let result: GoalResult;
+        try {
+          result = await (await this.account()).createGoal(toGoalPayload(params));
+        } catch (error) {
+          return this.apiErrorResult("Goal Creation Failed", error);
         }
-
-        const result = (await response.json()) as {
-          event_id: string;
-          message: string;
-        };
+        await this.remember({ visitorId });
         
         return {
           content: [
@@ -279,70 +349,75 @@ export default {
               text: `✅ **Goal "${name}" Created Successfully!**\n\nEvent ID: ${result.event_id}\nMessage: ${result.message}\n\n🎯 This goal will now be tracked in your DataFa.st analytics dashboard.`,
             },
           ],
+          structuredContent: {
+            eventId: result.event_id,
+            visitorId,
+            name,
+            message: result.message,
+          } satisfies ToolOutput<typeof createGoalOutputSchema>,
         };
       }
     );
 
     // Tool 3: Track payment for revenue attribution
-    this.server.tool(
+    this.server.registerTool(
       "create_payment",
-      "Create a payment using DataFa.st API. Used for display in your DataFast dashboard and for revenue attribution to marketing channels. Links revenue to traffic sources.",
       {
-        visitorId: z.string().describe("DataFa.st visitor ID from browser cookies - find it in DevTools > Application > Cookies > datafast_visitor_id"),
-        amount: z.number().describe("Payment amount (e.g., 29.99 for $29.99)"),
-        currency: z.string().describe("Currency code (USD, EUR, GBP, etc.)"),
-        transactionId: z.string().describe("Unique transaction ID from your payment system"),
-        email: z.string().optional().describe("Customer email address"),
-        name: z.string().optional().describe("Customer name"),
-        customerId: z.string().optional().describe("Customer ID from your payment provider"),
-        renewal: z.boolean().optional().describe("Is this a recurring/renewal payment?"),
-        refunded: z.boolean().optional().describe("Is this payment refunded?")
+        description: "Create a payment using DataFa.st API. Used for display in your DataFast dashboard and for revenue attribution to marketing channels. Links revenue to traffic sources.",
+        inputSchema: {
+          visitorId: visitorIdSchema.describe("DataFa.st visitor ID from browser cookies - find it in DevTools > Application > Cookies > datafast_visitor_id"),
+          amount: amountSchema.describe("Payment amount in major units (e.g., 29.99 for $29.99; whole numbers for zero-decimal currencies like JPY)"),
+          currency: currencySchema.describe("ISO 4217 currency code (USD, EUR, GBP, JPY, etc.)"),
+          transactionId: transactionIdSchema.describe("Unique transaction ID from your payment system"),
+          email: z.string().optional().describe("Customer email address"),
+          name: z.string().optional().describe("Customer name"),
+          customerId: z.string().optional().describe("Customer ID from your payment provider"),
+          renewal: z.boolean().optional().describe("Is this a recurring/renewal payment?"),
+          refunded: z.boolean().optional().describe("Is this payment refunded?")
+        },
+        outputSchema: createPaymentOutputSchema
       },
       async (params) => {
-        const apiKey = this.props.apiKey;
-        const { visitorId, amount, currency, transactionId, email, name, customerId, renewal, refunded } = params;
-
-        const response = await fetch("https://datafa.st/api/v1/payments", {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            datafast_visitor_id: visitorId,
-            amount,
-            currency,
-            transaction_id: transactionId,
-            email,
-            name,
-            customer_id: customerId,
-            renewal,
-            refunded
-          }),
-        });
+        const { visitorId, amount, currency, transactionId } = params;
 
-        if (!response.ok) {
-          const errorData = (await response.json().catch(() => ({}))) as {
-            error?: { message?: string };
-          };
+        const precisionIssue = checkAmountPrecision(amount, currency);
+        if (precisionIssue) {
+          return this.validationErrorResult("Payment Tracking Failed", [`amount: ${precisionIssue}`]);
+        }
+
+        let submission: PaymentSubmission;
+        try {
+          submission = await (await this.account()).submitPayment(toPaymentPayload(params));
+        } catch (error) {
+          return this.apiErrorResult("Payment Tracking Failed", error);
+        }
+        await this.remember({ visitorId });
+
+        if (submission.status === 'conflict') {
+          return this.paymentConflictResult(submission.entry, submission.differences);
+        }
+
+        if (submission.status === 'replayed') {
           return {
             content: [
               {
                 type: "text",
-                text: `❌ **Payment Tracking Failed**\nError ${response.status}: ${
-                  errorData.error?.message || response.statusText
-                }\n\n**Common issues:**\n- Invalid visitor ID\n- Duplicate transaction ID\n- Invalid currency code\n- Missing required fields`,
+                text: `♻️ **Payment Already Recorded**\n\nTransaction ID: ${submission.result.transaction_id}\nAmount: ${amount} ${currency}\nOriginally recorded: ${submission.recordedAt}\nMessage: ${submission.result.message}\n\nThis was an identical retry, so it was not sent to DataFa.st again.`,
               },
             ],
-            isError: true,
+            structuredContent: {
+              status: 'replayed',
+              transactionId,
+              visitorId,
+              amount,
+              currency,
+              message: submission.result.message,
+              recordedAt: submission.recordedAt,
+            } satisfies ToolOutput<typeof createPaymentOutputSchema>,
           };
         }
 
-        const result = (await response.json()) as {
-          transaction_id: string;
-          message: string;
-        };
-        
+        const { result } = submission;
         return {
           content: [
             {
@@ -350,119 +425,108 @@ export default {
               text: `💰 **Payment Tracked Successfully!**\n\nTransaction ID: ${result.transaction_id}\nAmount: ${amount} ${currency}\nMessage: ${result.message}\n\n📊 This revenue is now attributed to the visitor's traffic source in your DataFa.st dashboard.`,
             },
           ],
+          structuredContent: {
+            status: 'recorded',
+            transactionId,
+            visitorId,
+            amount,
+            currency,
+            message: result.message,
+          } satisfies ToolOutput<typeof createPaymentOutputSchema>,
         };
       }
     );
 
     // Tool 4: Get visitor analytics data
-    this.server.tool(
+    this.server.registerTool(
       "get_visitor_data",
-      "Retrieve detailed analytics data for a specific visitor, including conversion predictions and activity history, using DataFast API",
       {
-        visitorId: z.string().describe("DataFa.st visitor ID - find it in your browser's DevTools > Application > Cookies > datafast_visitor_id")
+        description: "Retrieve detailed analytics data for a specific visitor, including conversion predictions and activity history, using DataFast API",
+        inputSchema: {
+          visitorId: visitorIdSchema.describe("DataFa.st visitor ID - find it in your browser's DevTools > Application > Cookies > datafast_visitor_id"),
+          maxAgeSeconds: z.number().int().min(0).optional().describe(`Serve cached data up to this old (default: ${VISITOR_CACHE_TTL_SECONDS}; 0 always fetches fresh data)`)
+        },
+        outputSchema: getVisitorDataOutputSchema
       },
       async (params) => {
-        const apiKey = this.props.apiKey;
-        const { visitorId } = params;
-
-        const response = await fetch(`https://datafa.st/api/v1/visitors/${visitorId}`, {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            "Content-Type": "application/json",
-          },
-        });
-
-        if (!response.ok) {
-          const errorData = (await response.json().catch(() => ({}))) as {
-            error?: { message?: string };
-          };
-          return {
-            content: [
-              {
-                type: "text",
-                text: `❌ **Visitor Data Retrieval Failed**\nError ${response.status}: ${
-                  errorData.error?.message || response.statusText
-                }\n\n**Common issues:**\n- Invalid visitor ID\n- Visitor not found\n- API key permissions`,
-              },
-            ],
-            isError: true,
-          };
+        const { visitorId, maxAgeSeconds } = params;
+
+        let snapshot: VisitorSnapshot;
+        let cached: boolean;
+        try {
+          ({ snapshot, cached } = await (await this.account()).visitorSnapshot(visitorId, maxAgeSeconds));
+        } catch (error) {
+          return this.apiErrorResult("Visitor Data Retrieval Failed", error);
         }
-
-        const data = await response.json() as {
-          identity: {
-            country: string;
-            region: string;
-            city: string;
-            browser: string;
-            device_type: string;
-            os: string;
-          };
-          activity: {
-            visit_count: number;
-            pageview_count: number;
-            first_visit: string;
-            last_visit: string;
-            current_url: string;
-            pages: string[];
-            goals: Array<{ name: string; timestamp: string; metadata?: Record<string, unknown> }>;
-          };
-          prediction: {
-            conversion_score: number;
-            conversion_rate: number;
-            expected_revenue: number;
-            confidence: number;
-          };
-        };
+        await this.remember({ visitorId });
+        const { data } = snapshot;
         
         let response_text = `👤 **Visitor Analytics Data**\n\n`;
+        const { identity, activity, prediction } = data;
+        const location = [identity.city, identity.region, identity.country].filter(Boolean).join(', ');
+        const percent = (value: number | null) => (value === null ? 'Unknown' : `${(value * 100).toFixed(1)}%`);
         
         // Identity section
         response_text += `**🌍 Identity & Location:**\n`;
-        response_text += `• Location: ${data.identity.city}, ${data.identity.region}, ${data.identity.country}\n`;
-        response_text += `• Browser: ${data.identity.browser}\n`;
-        response_text += `• Device: ${data.identity.device_type}\n`;
-        response_text += `• OS: ${data.identity.os}\n\n`;
+        response_text += `• Location: ${location || 'Unknown'}\n`;
+        response_text += `• Browser: ${identity.browser ?? 'Unknown'}\n`;
+        response_text += `• Device: ${identity.device_type ?? 'Unknown'}\n`;
+        response_text += `• OS: ${identity.os ?? 'Unknown'}\n\n`;
         
         // Activity section
         response_text += `**📊 Activity:**\n`;
-        response_text += `• Visits: ${data.activity.visit_count}\n`;
-        response_text += `• Pageviews: ${data.activity.pageview_count}\n`;
-        response_text += `• First visit: ${data.activity.first_visit}\n`;
-        response_text += `• Last visit: ${data.activity.last_visit}\n`;
-        response_text += `• Current URL: ${data.activity.current_url}\n`;
+        response_text += `• Visits: ${activity.visit_count}\n`;
+        response_text += `• Pageviews: ${activity.pageview_count}\n`;
+        response_text += `• First visit: ${activity.first_visit ?? 'Unknown'}\n`;
+        response_text += `• Last visit: ${activity.last_visit ?? 'Unknown'}\n`;
+        response_text += `• Current URL: ${activity.current_url ?? 'Unknown'}\n`;
         
-        if (data.activity.goals.length > 0) {
-          response_text += `• Completed goals: ${data.activity.goals.map(g => g.name).join(', ')}\n`;
+        if (activity.goals.length > 0) {
+          response_text += `• Completed goals: ${activity.goals.map(g => g.name).join(', ')}\n`;
         }
         
         // Prediction section
         response_text += `\n**🎯 Conversion Prediction:**\n`;
-        response_text += `• Conversion Score: ${data.prediction.conversion_score}/100\n`;
-        response_text += `• Conversion Rate: ${(data.prediction.conversion_rate * 100).toFixed(1)}%\n`;
-        response_text += `• Expected Revenue: $${data.prediction.expected_revenue.toFixed(2)}\n`;
-        response_text += `• Confidence: ${(data.prediction.confidence * 100).toFixed(1)}%\n\n`;
-        
-        // Actionable insights
-        if (data.prediction.conversion_score < 30) {
-          response_text += `💡 **Recommendation:** Low conversion likelihood - consider showing lead magnets or special offers.\n`;
-        } else if (data.prediction.conversion_score > 70) {
-          response_text += `💡 **Recommendation:** High conversion potential - create urgency or showcase premium features.\n`;
+        if (!prediction) {
+          response_text += `• No prediction yet - DataFa.st needs more activity from this visitor before it can score them.\n`;
+        } else {
+          response_text += `• Conversion Score: ${prediction.conversion_score}/100\n`;
+          response_text += `• Conversion Rate: ${percent(prediction.conversion_rate)}\n`;
+          response_text += `• Expected Revenue: ${prediction.expected_revenue === null ? 'Unknown' : `$${prediction.expected_revenue.toFixed(2)}`}\n`;
+          response_text += `• Confidence: ${percent(prediction.confidence)}\n\n`;
+          
+          // Actionable insights
+          if (prediction.conversion_score < COLD_LEAD_SCORE) {
+            response_text += `💡 **Recommendation:** Low conversion likelihood - consider showing lead magnets or special offers.\n`;
+          } else if (prediction.conversion_score > HOT_LEAD_SCORE) {
+            response_text += `💡 **Recommendation:** High conversion potential - create urgency or showcase premium features.\n`;
+          }
+        }
+
+        if (cached) {
+          response_text += `\n🕒 Cached data from ${snapshot.lastSeenAt} (pass maxAgeSeconds: 0 to fetch live data).\n`;
         }
         
         return {
-          content: [{ type: "text", text: response_text }]
+          content: [{ type: "text", text: response_text }],
+          structuredContent: {
+            visitorId,
+            ...data,
+            snapshot: { snapshotId: snapshot.snapshotId, capturedAt: snapshot.capturedAt, fetchedAt: snapshot.lastSeenAt, cached },
+          } satisfies ToolOutput<typeof getVisitorDataOutputSchema>
         };
       }
     );
 
     // Tool 5: Help and guidance
-    this.server.tool(
+    this.server.registerTool(
       "datafast_help",
-      "Get help and guidance on using DataFa.st MCP tools. Shows available tools, common workflows, and next steps.",
       {
-        topic: z.enum(['overview', 'setup', 'tracking', 'analytics', 'troubleshooting', 'all']).optional().describe("Specific help topic (default: 'all')")
+        description: "Get help and guidance on using DataFa.st MCP tools. Shows available tools, common workflows, and next steps.",
+        inputSchema: {
+          topic: z.enum(['overview', 'setup', 'tracking', 'analytics', 'troubleshooting', 'all']).optional().describe("Specific help topic (default: 'all')")
+        },
+        outputSchema: helpOutputSchema
       },
       async (params) => {
         const { topic = 'all' } = params;
@@ -530,12 +594,10 @@ export default {
         
         if (topic === 'all') {
           response += `## 🛠️ Available Tools\n\n`;
-          response += `- **\`install_tracking_script\`** - Create framework-specific code\n`;
-          response += `- **\`validate_installation\`** - Test your setup\n`;
-          response += `- **\`create_goal\`** - Track conversions\n`;
-          response += `- **\`create_payment\`** - Revenue attribution\n`;
-          response += `- **\`get_visitor_data\`** - Analytics insights\n`;
-          response += `- **\`datafast_help\`** - This help system\n\n`;
+          for (const tool of HELP_TOOLS) {
+            response += `- **\`${tool.name}\`** - ${tool.description}\n`;
+          }
+          response += `\n`;
           
           response += `## 📚 Resources\n\n`;
           response += `Access setup guides:\n`;
@@ -543,6 +605,9 @@ export default {
           response += `- \`setup://datafast/nextjs\` - Next.js guide\n`;
           response += `- \`setup://datafast/react\` - React guide\n`;
           response += `- And guides for Vue, Angular, Laravel, Django, etc.\n\n`;
+
+          response += `## 🧭 Prompts\n\n`;
+          response += `Guided workflows: \`onboard_project\`, \`diagnose_missing_data\`, \`setup_revenue_attribution\` and \`analyze_visitor\`.\n\n`;
           
           response += `## 🤔 What would you like to do?\n\n`;
           response += `**New to DataFa.st?** Start with \`install_tracking_script\`\n`;
@@ -553,114 +618,1168 @@ export default {
           
           response += `💡 **Tip:** All tools include detailed guidance and error messages to help you succeed!`;
         }
-        
+        
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { topic, tools: HELP_TOOLS } satisfies ToolOutput<typeof helpOutputSchema>
+        };
+      }
+    );
+
+    // Tool 6: Validate installation
+    this.server.registerTool(
+      "validate_installation",
+      {
+        description: "Validate that DataFa.st tracking is properly installed and working on your website. Fetches the site, checks the script tag attributes, script loading and the events proxy route.",
+        inputSchema: {
+          domain: z.string().optional().describe("Your website domain to test (e.g., 'example.com'; defaults to the active site profile)"),
+          websiteId: z.string().optional().describe("Your DataFa.st website ID (defaults to the active site profile)"),
+          useProxy: z.boolean().optional().describe("Whether you're using proxy setup (defaults to the active site profile)"),
+          url: z.string().url().optional().describe("Page to check (defaults to https://{domain}/; use e.g. http://localhost:3000 to test a local server)")
+        },
+        outputSchema: validateInstallationOutputSchema
+      },
+      async (params) => {
+        const site = resolveSiteDefaults(params, await this.activeProfile());
+        if (site.status === 'invalid') {
+          return this.validationErrorResult("Installation Validation Failed", site.issues);
+        }
+        const { websiteId, domain, profile } = site;
+        const { useProxy = profile?.useProxy ?? false, url } = params;
+        await this.remember({ websiteId, domain });
+        
+        const report = await checkInstallation({ domain, websiteId, useProxy, url });
+        const failed = new Set(report.checks.filter((check) => !check.passed).map((check) => check.id));
+        const proxied = report.usesProxy ?? useProxy;
+        
+        let response = `🔍 **DataFa.st Installation Validation for ${domain}**\n\n`;
+        
+        // Live check results
+        response += `**Live Checks** (${report.pageUrl}):\n\n`;
+        for (const check of report.checks) {
+          response += `${check.passed ? '✅' : '❌'} **${check.label}**\n• ${check.evidence}\n\n`;
+        }
+        const passedCount = report.checks.length - failed.size;
+        response += `**Result:** ${passedCount}/${report.checks.length} checks passed${failed.size === 0 ? ' 🎉' : ''}\n\n`;
+        
+        if (failed.size > 0) {
+          response += `**How to Fix:**\n\n`;
+        }
+        
+        if (failed.has('page') || failed.has('script_tag') || failed.has('website_id') || failed.has('domain')) {
+          response += `🔧 **Script Integration**\n`;
+          response += `• Ensure the tracking script is in your website's <head> section\n`;
+          response += `• Script should include: data-website-id="${websiteId}"\n`;
+          response += `• Script should include: data-domain="${domain}"\n\n`;
+        }
+        
+        if (failed.has('script_src') || failed.has('events_proxy')) {
+          if (useProxy || proxied) {
+            response += `🔧 **Proxy Configuration**\n`;
+            response += `• Verify proxy routes are configured: /js/script.js → https://datafa.st/js/script.js\n`;
+            response += `• Verify events route: /api/events → https://datafa.st/api/events\n`;
+            response += `• Test proxy by visiting: https://${domain}/js/script.js\n\n`;
+          } else {
+            response += `🔧 **Direct Script Loading**\n`;
+            response += `• Script src should be: https://datafa.st/js/script.js\n`;
+            response += `• Note: Direct loading may be blocked by ad blockers\n\n`;
+          }
+        }
+        
+        if (failed.size > 0) {
+          response += `🔧 **Manual Testing Steps**\n`;
+          response += `• Open your website in browser\n`;
+          response += `• Open DevTools → Network tab\n`;
+          response += `• Look for successful requests to ${proxied ? `${domain}/js/script.js` : 'datafa.st/js/script.js'}\n`;
+          response += `• Navigate between pages to generate pageview events\n`;
+          response += `• Check for POST requests to ${proxied ? `${domain}/api/events` : 'datafa.st/api/events'}\n\n`;
+          
+          response += `🚨 **Troubleshooting Common Issues:**\n`;
+          response += `• **No script loading:** Check script placement and syntax\n`;
+          response += `• **Script blocked:** Enable proxy setup to bypass ad blockers\n`;
+          response += `• **Wrong website ID:** Double-check ID from dashboard\n`;
+          response += `• **CORS errors:** Ensure domain matches dashboard settings\n`;
+          response += `• **No events:** Check browser console for JavaScript errors\n\n`;
+        } else {
+          response += `✅ **Dashboard Verification**\n`;
+          response += `• Visit https://datafa.st/dashboard\n`;
+          response += `• Check for recent pageviews in real-time\n`;
+          response += `• Verify visitor count increases\n\n`;
+          
+          response += `✅ **Get Your Visitor ID for Testing**\n`;
+          response += `• Open DevTools → Application tab → Cookies\n`;
+          response += `• Look for cookie named: \`datafast_visitor_id\`\n`;
+          response += `• Copy the visitor ID value (domain-scoped to your site)\n`;
+          response += `• Use this ID with \`get_visitor_data\` to test analytics retrieval\n`;
+          response += `• Example: \`get_visitor_data(visitorId: "abc-123-def-456")\`\n\n`;
+          
+          response += `📊 **Next Steps:**\n`;
+          response += `• Use \`create_goal\` to track conversions\n`;
+          response += `• Use \`create_payment\` for revenue attribution\n`;
+          response += `• Use \`get_visitor_data\` to analyze visitor behavior\n\n`;
+        }
+        
+        response += `💡 **Pro Tip:** Wait 5-10 minutes after installation before checking dashboard data.`;
+        
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { ...report, passed: failed.size === 0 } satisfies ToolOutput<typeof validateInstallationOutputSchema>
+        };
+      }
+    );
+
+    // Tool 7: Bulk goal creation
+    this.server.registerTool(
+      "create_goals_bulk",
+      {
+        description: "Create many conversion goals at once (e.g. backfilling conversions). Accepts an array of goals, a CSV or a JSONL blob, sends them with bounded concurrency and reports success or failure per row.",
+        inputSchema: {
+          goals: z.array(z.object({
+            visitorId: z.string().describe("DataFa.st visitor ID"),
+            name: z.string().describe("Goal name (lowercase, max 32 chars)"),
+            metadata: z.record(z.string()).optional().describe("Optional custom properties (max 10)")
+          })).optional().describe("Goals to create, same fields as create_goal"),
+          csv: z.string().optional().describe("CSV with a header row: visitorId (or visitor_id/datafast_visitor_id), name (or goal), optional metadata JSON column and/or metadata.<key> columns"),
+          jsonl: z.string().optional().describe("One JSON object per line with visitorId, name and optional metadata"),
+          concurrency: z.number().int().min(1).max(10).optional().describe("Maximum requests in flight (default: 5)")
+        },
+        outputSchema: createGoalsBulkOutputSchema
+      },
+      async (params, extra) => {
+        const { goals, csv, jsonl, concurrency = 5 } = params;
+        const title = "Bulk Goal Creation Failed";
+
+        const sources = [goals?.length, csv, jsonl].filter(Boolean).length;
+        if (sources !== 1) {
+          return this.validationErrorResult(title, ["Provide exactly one of goals, csv or jsonl"]);
+        }
+
+        let rows: BulkGoalRow[];
+        try {
+          rows = parseBulkGoals({ goals, csv, jsonl });
+        } catch (error) {
+          return this.validationErrorResult(title, [error instanceof Error ? error.message : String(error)]);
+        }
+        if (rows.length === 0) {
+          return this.validationErrorResult(title, ["No goal rows found in the input"]);
+        }
+        if (rows.length > BULK_GOALS_MAX_ROWS) {
+          return this.validationErrorResult(title, [`At most ${BULK_GOALS_MAX_ROWS} goals per call (got ${rows.length}); split the input into batches`]);
+        }
+
+        const account = await this.account();
+        let authFailed = false;
+        const outcomes = await mapWithConcurrency(
+          rows,
+          concurrency,
+          async ({ row, input, issues }): Promise<BulkGoalOutcome> => {
+            if (!input) {
+              return { row, status: 'failed', error: `invalid input: ${issues?.join('; ')}` };
+            }
+            const base = { row, visitorId: input.visitorId, name: input.name };
+            if (authFailed || extra.signal.aborted) {
+              return { ...base, status: 'skipped', error: authFailed ? 'skipped after an authentication failure' : 'skipped, request cancelled' };
+            }
+            try {
+              const result = await account.createGoal(toGoalPayload(input));
+              return { ...base, status: 'created', eventId: result.event_id };
+            } catch (error) {
+              if (error instanceof DataFastApiError && error.kind === 'auth') {
+                authFailed = true;
+              }
+              return { ...base, status: 'failed', error: summarizeApiError(error) };
+            }
+          },
+          this.progressReporter(extra, "goals processed")
+        );
+
+        const created = outcomes.filter((outcome) => outcome.status === 'created').length;
+        const failed = outcomes.filter((outcome) => outcome.status === 'failed').length;
+        const skipped = outcomes.length - created - failed;
+
+        let response = `📦 **Bulk Goal Creation**\n\n`;
+        response += `Created: ${created} • Failed: ${failed} • Skipped: ${skipped} (of ${outcomes.length} rows)\n\n`;
+        response += `| Row | Visitor | Goal | Result |\n|---|---|---|---|\n`;
+        for (const outcome of outcomes) {
+          const result = outcome.status === 'created' ? `✅ ${outcome.eventId}` : `${outcome.status === 'failed' ? '❌' : '⏭️'} ${outcome.error}`;
+          response += `| ${outcome.row} | ${escapeTableCell(outcome.visitorId ?? '—')} | ${escapeTableCell(outcome.name ?? '—')} | ${escapeTableCell(result)} |\n`;
+        }
+        if (failed > 0) {
+          response += `\n💡 Fix the failed rows and resubmit only those rows; created goals should not be sent again.`;
+        }
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { created, failed, skipped, results: outcomes } satisfies ToolOutput<typeof createGoalsBulkOutputSchema>,
+          isError: created === 0 ? true : undefined
+        };
+      }
+    );
+
+    // Tool 8: Import payments from provider CSV exports
+    this.server.registerTool(
+      "import_payments",
+      {
+        description: "Import historical payments from a Stripe, Lemon Squeezy, Paddle or custom CSV export into DataFa.st. Maps provider columns onto create_payment fields, previews the mapping first, skips rows without a visitor ID and reports per-row outcomes.",
+        inputSchema: {
+          csv: z.string().describe("CSV export with a header row"),
+          provider: z.enum(PAYMENT_PROVIDERS).optional().describe("Export format (auto-detected from the header if omitted)"),
+          mapping: importMappingSchema.optional().describe("Override which CSV column feeds each field, e.g. { visitorId: 'metadata_visitor' }"),
+          amountUnit: z.enum(['major', 'minor']).optional().describe("'minor' when amounts are in cents/lowest denomination (auto-detected per provider column)"),
+          mode: z.enum(['preview', 'import']).optional().describe("'preview' (default) shows the mapping and parsed rows without sending anything; 'import' records the payments"),
+          concurrency: z.number().int().min(1).max(10).optional().describe("Maximum requests in flight when importing (default: 5)")
+        },
+        outputSchema: importPaymentsOutputSchema
+      },
+      async (params, extra) => {
+        const { csv, provider, mapping, amountUnit, mode = 'preview', concurrency = 5 } = params;
+        const title = "Payment Import Failed";
+
+        let plan: PaymentImportPlan;
+        try {
+          plan = planPaymentImport({ csv, provider, mapping, amountUnit });
+        } catch (error) {
+          return this.validationErrorResult(title, [error instanceof Error ? error.message : String(error)]);
+        }
+
+        const ready = plan.rows.filter((row) => row.status === 'ready');
+        const skipped = plan.rows.filter((row) => row.status === 'skipped');
+        const invalid = plan.rows.filter((row) => row.status === 'invalid');
+        const structured: ToolOutput<typeof importPaymentsOutputSchema> = {
+          mode,
+          provider: plan.provider,
+          mapping: plan.mapping,
+          amountUnit: plan.amountUnit,
+          rows: plan.rows.map((row) => ({
+            row: row.row,
+            status: row.status,
+            visitorId: row.visitorId,
+            transactionId: row.transactionId,
+            amount: row.input?.amount,
+            currency: row.input?.currency,
+            detail: row.reason,
+          })),
+        };
+
+        let response = `💳 **Payment Import ${mode === 'preview' ? 'Preview' : 'Report'}: ${plan.providerName} export**\n\n`;
+        response += `**Column mapping** (amounts in ${plan.amountUnit === 'minor' ? 'minor units, e.g. cents' : 'major units'}):\n`;
+        for (const field of IMPORT_FIELDS) {
+          response += `• ${field} ← ${plan.mapping[field] ? `"${plan.mapping[field]}"` : '_not mapped_'}\n`;
+        }
+        response += `\nRows: ${plan.rows.length} • Ready: ${ready.length} • Skipped: ${skipped.length} • Invalid: ${invalid.length}\n\n`;
+
+        if (mode === 'preview') {
+          if (!plan.mapping.visitorId || !plan.mapping.amount || !plan.mapping.currency || !plan.mapping.transactionId) {
+            response += `⚠️ Map the missing required columns with \`mapping\` (visitorId, amount, currency and transactionId are required).\n\n`;
+          }
+          response += `| Row | Visitor | Transaction | Amount | Status |\n|---|---|---|---|---|\n`;
+          for (const row of plan.rows.slice(0, PAYMENT_IMPORT_PREVIEW_ROWS)) {
+            const amount = row.input ? `${row.input.amount} ${row.input.currency}${row.input.refunded ? ' (refunded)' : ''}` : '—';
+            const status = row.status === 'ready' ? '✅ ready' : `${row.status === 'skipped' ? '⏭️' : '❌'} ${row.reason}`;
+            response += `| ${row.row} | ${escapeTableCell(row.visitorId ?? '—')} | ${escapeTableCell(row.transactionId ?? '—')} | ${amount} | ${escapeTableCell(status)} |\n`;
+          }
+          if (plan.rows.length > PAYMENT_IMPORT_PREVIEW_ROWS) {
+            response += `\n…and ${plan.rows.length - PAYMENT_IMPORT_PREVIEW_ROWS} more rows.\n`;
+          }
+          response += `\n📥 Check the amounts above, then run again with \`mode: "import"\` to record ${ready.length} payments.`;
+          return {
+            content: [{ type: "text", text: response }],
+            structuredContent: structured
+          };
+        }
+
+        if (ready.length > PAYMENT_IMPORT_MAX_ROWS) {
+          return this.validationErrorResult(title, [`At most ${PAYMENT_IMPORT_MAX_ROWS} payments per import (got ${ready.length}); split the CSV into batches`]);
+        }
+
+        const account = await this.account();
+        let authFailed = false;
+        const outcomes = await mapWithConcurrency(
+          ready,
+          concurrency,
+          async (row): Promise<{ row: number; recorded: boolean; detail: string }> => {
+            if (!row.input || authFailed || extra.signal.aborted) {
+              return { row: row.row, recorded: false, detail: authFailed ? 'skipped after an authentication failure' : 'skipped, request cancelled' };
+            }
+            try {
+              const submission = await account.submitPayment(toPaymentPayload(row.input));
+              if (submission.status === 'conflict') {
+                return { row: row.row, recorded: false, detail: `conflicts with the recorded payment (${submission.differences.join(', ')})` };
+              }
+              const detail = `${row.input.amount} ${row.input.currency}${submission.status === 'replayed' ? ' (already recorded, not resent)' : ''}`;
+              return { row: row.row, recorded: true, detail };
+            } catch (error) {
+              if (error instanceof DataFastApiError && error.kind === 'auth') {
+                authFailed = true;
+              }
+              return { row: row.row, recorded: false, detail: summarizeApiError(error) };
+            }
+          },
+          this.progressReporter(extra, "payments processed")
+        );
+
+        const recorded = outcomes.filter((outcome) => outcome.recorded).length;
+        response += `**Recorded: ${recorded}** • Failed: ${outcomes.length - recorded}\n\n`;
+        response += `| Row | Transaction | Result |\n|---|---|---|\n`;
+        const outcomeByRow = new Map(outcomes.map((outcome) => [outcome.row, outcome]));
+        for (const row of plan.rows) {
+          const outcome = outcomeByRow.get(row.row);
+          const result = outcome
+            ? `${outcome.recorded ? '✅' : '❌'} ${outcome.detail}`
+            : `${row.status === 'skipped' ? '⏭️' : '❌'} ${row.reason}`;
+          response += `| ${row.row} | ${escapeTableCell(row.transactionId ?? '—')} | ${escapeTableCell(result)} |\n`;
+        }
+        for (const row of structured.rows) {
+          const outcome = outcomeByRow.get(row.row);
+          if (outcome) {
+            row.status = outcome.recorded ? 'recorded' : 'failed';
+            row.detail = outcome.detail;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { ...structured, recorded },
+          isError: recorded === 0 && ready.length > 0 ? true : undefined
+        };
+      }
+    );
+
+    // Tool 9: List payments recorded through this server
+    this.server.registerTool(
+      "list_recorded_payments",
+      {
+        description: "List payments recently recorded with this API key (from its idempotency ledger, shared by create_payment, import_payments and the payment webhooks) to reconcile revenue against your payment provider.",
+        inputSchema: {
+          visitorId: z.string().optional().describe("Only show payments for this visitor"),
+          limit: z.number().int().min(1).max(100).optional().describe("Number of payments to show, newest first (default: 20)")
+        },
+        outputSchema: listRecordedPaymentsOutputSchema
+      },
+      async (params) => {
+        const { visitorId, limit = 20 } = params;
+        const entries = await (await this.account()).payments(limit, visitorId);
+        const structured: ToolOutput<typeof listRecordedPaymentsOutputSchema> = {
+          payments: entries.map(({ payload, recordedAt }) => ({
+            transactionId: payload.transaction_id,
+            visitorId: payload.datafast_visitor_id,
+            amount: payload.amount,
+            currency: payload.currency,
+            renewal: payload.renewal,
+            refunded: payload.refunded,
+            recordedAt,
+          })),
+        };
+
+        if (entries.length === 0) {
+          return {
+            content: [{ type: "text", text: `📒 No payments have been recorded through this server${visitorId ? ` for visitor ${visitorId}` : ''} yet.` }],
+            structuredContent: structured
+          };
+        }
+
+        let response = `📒 **Recorded Payments** (${entries.length} most recent${visitorId ? ` for visitor ${visitorId}` : ''})\n\n`;
+        response += `| Recorded | Transaction | Visitor | Amount | Flags |\n|---|---|---|---|---|\n`;
+        for (const { payload, recordedAt } of entries) {
+          const flags = [payload.renewal ? 'renewal' : '', payload.refunded ? 'refunded' : ''].filter(Boolean).join(', ') || '—';
+          response += `| ${recordedAt} | ${escapeTableCell(payload.transaction_id)} | ${escapeTableCell(payload.datafast_visitor_id)} | ${payload.amount} ${payload.currency} | ${flags} |\n`;
+        }
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: structured
+        };
+      }
+    );
+
+    // Tool 10: Save a website as a named profile
+    this.server.registerTool(
+      "add_site_profile",
+      {
+        description: "Save a DataFa.st website (website ID, domain, optional API key, framework and proxy preference) as a named profile, kept with the API key of this connection. The active profile supplies defaults to the other tools; adding a profile with an existing name updates it.",
+        inputSchema: {
+          name: siteProfileNameSchema.describe("Profile name, e.g. 'marketing-site'"),
+          websiteId: websiteIdSchema.describe("Website ID from https://datafa.st/dashboard"),
+          domain: domainSchema.describe("Website domain (e.g., 'example.com'; a URL such as 'https://www.example.com/' is reduced to its domain)"),
+          apiKey: z.string().trim().min(1).optional().describe("DataFa.st API key of this website (defaults to the key this connection was opened with)"),
+          framework: z.enum(FRAMEWORK_TYPES).optional().describe("Framework used by the website"),
+          useProxy: z.boolean().optional().describe("Whether the website proxies the tracking script"),
+          activate: z.boolean().optional().describe("Make this the active profile (default: true for the first profile, otherwise false)")
+        },
+        outputSchema: addSiteProfileOutputSchema
+      },
+      async (params) => {
+        const { name, websiteId, domain, apiKey, framework, useProxy, activate = false } = params;
+        const title = "Site Profile Not Saved";
+
+        if (apiKey && !isSandboxMode(this.env)) {
+          let accepted: boolean;
+          try {
+            accepted = await verifyApiKey(this.env, apiKey);
+          } catch (error) {
+            return this.apiErrorResult(title, error);
+          }
+          if (!accepted) {
+            return this.validationErrorResult(title, ["apiKey: DataFa.st rejected this API key"]);
+          }
+        }
+
+        const account = await this.connectionAccount();
+        const existing = findProfile(await account.siteProfiles(), name);
+        const profile: SiteProfile = { name, apiKey, websiteId, domain, framework, useProxy };
+        const summary = summarizeProfile(profile, await account.saveSiteProfile(profile, activate));
+
+        let response = `🗂️ **Site Profile ${existing ? 'Updated' : 'Added'}: ${name}**\n\n`;
+        response += `• Website ID: ${websiteId}\n• Domain: ${domain}\n`;
+        response += `• API key: ${summary.apiKey ?? "this connection's key"}\n`;
+        if (framework) {
+          response += `• Framework: ${FRAMEWORKS[framework].name}\n`;
+        }
+        if (useProxy !== undefined) {
+          response += `• Proxy: ${useProxy ? 'yes' : 'no'}\n`;
+        }
+        response += summary.active
+          ? `\n✅ This is the active profile, so other tools default to it.`
+          : `\nUse \`switch_site_profile\` with name "${name}" to make it the active profile.`;
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { status: existing ? 'updated' : 'added', profile: summary } satisfies ToolOutput<typeof addSiteProfileOutputSchema>
+        };
+      }
+    );
+
+    // Tool 11: List saved website profiles
+    this.server.registerTool(
+      "list_site_profiles",
+      {
+        description: "List the website profiles saved with the API key of this connection and show which one is active.",
+        inputSchema: {},
+        outputSchema: listSiteProfilesOutputSchema
+      },
+      async () => {
+        const state = await (await this.connectionAccount()).siteProfiles();
+        const structured: ToolOutput<typeof listSiteProfilesOutputSchema> = {
+          activeProfile: activeProfile(state)?.name,
+          profiles: state.profiles.map((profile) => summarizeProfile(profile, state)),
+        };
+
+        if (structured.profiles.length === 0) {
+          return {
+            content: [{ type: "text", text: "🗂️ No site profiles yet. Use `add_site_profile` to save a website's ID, domain and API key." }],
+            structuredContent: structured
+          };
+        }
+
+        let response = `🗂️ **Site Profiles** (${structured.profiles.length})\n\n`;
+        response += `| | Name | Website ID | Domain | Framework | Proxy | API key |\n|---|---|---|---|---|---|---|\n`;
+        for (const profile of structured.profiles) {
+          response += `| ${profile.active ? '✅' : ''} | ${escapeTableCell(profile.name)} | ${escapeTableCell(profile.websiteId)} | ${escapeTableCell(profile.domain)} | ${profile.framework ? FRAMEWORKS[profile.framework].name : '—'} | ${profile.useProxy === undefined ? '—' : profile.useProxy ? 'yes' : 'no'} | ${profile.apiKey ?? 'connection'} |\n`;
+        }
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: structured
+        };
+      }
+    );
+
+    // Tool 12: Switch the active website profile
+    this.server.registerTool(
+      "switch_site_profile",
+      {
+        description: "Make a saved website profile the active one; the other tools then default their website ID, domain, framework, proxy setting and API key to it.",
+        inputSchema: {
+          name: z.string().describe("Name of a profile saved with add_site_profile")
+        },
+        outputSchema: switchSiteProfileOutputSchema
+      },
+      async (params) => {
+        const account = await this.connectionAccount();
+        const state = await account.activateSiteProfile(params.name);
+        const profile = state && activeProfile(state);
+        if (!profile) {
+          const known = (await account.siteProfiles()).profiles.map((candidate) => candidate.name);
+          return this.validationErrorResult("Site Profile Not Switched", [
+            `name: no profile named "${params.name}"${known.length > 0 ? ` (saved profiles: ${known.join(', ')})` : ' (none saved yet)'}`,
+          ]);
+        }
+
+        return {
+          content: [{ type: "text", text: `✅ **Switched to ${profile.name}**\n\nTools now default to website ${profile.websiteId} (${profile.domain}).` }],
+          structuredContent: { profile: summarizeProfile(profile, state) } satisfies ToolOutput<typeof switchSiteProfileOutputSchema>
+        };
+      }
+    );
+
+    // Tool 13: Save a visitor segment
+    this.server.registerTool(
+      "save_visitor_segment",
+      {
+        description: "Save a named list of visitor IDs (e.g. a paid or organic cohort) so compare_visitor_segments can analyze it later by name. Saving an existing name replaces it.",
+        inputSchema: {
+          name: z.string().trim().min(1).max(64).describe("Segment name, e.g. 'paid-search-march'"),
+          visitorIds: z.array(z.string()).min(1).describe(`Visitor IDs in the segment (max ${SEGMENT_MAX_VISITORS})`),
+          description: z.string().optional().describe("What the segment contains")
+        },
+        outputSchema: saveVisitorSegmentOutputSchema
+      },
+      async (params) => {
+        const { name, visitorIds, description } = params;
+        const unique = uniqueIds(visitorIds);
+        if (unique.length === 0) {
+          return this.validationErrorResult("Segment Not Saved", ["visitorIds: no non-empty visitor IDs"]);
+        }
+        if (unique.length > SEGMENT_MAX_VISITORS) {
+          return this.validationErrorResult("Segment Not Saved", [`visitorIds: at most ${SEGMENT_MAX_VISITORS} visitors per segment (got ${unique.length})`]);
+        }
+
+        const segment = await (await this.account()).saveSegment(name, unique, description);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `👥 **Segment "${segment.name}" Saved**\n\n${segment.visitorIds.length} visitors${description ? ` — ${description}` : ''}\n\nUse \`compare_visitor_segments\` with { name: "${segment.name}" } to analyze it.`,
+            },
+          ],
+          structuredContent: {
+            name: segment.name,
+            description: segment.description,
+            visitors: segment.visitorIds.length,
+            savedAt: segment.savedAt,
+          } satisfies ToolOutput<typeof saveVisitorSegmentOutputSchema>
+        };
+      }
+    );
+
+    // Tool 14: Compare visitor cohorts
+    this.server.registerTool(
+      "compare_visitor_segments",
+      {
+        description: "Summarize one or more visitor cohorts side by side (e.g. paid vs organic): fetches every visitor with bounded concurrency and aggregates country, device, OS, browser, goal completion, activity and conversion predictions into averages, distributions and top converters.",
+        inputSchema: {
+          segments: z.array(z.object({
+            name: z.string().trim().min(1).describe("Segment name; loads the saved segment when visitorIds is omitted"),
+            visitorIds: z.array(z.string()).optional().describe("Visitor IDs of an ad-hoc cohort")
+          })).min(1).max(5).describe("Cohorts to summarize and compare (1-5)"),
+          topConverters: z.number().int().min(0).max(20).optional().describe(`Top converters to list per segment, by conversion score (default: ${SEGMENT_TOP_CONVERTERS})`),
+          concurrency: z.number().int().min(1).max(10).optional().describe("Maximum requests in flight (default: 5)")
+        },
+        outputSchema: compareVisitorSegmentsOutputSchema
+      },
+      async (params, extra) => {
+        const { segments, topConverters = SEGMENT_TOP_CONVERTERS, concurrency = 5 } = params;
+        const title = "Segment Comparison Failed";
+
+        const account = await this.account();
+        const issues: string[] = [];
+        const cohorts = await Promise.all(segments.map(async ({ name, visitorIds }) => {
+          const ids = visitorIds ? uniqueIds(visitorIds) : (await account.segment(name))?.visitorIds;
+          if (!ids) {
+            const saved = await account.segmentNames();
+            issues.push(`${name}: no saved segment with this name${saved.length > 0 ? ` (saved segments: ${saved.join(', ')})` : ''}; pass visitorIds or save it with save_visitor_segment`);
+          } else if (ids.length === 0) {
+            issues.push(`${name}: no visitor IDs`);
+          } else if (ids.length > SEGMENT_MAX_VISITORS) {
+            issues.push(`${name}: at most ${SEGMENT_MAX_VISITORS} visitors per segment (got ${ids.length})`);
+          }
+          return { name, visitorIds: ids ?? [] };
+        }));
+        if (issues.length > 0) {
+          return this.validationErrorResult(title, issues);
+        }
+
+        // Visitors shared between cohorts are fetched once
+        const visitorIds = uniqueIds(cohorts.flatMap((cohort) => cohort.visitorIds));
+        let authError: unknown;
+        const fetched = await mapWithConcurrency(
+          visitorIds,
+          concurrency,
+          async (visitorId): Promise<SegmentVisitor> => {
+            if (authError !== undefined || extra.signal.aborted) {
+              return { visitorId, status: 'failed', error: authError !== undefined ? 'skipped after an authentication failure' : 'skipped, request cancelled' };
+            }
+            try {
+              const { snapshot } = await account.visitorSnapshot(visitorId);
+              return { visitorId, status: 'fetched', data: snapshot.data };
+            } catch (error) {
+              if (error instanceof DataFastApiError && error.kind === 'auth') {
+                authError = error;
+              }
+              return { visitorId, status: 'failed', error: summarizeApiError(error) };
+            }
+          },
+          this.progressReporter(extra, "visitors fetched")
+        );
+        if (authError !== undefined) {
+          return this.apiErrorResult(title, authError);
+        }
+
+        const byId = new Map(fetched.map((visitor) => [visitor.visitorId, visitor]));
+        const summaries = cohorts.map((cohort) =>
+          summarizeSegment(cohort.name, cohort.visitorIds.flatMap((visitorId) => byId.get(visitorId) ?? []), topConverters)
+        );
+
+        return {
+          content: [{ type: "text", text: formatSegmentComparison(summaries) }],
+          structuredContent: { segments: summaries } satisfies ToolOutput<typeof compareVisitorSegmentsOutputSchema>,
+          isError: summaries.every((summary) => summary.fetched === 0) ? true : undefined
+        };
+      }
+    );
+
+    // Tool 15: Visitor snapshot history
+    this.server.registerTool(
+      "get_visitor_history",
+      {
+        description: "List the stored snapshots of a visitor, newest first. A snapshot is taken whenever get_visitor_data, diff_visitor_snapshots or compare_visitor_segments fetches data that changed since the previous one.",
+        inputSchema: {
+          visitorId: visitorIdSchema.describe("DataFa.st visitor ID"),
+          limit: z.number().int().min(1).max(VISITOR_SNAPSHOTS_MAX).optional().describe("Number of snapshots to show (default: 10)")
+        },
+        outputSchema: getVisitorHistoryOutputSchema
+      },
+      async (params) => {
+        const { visitorId, limit = 10 } = params;
+        const snapshots = await (await this.account()).snapshotHistory(visitorId, limit);
+        const structured: ToolOutput<typeof getVisitorHistoryOutputSchema> = {
+          visitorId,
+          snapshots: snapshots.map(({ snapshotId, capturedAt, lastSeenAt, data }) => ({
+            snapshotId,
+            capturedAt,
+            lastSeenAt,
+            visits: data.activity.visit_count,
+            pageviews: data.activity.pageview_count,
+            goals: data.activity.goals.length,
+            conversionScore: data.prediction?.conversion_score ?? null,
+          })),
+        };
+
+        if (snapshots.length === 0) {
+          return {
+            content: [{ type: "text", text: `🕒 No snapshots of visitor ${visitorId} yet. Use \`get_visitor_data\` to take the first one.` }],
+            structuredContent: structured
+          };
+        }
+
+        let response = `🕒 **Snapshot History for ${visitorId}** (${snapshots.length} most recent)\n\n`;
+        response += `| Snapshot | Captured | Last seen | Visits | Pageviews | Goals | Score |\n|---|---|---|---|---|---|---|\n`;
+        for (const snapshot of structured.snapshots) {
+          response += `| ${snapshot.snapshotId} | ${snapshot.capturedAt} | ${snapshot.lastSeenAt} | ${snapshot.visits} | ${snapshot.pageviews} | ${snapshot.goals} | ${snapshot.conversionScore ?? '—'} |\n`;
+        }
+        response += `\nUse \`diff_visitor_snapshots\` to see what changed between two snapshots.`;
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: structured
+        };
+      }
+    );
+
+    // Tool 16: Diff two snapshots of a visitor
+    this.server.registerTool(
+      "diff_visitor_snapshots",
+      {
+        description: "Show what a visitor did between two snapshots: new pages, new goals, visit and pageview growth and conversion score movement. By default compares fresh data with the previous snapshot; pass 'since' (e.g. '24h') to answer \"what did this lead do since yesterday?\".",
+        inputSchema: {
+          visitorId: visitorIdSchema.describe("DataFa.st visitor ID"),
+          since: z.string().optional().describe("Compare against the visitor's state at this time: ISO 8601 timestamp or relative duration like '30m', '24h', '7d'"),
+          fromSnapshotId: z.number().int().optional().describe("Older snapshot to compare (see get_visitor_history); overrides 'since'"),
+          toSnapshotId: z.number().int().optional().describe("Newer snapshot to compare (default: the visitor's current data)"),
+          refresh: z.boolean().optional().describe(`Fetch current data first when the latest snapshot is older than ${VISITOR_CACHE_TTL_SECONDS}s (default: true)`)
+        },
+        outputSchema: diffVisitorSnapshotsOutputSchema
+      },
+      async (params) => {
+        const { visitorId, since, fromSnapshotId, toSnapshotId, refresh = true } = params;
+        const title = "Visitor Diff Failed";
+
+        const sinceTime = since === undefined ? undefined : parseSince(since);
+        if (since !== undefined && sinceTime === undefined) {
+          return this.validationErrorResult(title, [`since: "${since}" is not an ISO 8601 timestamp or a duration like '24h'`]);
+        }
+
+        const account = await this.account();
+        let to: VisitorSnapshot | undefined;
+        if (toSnapshotId !== undefined) {
+          to = await account.snapshot(visitorId, toSnapshotId);
+        } else if (refresh) {
+          try {
+            to = (await account.visitorSnapshot(visitorId)).snapshot;
+          } catch (error) {
+            return this.apiErrorResult(title, error);
+          }
+        } else {
+          to = await account.latestSnapshot(visitorId);
+        }
+        if (!to) {
+          return this.validationErrorResult(title, [
+            toSnapshotId !== undefined ? `toSnapshotId: no snapshot ${toSnapshotId} for visitor ${visitorId}` : `no snapshots of visitor ${visitorId} yet`,
+          ]);
+        }
+
+        const from =
+          fromSnapshotId !== undefined
+            ? await account.snapshot(visitorId, fromSnapshotId)
+            : sinceTime !== undefined
+              ? await account.snapshotAt(visitorId, sinceTime)
+              : await account.snapshotBefore(visitorId, to.snapshotId);
+        if (!from) {
+          const [oldest] = (await account.snapshotHistory(visitorId, VISITOR_SNAPSHOTS_MAX)).slice(-1);
+          return this.validationErrorResult(title, [
+            fromSnapshotId !== undefined
+              ? `fromSnapshotId: no snapshot ${fromSnapshotId} for visitor ${visitorId}`
+              : `no earlier snapshot of visitor ${visitorId} to compare with${oldest ? ` (history starts at ${oldest.capturedAt})` : ''}`,
+          ]);
+        }
+        if (from.snapshotId > to.snapshotId) {
+          return this.validationErrorResult(title, [`fromSnapshotId: snapshot ${from.snapshotId} is newer than snapshot ${to.snapshotId}`]);
+        }
+
+        const diff = diffSnapshots(from, to);
+        return {
+          content: [{ type: "text", text: formatVisitorDiff(diff) }],
+          structuredContent: diff satisfies ToolOutput<typeof diffVisitorSnapshotsOutputSchema>
+        };
+      }
+    );
+
+    // Tool 17: Watch a visitor for conversion signals
+    this.server.registerTool(
+      "watch_visitor",
+      {
+        description: `Add a visitor to the watchlist. The server polls watched visitors on a schedule and notifies the configured webhook and connected clients when the conversion score rises above scoreAbove (default ${HOT_LEAD_SCORE}), falls below scoreBelow, or a watched goal is completed. Watching an already watched visitor replaces its thresholds.`,
+        inputSchema: {
+          visitorId: visitorIdSchema.describe("DataFa.st visitor ID"),
+          label: z.string().max(100).optional().describe("Name to show in notifications, e.g. the lead's company"),
+          scoreAbove: z.number().min(0).max(100).optional().describe(`Alert when conversion_score rises above this (default: ${HOT_LEAD_SCORE} when no other condition is given)`),
+          scoreBelow: z.number().min(0).max(100).optional().describe(`Alert when conversion_score falls below this (e.g. ${COLD_LEAD_SCORE})`),
+          goal: goalNameSchema.optional().describe("Alert when the visitor completes this goal")
+        },
+        outputSchema: watchVisitorOutputSchema
+      },
+      async (params) => {
+        const { visitorId, label, scoreBelow, goal } = params;
+        const title = "Visitor Not Watched";
+        const scoreAbove = params.scoreAbove ?? (scoreBelow === undefined && goal === undefined ? HOT_LEAD_SCORE : undefined);
+
+        const account = await this.watchlistAccount();
+        const watched = await account.watchlistEntries();
+        if (!watched.some((entry) => entry.visitorId === visitorId) && watched.length >= WATCHLIST_MAX_VISITORS) {
+          return this.validationErrorResult(title, [`At most ${WATCHLIST_MAX_VISITORS} visitors can be watched; remove some with unwatch_visitor`]);
+        }
+
+        // The current state is the baseline, so only changes from now on trigger alerts
+        let entry: WatchEntry;
+        let settings: WatchlistSettings;
+        try {
+          ({ entry, settings } = await account.watch({ visitorId, label, scoreAbove, scoreBelow, goal }));
+        } catch (error) {
+          return this.apiErrorResult(title, error);
+        }
+
+        await this.remember({ visitorId });
+        const { intervalSeconds, webhookUrl } = settings;
+
+        const conditions = describeWatchConditions(entry);
+        let response = `👀 **Watching ${label ? `${label} (${visitorId})` : visitorId}**\n\n`;
+        response += `Alerts when: ${conditions}\n`;
+        response += `Current conversion score: ${entry.lastScore === null ? 'not scored yet' : `${entry.lastScore}/100`}\n`;
+        response += `Checked every ${formatInterval(intervalSeconds)}\n\n`;
+        response += webhookUrl
+          ? `Notifications go to the configured webhook and to connected MCP clients.`
+          : `Notifications go to connected MCP clients only. Use \`configure_watchlist\` to add a webhook (e.g. a Slack incoming webhook).`;
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: { entry, intervalSeconds, webhookConfigured: Boolean(webhookUrl) } satisfies ToolOutput<typeof watchVisitorOutputSchema>
+        };
+      }
+    );
+
+    // Tool 18: Stop watching a visitor
+    this.server.registerTool(
+      "unwatch_visitor",
+      {
+        description: "Remove a visitor from the watchlist.",
+        inputSchema: {
+          visitorId: visitorIdSchema.describe("DataFa.st visitor ID")
+        },
+        outputSchema: unwatchVisitorOutputSchema
+      },
+      async (params) => {
+        const { visitorId } = params;
+        const removed = await (await this.watchlistAccount()).unwatch(visitorId);
+        return {
+          content: [{ type: "text", text: removed ? `✅ Stopped watching ${visitorId}.` : `ℹ️ ${visitorId} was not on the watchlist.` }],
+          structuredContent: { visitorId, removed } satisfies ToolOutput<typeof unwatchVisitorOutputSchema>
+        };
+      }
+    );
+
+    // Tool 19: Watchlist overview
+    this.server.registerTool(
+      "list_watchlist",
+      {
+        description: "Show watched visitors with their thresholds and last observed score, the notification settings and the most recent alerts.",
+        inputSchema: {
+          alerts: z.number().int().min(0).max(50).optional().describe("Number of recent alerts to include (default: 10)")
+        },
+        outputSchema: listWatchlistOutputSchema
+      },
+      async (params) => {
+        const { alerts: alertLimit = 10 } = params;
+        const { entries, alerts, settings, nextPollAt } = await (await this.watchlistAccount()).watchlistOverview(alertLimit);
+        const { intervalSeconds, webhookUrl } = settings;
+
+        let response = `👀 **Watchlist** (${entries.length} visitors, checked every ${formatInterval(intervalSeconds)})\n\n`;
+        response += `Webhook: ${webhookUrl ? redactUrl(webhookUrl) : 'not configured'}${nextPollAt ? ` • Next check: ${nextPollAt}` : ''}\n\n`;
+        if (entries.length === 0) {
+          response += `No visitors watched yet. Use \`watch_visitor\` to add hot leads.\n`;
+        } else {
+          response += `| Visitor | Alerts when | Last score | Last checked |\n|---|---|---|---|\n`;
+          for (const entry of entries) {
+            const name = entry.label ? `${entry.label} (${entry.visitorId})` : entry.visitorId;
+            const checked = entry.lastError ? `${entry.lastCheckedAt} ⚠️ ${entry.lastError}` : entry.lastCheckedAt ?? 'not yet';
+            response += `| ${escapeTableCell(name)} | ${escapeTableCell(describeWatchConditions(entry))} | ${entry.lastScore ?? '—'} | ${escapeTableCell(checked)} |\n`;
+          }
+        }
+        if (alerts.length > 0) {
+          response += `\n**Recent alerts:**\n`;
+          response += alerts.map((alert) => `• ${alert.triggeredAt} ${alert.message}${alert.webhook === 'failed' ? ` (webhook failed: ${alert.webhookError})` : ''}\n`).join('');
+        }
+
+        return {
+          content: [{ type: "text", text: response }],
+          structuredContent: {
+            intervalSeconds,
+            webhookUrl: webhookUrl ? redactUrl(webhookUrl) : undefined,
+            nextPollAt,
+            entries,
+            alerts,
+          } satisfies ToolOutput<typeof listWatchlistOutputSchema>
+        };
+      }
+    );
+
+    // Tool 20: Watchlist notification settings
+    this.server.registerTool(
+      "configure_watchlist",
+      {
+        description: "Set the webhook that receives watchlist alerts (JSON POST with a Slack-compatible 'text' field) and how often watched visitors are checked.",
+        inputSchema: {
+          webhookUrl: z.string().optional().describe("HTTPS URL to POST alerts to; an empty string removes it"),
+          intervalSeconds: z.number().int().min(WATCHLIST_MIN_INTERVAL_SECONDS).max(86400).optional().describe(`Seconds between checks (default: ${WATCHLIST_DEFAULT_INTERVAL_SECONDS})`)
+        },
+        outputSchema: configureWatchlistOutputSchema
+      },
+      async (params) => {
+        const account = await this.watchlistAccount();
+        const current = await account.watchlistSettings();
+        let webhookUrl = current.webhookUrl;
+        if (params.webhookUrl !== undefined) {
+          webhookUrl = params.webhookUrl.trim() || undefined;
+          if (webhookUrl && !URL.canParse(webhookUrl)) {
+            return this.validationErrorResult("Watchlist Not Configured", ["webhookUrl: not a valid URL"]);
+          }
+          if (webhookUrl && new URL(webhookUrl).protocol !== 'https:') {
+            return this.validationErrorResult("Watchlist Not Configured", ["webhookUrl: must use https"]);
+          }
+        }
+        const intervalSeconds = params.intervalSeconds ?? current.intervalSeconds;
+
+        await account.configureWatchlist({ webhookUrl, intervalSeconds });
+
         return {
-          content: [{ type: "text", text: response }]
+          content: [
+            {
+              type: "text",
+              text: `⚙️ **Watchlist Settings Saved**\n\nWebhook: ${webhookUrl ? redactUrl(webhookUrl) : 'not configured'}\nChecked every ${formatInterval(intervalSeconds)}`,
+            },
+          ],
+          structuredContent: {
+            webhookUrl: webhookUrl ? redactUrl(webhookUrl) : undefined,
+            intervalSeconds,
+          } satisfies ToolOutput<typeof configureWatchlistOutputSchema>
         };
       }
     );
 
-    // Tool 6: Validate installation
-    this.server.tool(
-      "validate_installation",
-      "Validate that DataFa.st tracking is properly installed and working on your website. Checks script loading and event tracking.",
+    // Tool 21: Backend handlers for goals and payments
+    this.server.registerTool(
+      "generate_server_endpoints",
       {
-        domain: z.string().describe("Your website domain to test (e.g., 'example.com')"),
-        websiteId: z.string().describe("Your DataFa.st website ID"),
-        useProxy: z.boolean().optional().describe("Whether you're using proxy setup")
+        description: "Generate ready-to-paste backend handlers for the /api/datafast-goal and /api/datafast-payment routes the setup guides call. They read the datafast_visitor_id cookie, validate the request and call the DataFa.st API with the key from DATAFAST_API_KEY.",
+        inputSchema: {
+          framework: z.enum(FRAMEWORK_TYPES).optional().describe("Framework to generate handlers for (defaults to the active site profile). Client-only frameworks (react, vue, angular, vanilla) get an Express server"),
+          endpoints: z.array(z.enum(ENDPOINT_KINDS)).min(1).optional().describe("Which handlers to generate (default: both goal and payment)")
+        },
+        outputSchema: generateServerEndpointsOutputSchema
       },
       async (params) => {
-        const { domain, websiteId, useProxy = false } = params;
-        
-        let response = `🔍 **DataFa.st Installation Validation for ${domain}**\n\n`;
-        
-        // Basic validation checklist
-        response += `**Validation Checklist:**\n\n`;
-        
-        response += `✅ **1. Script Integration**\n`;
-        response += `• Ensure the tracking script is in your website's <head> section\n`;
-        response += `• Script should include: data-website-id="${websiteId}"\n`;
-        response += `• Script should include: data-domain="${domain}"\n\n`;
-        
-        if (useProxy) {
-          response += `✅ **2. Proxy Configuration**\n`;
-          response += `• Verify proxy routes are configured: /js/script.js → https://datafa.st/js/script.js\n`;
-          response += `• Verify events route: /api/events → https://datafa.st/api/events\n`;
-          response += `• Test proxy by visiting: https://${domain}/js/script.js\n\n`;
-        } else {
-          response += `✅ **2. Direct Script Loading**\n`;
-          response += `• Script src should be: https://datafa.st/js/script.js\n`;
-          response += `• Note: Direct loading may be blocked by ad blockers\n\n`;
-        }
-        
-        response += `✅ **3. Manual Testing Steps**\n`;
-        response += `• Open your website in browser\n`;
-        response += `• Open DevTools → Network tab\n`;
-        response += `• Look for successful requests to ${useProxy ? `${domain}/js/script.js` : 'datafa.st/js/script.js'}\n`;
-        response += `• Navigate between pages to generate pageview events\n`;
-        response += `• Check for POST requests to ${useProxy ? `${domain}/api/events` : 'datafa.st/api/events'}\n\n`;
-        
-        response += `✅ **4. Dashboard Verification**\n`;
-        response += `• Visit https://datafa.st/dashboard\n`;
-        response += `• Check for recent pageviews in real-time\n`;
-        response += `• Verify visitor count increases\n\n`;
-        
-        response += `✅ **5. Get Your Visitor ID for Testing**\n`;
-        response += `• Open DevTools → Application tab → Cookies\n`;
-        response += `• Look for cookie named: \`datafast_visitor_id\`\n`;
-        response += `• Copy the visitor ID value (domain-scoped to your site)\n`;
-        response += `• Use this ID with \`get_visitor_data\` to test analytics retrieval\n`;
-        response += `• Example: \`get_visitor_data(visitorId: "abc-123-def-456")\`\n\n`;
-        
-        response += `🚨 **Troubleshooting Common Issues:**\n`;
-        response += `• **No script loading:** Check script placement and syntax\n`;
-        response += `• **Script blocked:** Enable proxy setup to bypass ad blockers\n`;
-        response += `• **Wrong website ID:** Double-check ID from dashboard\n`;
-        response += `• **CORS errors:** Ensure domain matches dashboard settings\n`;
-        response += `• **No events:** Check browser console for JavaScript errors\n\n`;
-        
-        response += `📊 **Next Steps:**\n`;
-        response += `• Use \`create_goal\` to track conversions\n`;
-        response += `• Use \`create_payment\` for revenue attribution\n`;
-        response += `• Use \`get_visitor_data\` to analyze visitor behavior\n\n`;
-        
-        response += `💡 **Pro Tip:** Wait 5-10 minutes after installation before checking dashboard data.`;
-        
+        const framework = params.framework ?? (await this.activeProfile())?.framework;
+        if (!framework) {
+          return this.validationErrorResult("Endpoint Generation Failed", [
+            "framework: required when the active site profile has no framework",
+          ]);
+        }
+        const endpoints = [...new Set(params.endpoints ?? ENDPOINT_KINDS)];
+        const generated = generateEndpoints(framework, endpoints);
+
+        let response = `🔌 **DataFa.st Server Endpoints for ${FRAMEWORKS[framework].name}**\n\n`;
+        response += `Runs on: ${generated.server}\n\n`;
+        for (const file of generated.files) {
+          response += `**${file.path}**\n\`\`\`${file.language}\n${file.code}\n\`\`\`\n\n`;
+        }
+        response += `**Environment:** ${generated.envVars.map((name) => `\`${name}\``).join(', ')}\n\n`;
+        response += generated.instructions.map((instruction) => `- ${instruction}`).join('\n');
+        response += `\n\n📚 **Next steps:** Send a test goal from the browser, then check it arrived with \`get_visitor_data\`.`;
+
         return {
-          content: [{ type: "text", text: response }]
+          content: [{ type: "text", text: response }],
+          structuredContent: {
+            framework,
+            server: generated.server,
+            endpoints,
+            files: generated.files,
+            envVars: generated.envVars,
+            instructions: generated.instructions,
+          } satisfies ToolOutput<typeof generateServerEndpointsOutputSchema>
         };
       }
     );
 
+    // Recent watchlist alerts; subscribers get notifications/resources/updated when a poll adds one
+    this.server.resource(
+      "watchlist_alerts",
+      WATCHLIST_ALERTS_URI,
+      {
+        name: "Watchlist Alerts",
+        description: "The 50 most recent watchlist alerts (hot leads, cooling leads, completed goals)",
+        mimeType: "application/json"
+      },
+      async () => ({
+        contents: [{
+          uri: WATCHLIST_ALERTS_URI,
+          mimeType: "application/json",
+          text: JSON.stringify({ alerts: await (await this.watchlistAccount()).watchlistAlerts(50) }, null, 2)
+        }]
+      })
+    );
+    this.server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const subscriptions = new Set(await this.ctx.storage.get<string[]>(RESOURCE_SUBSCRIPTIONS_KEY));
+      subscriptions.add(request.params.uri);
+      await this.ctx.storage.put(RESOURCE_SUBSCRIPTIONS_KEY, [...subscriptions]);
+      if (request.params.uri === WATCHLIST_ALERTS_URI) {
+        await this.watchlistAccount();
+      }
+      return {};
+    });
+    this.server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const subscriptions = new Set(await this.ctx.storage.get<string[]>(RESOURCE_SUBSCRIPTIONS_KEY));
+      subscriptions.delete(request.params.uri);
+      await this.ctx.storage.put(RESOURCE_SUBSCRIPTIONS_KEY, [...subscriptions]);
+      return {};
+    });
+
     // Add resource templates for framework-specific setup guides
     this.addResourceTemplates();
+
+    // Prompts for the common multi-step workflows
+    this.addPrompts();
   }
 
-  private addResourceTemplates() {
-    // Setup guides for each framework
-    Object.entries(this.frameworks).forEach(([frameworkKey, config]) => {
-      const framework = frameworkKey as FrameworkType;
-      
-      this.server.resource(
-        `${framework}_setup_guide`,
-        `setup://datafast/${framework}`,
+  // Storage of the DataFa.st key the tools act on (the active profile's, otherwise the connection's):
+  // the payment ledger, visitor snapshots, segments, watchlist, recent values, and the sandbox when
+  // DATAFAST_SANDBOX is enabled
+  private async account(): Promise<AccountClient> {
+    return openAccount(this.env, (await this.activeProfile())?.apiKey ?? this.props.apiKey);
+  }
+
+  // Account of the key the connection was opened with, which keeps the user's site profiles
+  private connectionAccount(): Promise<AccountClient> {
+    return openAccount(this.env, this.props.apiKey);
+  }
+
+  // The watchlist lives with the key's account, which polls it; a session that uses it is notified of
+  // its alerts for as long as its client stays connected
+  private async watchlistAccount(): Promise<AccountClient> {
+    const account = await this.account();
+    await account.listen(this.ctx.id.toString());
+    return account;
+  }
+
+  private async activeProfile(): Promise<SiteProfile | undefined> {
+    return activeProfile(await (await this.connectionAccount()).siteProfiles());
+  }
+
+  // Kept with the account the tools act on, next to the visitors and sites the values belong to
+  private async remember(values: RecentValues) {
+    await (await this.account()).remember(values);
+  }
+
+  // Completions for a website ID, domain or visitor ID: recently used values first, then those of
+  // the saved site profiles, or of the cached visitors
+  private async completeRecent(kind: RecentValueKind, value: string): Promise<string[]> {
+    const account = await this.account();
+    const known = kind === 'visitorId'
+      ? await account.snapshotVisitorIds(value, RESOURCE_COMPLETION_LIMIT)
+      : (await (await this.connectionAccount()).siteProfiles()).profiles.map((profile) => profile[kind]);
+    const recent = await account.recentValues(kind, value, RESOURCE_COMPLETION_LIMIT);
+    return matchingValues([...recent, ...known], value, RESOURCE_COMPLETION_LIMIT);
+  }
+
+  // Called by the account when a watchlist poll records an alert. A session without a connected
+  // client reports that, so the account stops notifying it
+  async notifyWatchAlert(alert: WatchAlert): Promise<SessionDelivery> {
+    if (this.ctx.getWebSockets().length === 0) {
+      return { connected: false };
+    }
+    await this.start();
+    return { connected: true, error: await this.notifyClients(alert) };
+  }
+
+  // An RPC call does not go through McpAgent's fetch, which restores the session (props and the client
+  // transport) after hibernation; this runs the same start-up and marks it done
+  private async start() {
+    const agent = this as unknown as { _status: string; _initialize(): Promise<void> };
+    if (agent._status !== "started") {
+      await agent._initialize();
+    }
+  }
+
+  // Returns why the alert could not be sent, for the alert's record
+  private async notifyClients(alert: WatchAlert): Promise<string | undefined> {
+    const { server } = this.server;
+    try {
+      await server.sendLoggingMessage({ level: "notice", logger: "datafast-watchlist", data: { message: alert.message, alert } });
+      const subscriptions = (await this.ctx.storage.get<string[]>(RESOURCE_SUBSCRIPTIONS_KEY)) ?? [];
+      if (subscriptions.includes(WATCHLIST_ALERTS_URI)) {
+        await server.sendResourceUpdated({ uri: WATCHLIST_ALERTS_URI });
+      }
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    return undefined;
+  }
+
+  private paymentConflictResult(entry: LedgerEntry, differences: string[]) {
+    return {
+      content: [
         {
-          name: `${config.name} Setup Guide`,
-          description: `Complete setup guide for integrating DataFa.st analytics with ${config.name}`,
-          mimeType: "text/markdown"
+          type: "text" as const,
+          text: `⚠️ **Conflicting Payment Re-submission**\n\nTransaction ID ${entry.transactionId} was already recorded on ${entry.recordedAt} with different details:\n${differences.map((difference) => `• ${difference}`).join('\n')}\n\nNothing was sent to DataFa.st. Use a new transaction ID if this is a different payment.`,
         },
-        async () => {
-          const guide = this.generateFrameworkGuide(framework, config);
-          return {
-            contents: [{
-              uri: `setup://datafast/${framework}`,
-              mimeType: "text/markdown",
-              text: guide
-            }]
-          };
+      ],
+      isError: true,
+    };
+  }
+
+  private apiErrorResult(title: string, error: unknown) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **${title}**\n${describeApiError(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  private validationErrorResult(title: string, issues: string[]) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **${title}**\nInvalid input, nothing was sent to DataFa.st:\n${issues.map((issue) => `• ${issue}`).join('\n')}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Sends notifications/progress when the client asked for progress with a progressToken
+  private progressReporter(extra: ToolExtra, label: string) {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return undefined;
+    }
+    // Best effort: the client may have gone away, and the work carries on regardless
+    return async (completed: number, total: number) => {
+      try {
+        await extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: completed, total, message: `${completed}/${total} ${label}` },
+        });
+      } catch {
+        // Nothing to do; the final result still reports every item
+      }
+    };
+  }
+
+  private formatInstallPatch(patch: InstallPatch): string {
+    let text = patch.diff
+      ? `**Patch** (apply with \`git apply\`, or make the same edits):\n\`\`\`diff\n${patch.diff}\`\`\`\n\n`
+      : patch.files.length > 0 ? `✅ **Already installed:** the supplied files need no changes.\n\n` : '';
+    text += patch.files.map((file) => `• \`${file.path}\` (${file.status}): ${file.note}\n`).join('');
+    if (patch.manual.length > 0) {
+      text += `\n**Still to do by hand:**\n${patch.manual.map((step) => `• ${step}\n`).join('')}`;
+    }
+    return `${text}\n`;
+  }
+
+  private formatDetection(detection: FrameworkDetection, config: FrameworkConfig): string {
+    let text = `🔎 **Detected framework:** ${config.name}`;
+    const variant = detection.variant && frameworkVariant(detection.framework, detection.variant);
+    if (variant) {
+      text += ` (${variant.name})`;
+    }
+    text += ` — confidence ${Math.round(detection.confidence * 100)}%\n`;
+    text += detection.signals.map((signal) => `• ${signal}\n`).join('');
+    text += detection.warnings.map((warning) => `⚠️ ${warning}\n`).join('');
+    if (detection.confidence < 0.5) {
+      text += `💡 Pass \`framework\` explicitly or include package.json / a file listing in \`projectEvidence\` for a better match.\n`;
+    }
+    return `${text}\n`;
+  }
+
+  private addResourceTemplates() {
+    // Setup guides for each framework, listed one per framework and completed by framework name
+    this.server.resource(
+      "framework_setup_guide",
+      new ResourceTemplate("setup://datafast/{framework}", {
+        list: () => ({
+          resources: FRAMEWORK_TYPES.map((framework) => ({
+            uri: `setup://datafast/${framework}`,
+            name: `${FRAMEWORKS[framework].name} Setup Guide`,
+            description: `Complete setup guide for integrating DataFa.st analytics with ${FRAMEWORKS[framework].name}`,
+            mimeType: "text/markdown"
+          }))
+        }),
+        complete: {
+          framework: (value) => matchingValues(FRAMEWORK_TYPES, value, FRAMEWORK_TYPES.length)
         }
-      );
-    });
+      }),
+      {
+        name: "Framework Setup Guide",
+        description: "Complete setup guide for integrating DataFa.st analytics with a framework",
+        mimeType: "text/markdown"
+      },
+      async (uri, variables) => {
+        const framework = templateVariable(variables.framework);
+        if (!isFrameworkType(framework)) {
+          throw new McpError(ErrorCode.InvalidParams, `No setup guide for "${framework}". Guides exist for: ${FRAMEWORK_TYPES.join(', ')}`);
+        }
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: "text/markdown",
+            text: this.generateFrameworkGuide(framework, FRAMEWORKS[framework])
+          }]
+        };
+      }
+    );
 
     // General onboarding resource
     this.server.resource(
@@ -767,6 +1886,250 @@ create_payment(
         };
       }
     );
+
+    // Live visitor data, read through the same snapshot cache as get_visitor_data
+    this.server.resource(
+      "visitor",
+      new ResourceTemplate("visitor://{visitorId}", {
+        list: async () => ({
+          resources: (await (await this.account()).snapshotVisitorIds('', RESOURCE_COMPLETION_LIMIT)).map((visitorId) => ({
+            uri: `visitor://${encodeURIComponent(visitorId)}`,
+            name: `Visitor ${visitorId}`,
+            mimeType: "application/json"
+          }))
+        }),
+        complete: {
+          visitorId: (value) => this.completeRecent('visitorId', value)
+        }
+      }),
+      {
+        name: "DataFa.st Visitor",
+        description: "A visitor's identity, activity, completed goals and conversion prediction as JSON",
+        mimeType: "application/json"
+      },
+      async (uri, variables) => {
+        const visitorId = templateVariable(variables.visitorId);
+        let result: SnapshotRead;
+        try {
+          result = await (await this.account()).visitorSnapshot(visitorId);
+        } catch (error) {
+          const code = error instanceof DataFastApiError && error.kind === 'not_found' ? ErrorCode.InvalidParams : ErrorCode.InternalError;
+          throw new McpError(code, `Visitor ${visitorId} could not be loaded. ${describeApiError(error)}`);
+        }
+        const { snapshot, cached } = result;
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({
+              visitorId,
+              ...snapshot.data,
+              snapshot: { snapshotId: snapshot.snapshotId, capturedAt: snapshot.capturedAt, fetchedAt: snapshot.lastSeenAt, cached },
+            }, null, 2)
+          }]
+        };
+      }
+    );
+
+    // Payments in the ledger of the active API key
+    this.server.resource(
+      "payment",
+      new ResourceTemplate("payment://{transactionId}", {
+        list: async () => ({
+          resources: (await (await this.account()).payments(RESOURCE_COMPLETION_LIMIT)).map(({ payload }) => ({
+            uri: `payment://${encodeURIComponent(payload.transaction_id)}`,
+            name: `Payment ${payload.transaction_id}`,
+            description: `${payload.amount} ${payload.currency} from visitor ${payload.datafast_visitor_id}`,
+            mimeType: "application/json"
+          }))
+        }),
+        complete: {
+          transactionId: async (value) => (await this.account()).transactionIds(value, RESOURCE_COMPLETION_LIMIT)
+        }
+      }),
+      {
+        name: "Recorded Payment",
+        description: "A payment recorded with this API key (create_payment, import_payments or a payment webhook), as JSON",
+        mimeType: "application/json"
+      },
+      async (uri, variables) => {
+        const transactionId = templateVariable(variables.transactionId);
+        const entry = await (await this.account()).payment(transactionId);
+        if (!entry) {
+          throw new McpError(ErrorCode.InvalidParams, `No payment with transaction ID ${transactionId} was recorded through this server. Use list_recorded_payments to see recorded payments.`);
+        }
+        const { payload } = entry;
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({
+              transactionId,
+              visitorId: payload.datafast_visitor_id,
+              amount: payload.amount,
+              currency: payload.currency,
+              email: payload.email,
+              name: payload.name,
+              customerId: payload.customer_id,
+              renewal: payload.renewal,
+              refunded: payload.refunded,
+              recordedAt: entry.recordedAt,
+              result: entry.result,
+            }, null, 2)
+          }]
+        };
+      }
+    );
+  }
+
+  private addPrompts() {
+    // Website ID and domain default to the active site profile, like the tools'
+    const siteArgs = (params: { websiteId?: string; domain?: string }, profile: SiteProfile | undefined): SiteArgs => {
+      const fromProfile = profile !== undefined && (params.websiteId === undefined || params.domain === undefined);
+      return {
+        websiteId: params.websiteId ?? profile?.websiteId,
+        domain: params.domain ?? profile?.domain,
+        profile: fromProfile ? profile.name : undefined,
+      };
+    };
+    const userMessage = (description: string, text: string) => ({
+      description,
+      messages: [{ role: "user" as const, content: { type: "text" as const, text } }]
+    });
+
+    this.server.registerPrompt(
+      "onboard_project",
+      {
+        title: "Onboard this project",
+        description: "Install DataFa.st tracking in the current project: detect the framework, add the script and proxy, validate, and plan goals",
+        argsSchema: {
+          framework: optionalCompletable(
+            z.enum(FRAMEWORK_TYPES).optional().describe("Framework of the project (detected from the project files if omitted)"),
+            (value) => matchingValues(FRAMEWORK_TYPES, value, FRAMEWORK_TYPES.length)
+          ),
+          domain: optionalCompletable(
+            z.string().optional().describe("Website domain, e.g. 'example.com' (defaults to the active site profile)"),
+            (value) => this.completeRecent('domain', value)
+          ),
+          websiteId: optionalCompletable(
+            z.string().optional().describe("DataFa.st website ID (defaults to the active site profile)"),
+            (value) => this.completeRecent('websiteId', value)
+          )
+        }
+      },
+      async (params) => {
+        const profile = await this.activeProfile();
+        const framework = params.framework ?? profile?.framework;
+        return userMessage(
+          "Onboard this project to DataFa.st",
+          onboardProjectPrompt({ ...siteArgs(params, profile), framework, frameworkName: framework && FRAMEWORKS[framework].name })
+        );
+      }
+    );
+
+    this.server.registerPrompt(
+      "diagnose_missing_data",
+      {
+        title: "Diagnose missing data",
+        description: "Work out why DataFa.st shows no data for a site, from the installation checks down to the browser",
+        argsSchema: {
+          domain: optionalCompletable(
+            z.string().optional().describe("Website domain (defaults to the active site profile)"),
+            (value) => this.completeRecent('domain', value)
+          ),
+          websiteId: optionalCompletable(
+            z.string().optional().describe("DataFa.st website ID (defaults to the active site profile)"),
+            (value) => this.completeRecent('websiteId', value)
+          ),
+          url: z.string().optional().describe("Page to check instead of https://{domain}/, e.g. http://localhost:3000"),
+          visitorId: optionalCompletable(
+            z.string().optional().describe("Your own datafast_visitor_id cookie, to confirm events arrive"),
+            (value) => this.completeRecent('visitorId', value)
+          )
+        }
+      },
+      async (params) => userMessage(
+        "Diagnose missing DataFa.st data",
+        diagnoseMissingDataPrompt({ ...siteArgs(params, await this.activeProfile()), url: params.url, visitorId: params.visitorId })
+      )
+    );
+
+    this.server.registerPrompt(
+      "setup_revenue_attribution",
+      {
+        title: "Set up revenue attribution",
+        description: "Pass the visitor ID through checkout and record payments with webhooks or create_payment, so revenue is attributed to traffic sources",
+        argsSchema: {
+          provider: optionalCompletable(
+            z.enum(REVENUE_PROVIDERS).optional().describe("Payment provider (asked for if omitted)"),
+            (value) => matchingValues(REVENUE_PROVIDERS, value, REVENUE_PROVIDERS.length)
+          ),
+          domain: optionalCompletable(
+            z.string().optional().describe("Website domain (defaults to the active site profile)"),
+            (value) => this.completeRecent('domain', value)
+          ),
+          websiteId: optionalCompletable(
+            z.string().optional().describe("DataFa.st website ID (defaults to the active site profile)"),
+            (value) => this.completeRecent('websiteId', value)
+          )
+        }
+      },
+      async (params) => userMessage(
+        "Set up DataFa.st revenue attribution",
+        revenueAttributionPrompt({ ...siteArgs(params, await this.activeProfile()), provider: params.provider })
+      )
+    );
+
+    this.server.registerPrompt(
+      "analyze_visitor",
+      {
+        title: "Analyze this visitor",
+        description: "Profile a visitor's journey and conversion prediction, see what changed, and recommend next steps",
+        argsSchema: {
+          visitorId: completable(z.string().describe("DataFa.st visitor ID"), (value) => this.completeRecent('visitorId', value)),
+          since: z.string().optional().describe("Compare with the visitor's state at this time: ISO 8601 or relative like '24h', '7d'")
+        }
+      },
+      (params) => userMessage(
+        `Analyze visitor ${params.visitorId}`,
+        analyzeVisitorPrompt({ visitorId: params.visitorId, since: params.since })
+      )
+    );
+  }
+
+  // The framework's own proxy when it has one, otherwise the hosting options
+  private proxyGuide(framework: FrameworkType): string {
+    const choice = chooseProxyTarget(framework, undefined);
+    const others = PROXY_TARGETS.filter((target) => target !== choice?.target);
+    let guide = '';
+    if (choice) {
+      const proxy = generateProxyConfig(choice.target, 'yourdomain.com');
+      for (const snippet of [proxy, ...(proxy.extraFiles ?? [])]) {
+        guide += `Add to ${snippet.file}:\n\n\`\`\`${snippet.language}\n${snippet.code}\n\`\`\`\n\n`;
+      }
+      guide += `${proxy.instructions}\n\n`;
+    }
+    guide += choice ? 'To proxy somewhere else, run' : 'Proxy `/js/script.js` and `/api/events` to https://datafa.st where the site is hosted. Run';
+    guide += ` \`install_tracking_script\` with \`proxyTarget\` set to ${others.map((target) => `\`${target}\``).join(', ')} for a production-ready configuration.`;
+    return guide;
+  }
+
+  // Every variant's snippet, with the JavaScript version where it differs
+  private scriptGuide(framework: FrameworkType, config: FrameworkConfig): string {
+    const values = { WEBSITE_ID: 'your-website-id', DOMAIN: 'yourdomain.com', SCRIPT_SRC: 'https://datafa.st/js/script.js' };
+    const variants = config.variants.map((variant) => {
+      const render = (template: string) => renderTemplate(template, values, variant.context);
+      const javascript = variantSnippet(variant, false);
+      let guide = config.variants.length > 1 ? `#### ${variant.name} (\`variant: "${variant.id}"\`)\n` : '';
+      guide += `${variant.installInstructions}\n\n**\`${variant.file}\`:**\n\`\`\`${variant.language}\n${render(variant.scriptTemplate)}\n\`\`\`\n`;
+      if (javascript.scriptTemplate !== variant.scriptTemplate) {
+        guide += `\n**JavaScript (\`${javascript.file}\`):**\n\`\`\`${javascript.language}\n${render(javascript.scriptTemplate)}\n\`\`\`\n`;
+      } else if (javascript.file !== variant.file) {
+        guide += `\nJavaScript projects use \`${javascript.file}\` with the same contents.\n`;
+      }
+      return guide;
+    });
+    return `${variants.join('\n')}\nGenerate it with your own IDs using \`install_tracking_script(framework: "${framework}")\`.`;
   }
 
   private generateFrameworkGuide(framework: FrameworkType, config: FrameworkConfig): string {
@@ -778,17 +2141,12 @@ create_payment(
 Visit [DataFa.st Dashboard](https://datafa.st/dashboard) and copy your Website ID.
 
 ### 2. Add Tracking Script
-${config.installInstructions}
-
-**Script Template:**
-\`\`\`${framework === 'nextjs' || framework === 'nuxt' ? 'javascript' : 'html'}
-${config.scriptTemplate.replace('{WEBSITE_ID}', 'your-website-id').replace('{DOMAIN}', 'yourdomain.com').replace('{SCRIPT_SRC}', 'https://datafa.st/js/script.js')}
-\`\`\`
+${this.scriptGuide(framework, config)}
 
 ### 3. Proxy Setup (Recommended)
 Avoid ad blocker issues by proxying through your domain:
 
-${config.proxyTemplate ? `\`\`\`javascript\n${config.proxyTemplate}\n\`\`\`` : 'Manual proxy configuration required for this framework.'}
+${this.proxyGuide(framework)}
 
 ### 4. Validation
 After setup, test your installation:
@@ -845,6 +2203,8 @@ fetch('/api/datafast-payment', {
 });
 \`\`\`
 
+**Backend Routes:** \`/api/datafast-goal\` and \`/api/datafast-payment\` run on your server with your API key. Generate them with \`generate_server_endpoints(framework: "${framework}")\`. Only record a payment once your backend has confirmed it.
+
 ## Framework-Specific Tips
 
 ${this.getFrameworkSpecificTips(framework)}
@@ -870,20 +2230,20 @@ ${this.getFrameworkSpecificTips(framework)}
     const tips: Record<FrameworkType, string> = {
       nextjs: `
 - Use \`next/script\` component for optimal loading
-- Add to \`_app.js\` or root layout for all pages
+- App Router: add to the root layout; Pages Router: add to \`pages/_app\`
 - Proxy configuration goes in \`next.config.js\`
-- Works with both App Router and Pages Router`,
+- Both routers work; pick yours with the \`variant\` argument of \`install_tracking_script\``,
       vue: `
-- Add to \`public/index.html\` for global tracking
+- Vite: add to \`index.html\` in the project root; Vue CLI: \`public/index.html\`
 - Or use in main component with \`v-html\`
 - Proxy config in \`vue.config.js\` for development
 - Use environment variables for different domains`,
       react: `
-- Add to \`public/index.html\` in the \`<head>\` section
+- Vite: add to \`index.html\` in the project root; Create React App: \`public/index.html\`
 - For SPA routing, ensure script runs on route changes
 - Consider using React Helmet for dynamic insertion`,
       angular: `
-- Add to \`src/index.html\` in the \`<head>\` section
+- Standalone apps (Angular 19+) can inject the script from \`app.config.ts\`; any version can use \`src/index.html\`
 - For Angular Universal (SSR), ensure script runs client-side only
 - Use Angular environment files for different configurations`,
       laravel: `
@@ -905,7 +2265,7 @@ ${this.getFrameworkSpecificTips(framework)}
 - For SvelteKit, ensure script runs on all routes
 - Use \`$env\` for environment-specific configuration`,
       nuxt: `
-- Add to \`nuxt.config.js\` in the \`head.script\` array
+- Nuxt 3: \`app.head.script\` in \`nuxt.config\`; Nuxt 2: \`head.script\`
 - Use \`@nuxtjs/google-analytics\` pattern for organization
 - Works with both SSR and SPA modes
 - Use runtime config for environment variables`,
@@ -920,34 +2280,341 @@ ${this.getFrameworkSpecificTips(framework)}
   }
 }
 
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function summarizeProfile(profile: SiteProfile, state: SiteProfileState) {
+  return {
+    name: profile.name,
+    websiteId: profile.websiteId,
+    domain: profile.domain,
+    framework: profile.framework,
+    useProxy: profile.useProxy,
+    apiKey: profile.apiKey === undefined ? undefined : maskApiKey(profile.apiKey),
+    active: activeProfile(state)?.name === profile.name,
+  };
+}
+
+// Side-by-side markdown for compare_visitor_segments; the full distributions are in structuredContent
+function formatSegmentComparison(summaries: SegmentSummary[]): string {
+  const percent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+  const number = (value: number | null) => (value === null ? '—' : `${Math.round(value * 10) / 10}`);
+  const money = (value: number | null) => (value === null ? '—' : `$${value.toFixed(2)}`);
+  const top = (distribution: SegmentSummary['distributions']['country']) =>
+    distribution.slice(0, 3).map(({ value, share }) => `${escapeTableCell(value)} ${percent(share)}`).join(', ') || '—';
+  const row = (label: string, cell: (summary: SegmentSummary) => string) =>
+    `| ${label} | ${summaries.map(cell).join(' | ')} |\n`;
+
+  let text = `👥 **Segment Comparison**\n\n`;
+  text += `| | ${summaries.map((summary) => `**${escapeTableCell(summary.name)}**`).join(' | ')} |\n`;
+  text += `|---|${summaries.map(() => '---').join('|')}|\n`;
+  text += row('Visitors fetched', (summary) => `${summary.fetched}/${summary.requested}`);
+  text += row('Avg visits', (summary) => number(summary.activity.averageVisits));
+  text += row('Avg pageviews', (summary) => number(summary.activity.averagePageviews));
+  text += row('Goal completion', (summary) => percent(summary.goals.completionRate));
+  text += row('Top goals', (summary) => top(summary.goals.byGoal));
+  text += row('Scored visitors', (summary) => `${summary.prediction.scored}`);
+  text += row('Avg conversion score', (summary) => number(summary.prediction.averageConversionScore));
+  text += row('Avg conversion rate', (summary) => percent(summary.prediction.averageConversionRate));
+  text += row('Avg confidence', (summary) => percent(summary.prediction.averageConfidence));
+  text += row('Expected revenue (total)', (summary) => money(summary.prediction.totalExpectedRevenue));
+  text += row('Expected revenue (avg)', (summary) => money(summary.prediction.averageExpectedRevenue));
+  text += row('Top countries', (summary) => top(summary.distributions.country));
+  text += row('Devices', (summary) => top(summary.distributions.device));
+  text += row('OS', (summary) => top(summary.distributions.os));
+  text += row('Browsers', (summary) => top(summary.distributions.browser));
+
+  for (const summary of summaries) {
+    if (summary.topConverters.length > 0) {
+      text += `\n**🎯 Top converters in ${summary.name}:**\n`;
+      text += summary.topConverters
+        .map(({ visitorId, conversionScore, expectedRevenue, goals }) =>
+          `• ${visitorId}: score ${conversionScore}/100, expected revenue ${expectedRevenue === null ? 'unknown' : money(expectedRevenue)}, ${goals} goals\n`)
+        .join('');
+    }
+    if (summary.failed.length > 0) {
+      text += `\n⚠️ **${summary.failed.length} visitors in ${summary.name} could not be fetched:**\n`;
+      text += summary.failed.slice(0, 10).map(({ visitorId, error }) => `• ${visitorId}: ${error}\n`).join('');
+      if (summary.failed.length > 10) {
+        text += `• …and ${summary.failed.length - 10} more (see structuredContent)\n`;
+      }
+    }
+  }
+  return text;
+}
+
+function formatVisitorDiff(diff: VisitorDiff): string {
+  const delta = (change: { before: number | null; after: number | null }, format = (value: number) => `${value}`) => {
+    if (change.before === null || change.after === null) {
+      return `${change.before === null ? 'none' : format(change.before)} → ${change.after === null ? 'none' : format(change.after)}`;
+    }
+    const difference = Math.round((change.after - change.before) * 10000) / 10000;
+    return `${format(change.before)} → ${format(change.after)} (${difference < 0 ? '-' : '+'}${format(Math.abs(difference))})`;
+  };
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  let text = `🔀 **Changes for ${diff.visitorId}**\n\n`;
+  text += `From snapshot ${diff.from.snapshotId} (${diff.from.capturedAt}) to snapshot ${diff.to.snapshotId} (${diff.to.capturedAt})\n\n`;
+  if (diff.from.snapshotId === diff.to.snapshotId) {
+    return `${text}No changes: DataFa.st has returned the same data for this visitor since ${diff.from.capturedAt}.`;
+  }
+
+  text += `**📊 Activity:**\n`;
+  text += `• Visits: ${delta(diff.visits)}\n`;
+  text += `• Pageviews: ${delta(diff.pageviews)}\n`;
+  if (diff.lastVisit.before !== diff.lastVisit.after) {
+    text += `• Last visit: ${diff.lastVisit.before ?? 'Unknown'} → ${diff.lastVisit.after ?? 'Unknown'}\n`;
+  }
+  if (diff.currentUrl.before !== diff.currentUrl.after) {
+    text += `• Current URL: ${diff.currentUrl.after ?? 'Unknown'}\n`;
+  }
+  text += diff.newPages.length > 0 ? `• New pages: ${diff.newPages.join(', ')}\n` : `• No new pages\n`;
+  text += diff.newGoals.length > 0
+    ? `• New goals: ${diff.newGoals.map((goal) => (goal.timestamp ? `${goal.name} (${goal.timestamp})` : goal.name)).join(', ')}\n`
+    : `• No new goals\n`;
+
+  text += `\n**🎯 Conversion Prediction:**\n`;
+  text += `• Conversion Score: ${delta(diff.conversionScore)}\n`;
+  text += `• Conversion Rate: ${delta(diff.conversionRate, percent)}\n`;
+  text += `• Expected Revenue: ${delta(diff.expectedRevenue, (value) => `$${value.toFixed(2)}`)}\n`;
+
+  if (diff.identityChanges.length > 0) {
+    text += `\n**🌍 Identity changes:**\n${diff.identityChanges.map((change) => `• ${change}\n`).join('')}`;
+  }
+  return text;
+}
+
+function describeWatchConditions(entry: WatchEntry): string {
+  return [
+    entry.scoreAbove !== undefined ? `score > ${entry.scoreAbove}` : '',
+    entry.scoreBelow !== undefined ? `score < ${entry.scoreBelow}` : '',
+    entry.goal ? `goal "${entry.goal}" completed` : '',
+  ].filter(Boolean).join(' or ');
+}
+
+function formatInterval(seconds: number): string {
+  if (seconds % 3600 === 0) {
+    return `${seconds / 3600}h`;
+  }
+  return seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`;
+}
+
+// Webhook URLs often embed their secret in the path (Slack, Discord), so only the origin is shown
+function redactUrl(url: string): string {
+  return `${new URL(url).origin}/…`;
+}
+
+// Completion for an optional prompt argument. The SDK only completes arguments whose schema is the
+// Completable itself, which its prompt argument types don't accept for an optional schema; at runtime
+// the Completable parses, and reports being optional, like the schema it wraps
+function optionalCompletable<T extends z.ZodType<string>>(
+  schema: z.ZodOptional<T>,
+  complete: (value: string) => string[] | Promise<string[]>
+): z.ZodOptional<T> {
+  return completable(schema, (value) => complete(value ?? '')) as unknown as z.ZodOptional<T>;
+}
+
+// URI template variables arrive percent-encoded, and as a list for exploded variables
+function templateVariable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+}
+
+function webhookSecret(env: Env, provider: WebhookProvider): { name: string; value: string } {
+  const secrets: Record<WebhookProvider, { name: string; value: string }> = {
+    stripe: { name: "STRIPE_WEBHOOK_SECRET", value: env.STRIPE_WEBHOOK_SECRET },
+    lemonsqueezy: { name: "LEMONSQUEEZY_WEBHOOK_SECRET", value: env.LEMONSQUEEZY_WEBHOOK_SECRET },
+    paddle: { name: "PADDLE_WEBHOOK_SECRET", value: env.PADDLE_WEBHOOK_SECRET },
+  };
+  return secrets[provider];
+}
+
+// Verifies a provider delivery and records the payment in the ledger of the Worker's DATAFAST_API_KEY,
+// which MCP sessions connected with the same key share. Providers retry on 5xx, so only failures
+// worth retrying get one
+async function handleWebhook(request: Request, env: Env, provider: string): Promise<Response> {
+  if (!isWebhookProvider(provider)) {
+    return new Response("Not found", { status: 404 });
+  }
+  if (request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "POST" } });
+  }
+
+  const secret = webhookSecret(env, provider);
+  if (!secret.value) {
+    return Response.json({ error: `${secret.name} is not configured` }, { status: 500 });
+  }
+  if (!env.DATAFAST_API_KEY && !isSandboxMode(env)) {
+    return Response.json({ error: "DATAFAST_API_KEY is not configured" }, { status: 500 });
+  }
+
+  const body = await request.text();
+  const signatureError = await verifyWebhookSignature(provider, body, request.headers, secret.value);
+  if (signatureError) {
+    return Response.json({ error: `Invalid signature: ${signatureError}` }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return Response.json({ error: "Body is not valid JSON" }, { status: 400 });
+  }
+
+  const event = parseWebhookEvent(provider, payload);
+  if (event.kind === 'ignored') {
+    const result: WebhookResult = { status: 'ignored', event: event.eventType, message: event.reason };
+    return Response.json(result);
+  }
+
+  const result = await recordWebhookPayment(env, event);
+  return Response.json(result, { status: result.retry ? 500 : 200 });
+}
+
+// Retried deliveries are replayed from the ledger instead of being recorded twice
+async function recordWebhookPayment(env: Env, event: Extract<WebhookEvent, { kind: 'payment' }>): Promise<WebhookResult> {
+  const account = await openAccount(env, env.DATAFAST_API_KEY || "sandbox");
+  const payload = toPaymentPayload(event.input);
+  const base = { event: event.eventType, transactionId: payload.transaction_id };
+  let submission: PaymentSubmission;
+  try {
+    submission = await account.submitPayment(payload);
+  } catch (error) {
+    return {
+      ...base,
+      status: 'failed',
+      message: summarizeApiError(error),
+      retry: !(error instanceof DataFastApiError && error.kind === 'validation'),
+    };
+  }
+  if (submission.status === 'conflict') {
+    return {
+      ...base,
+      status: 'ignored',
+      message: `already recorded on ${submission.entry.recordedAt} with different details (${submission.differences.join(', ')})`,
+    };
+  }
+  if (submission.status === 'replayed') {
+    return { ...base, status: 'replayed', message: `already recorded on ${submission.recordedAt}` };
+  }
+  return { ...base, status: 'recorded', message: `${payload.amount} ${payload.currency} attributed to visitor ${payload.datafast_visitor_id}` };
+}
+
+// OAuth-authorized requests reach the agent with the grant's props ({ apiKey }) as ctx.props
+const oauthProvider = new OAuthProvider({
+  apiHandlers: {
+    "/sse": DataFastMCP.serveSSE("/sse"),
+    "/mcp": DataFastMCP.serve("/mcp"),
+  },
+  // The provider types its handlers without an Env
+  defaultHandler: authorizeHandler as ExportedHandler,
+  authorizeEndpoint: "/authorize",
+  tokenEndpoint: "/token",
+  clientRegistrationEndpoint: "/register",
+  // Only invalid tokens get a custom body; other errors keep the provider's standard response
+  onError: ({ status, code, description, headers }) => {
+    if (code !== "invalid_token") {
+      return;
+    }
+    return Response.json(
+      {
+        error: code,
+        error_description: `${description}. Connect with OAuth, or send your DataFa.st API key as "Authorization: Bearer <api_key>".`,
+      },
+      { status, headers }
+    );
+  },
+});
+
+function isMcpPath(pathname: string): boolean {
+  return pathname === "/sse" || pathname === "/sse/message" || pathname === "/mcp";
+}
+
+// Only requests that open a session are checked against DataFa.st; follow-up messages reuse it
+function startsSession(request: Request, pathname: string): boolean {
+  if (pathname === "/sse") {
+    return request.method === "GET";
+  }
+  return pathname === "/mcp" && !request.headers.has("mcp-session-id");
+}
+
+function unauthorized(message: string): Response {
+  return Response.json(
+    { error: "invalid_token", error_description: message },
+    { status: 401, headers: { "WWW-Authenticate": `Bearer error="invalid_token", error_description="${message}"` } }
+  );
+}
+
+// Serves a request authenticated with a DataFa.st key sent directly (or the sandbox), without OAuth
+async function serveWithApiKey(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  url: URL,
+  credential: ApiKeyCredential | undefined
+): Promise<Response> {
+  const apiKey = credential?.apiKey ?? "sandbox";
+  if (credential && !isSandboxMode(env) && startsSession(request, url.pathname)) {
+    let accepted: boolean;
+    try {
+      accepted = await verifyApiKey(env, apiKey);
+    } catch {
+      // The key could not be checked either way, so the client should retry rather than re-authenticate
+      return Response.json(
+        { error: "temporarily_unavailable", error_description: "DataFa.st could not be reached to check the API key. Try again shortly." },
+        { status: 503, headers: { "Retry-After": "5" } }
+      );
+    }
+    if (!accepted) {
+      return unauthorized("DataFa.st rejected this API key. Check it at https://datafa.st/dashboard");
+    }
+  }
+
+  // Store API key in context props for the MCP agent to use
+  ctx.props = {
+    apiKey: apiKey,
+  };
+
+  const response = url.pathname === "/mcp"
+    ? await DataFastMCP.serve("/mcp").fetch(request, env, ctx)
+    : await DataFastMCP.serveSSE("/sse").fetch(request, env, ctx);
+
+  if (credential?.source !== "query") {
+    return response;
+  }
+  // The key ends up in logs and history when sent in the URL
+  const deprecated = new Response(response.body, response);
+  deprecated.headers.set("Deprecation", "true");
+  return deprecated;
+}
+
+export { DataFastAccount } from "./account";
+
 export default {
   fetch(request: Request, env: Env, ctx: ExecutionContext) {
     const url = new URL(request.url);
 
-    // Extract API key from query parameters
-    const apiKey = url.searchParams.get("api_key");
-    if (!apiKey) {
-      return new Response(
-        "DataFast API key is required. Please provide it as a query parameter: ?api_key=your_api_key",
-        {
-          status: 401,
-        }
-      );
+    // Provider webhooks authenticate with signatures rather than an api_key
+    if (url.pathname.startsWith("/webhooks/")) {
+      return handleWebhook(request, env, url.pathname.slice("/webhooks/".length));
     }
 
-    // Store API key in context props for the MCP agent to use
-    ctx.props = {
-      apiKey: apiKey,
-    };
-
-    if (url.pathname === "/sse" || url.pathname === "/sse/message") {
-      return DataFastMCP.serveSSE("/sse").fetch(request, env, ctx);
+    // A DataFa.st key in the Authorization header (or the deprecated ?api_key= parameter) skips OAuth;
+    // in sandbox mode no key is needed, since nothing reaches DataFa.st
+    if (isMcpPath(url.pathname)) {
+      const credential = directApiKey(request, url);
+      if (credential || (isSandboxMode(env) && !request.headers.has("Authorization"))) {
+        return serveWithApiKey(request, env, ctx, url, credential);
+      }
     }
 
-    if (url.pathname === "/mcp") {
-      return DataFastMCP.serve("/mcp").fetch(request, env, ctx);
+    // OAuth is optional: without the OAUTH_KV binding only direct keys are accepted
+    if (!env.OAUTH_KV) {
+      return isMcpPath(url.pathname)
+        ? unauthorized("Send your DataFa.st API key as an Authorization Bearer header; OAuth is not configured on this server")
+        : new Response("Not found", { status: 404 });
     }
 
-    return new Response("Not found", { status: 404 });
+    return oauthProvider.fetch(request, env, ctx);
   },
 };
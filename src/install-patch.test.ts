@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { FRAMEWORKS } from "./frameworks";
+import { buildInstallPatch } from "./install-patch";
+
+// Values the input schemas would reject, to check the patch escapes them on its own
+const ATTRIBUTES = { websiteId: 'site"><script>alert(1)</script>', domain: "o'brien.com&<x>", scriptSrc: 'https://datafa.st/js/script.js' };
+
+function addedLines(diff: string): string[] {
+  return diff.split('\n').filter((line) => line.startsWith('+') && !line.startsWith('+++'));
+}
+
+describe('buildInstallPatch escaping', () => {
+  it('escapes attributes in a new HTML tag', () => {
+    const page = { path: 'index.html', content: '<html>\n<head>\n  <title>Home</title>\n</head>\n<body></body>\n</html>\n' };
+    const patch = buildInstallPatch('vanilla', FRAMEWORKS.vanilla.variants[0], [page], ATTRIBUTES, undefined);
+
+    expect(patch.scriptPatched).toBe(true);
+    expect(addedLines(patch.diff)).toEqual([
+      '+  <script',
+      '+    defer',
+      '+    data-website-id="site&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;"',
+      '+    data-domain="o&#39;brien.com&amp;&lt;x&gt;"',
+      '+    src="https://datafa.st/js/script.js"',
+      '+  ></script>',
+    ]);
+  });
+
+  it('escapes attributes when updating an existing tag', () => {
+    const page = {
+      path: 'index.html',
+      content: '<html>\n<head>\n  <script defer data-website-id="old" data-domain="old.com" src="https://datafa.st/js/script.js"></script>\n</head>\n</html>\n',
+    };
+    const patch = buildInstallPatch('vanilla', FRAMEWORKS.vanilla.variants[0], [page], ATTRIBUTES, undefined);
+
+    expect(addedLines(patch.diff)).toEqual([
+      '+  <script defer data-website-id="site&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;" data-domain="o&#39;brien.com&amp;&lt;x&gt;" src="https://datafa.st/js/script.js"></script>',
+    ]);
+  });
+
+  it('escapes Blade syntax in a Laravel layout', () => {
+    const layout = { path: 'resources/views/layouts/app.blade.php', content: '<html>\n<head>\n</head>\n</html>\n' };
+    const patch = buildInstallPatch('laravel', FRAMEWORKS.laravel.variants[0], [layout], { ...ATTRIBUTES, websiteId: '{{ $key }}@php' }, undefined);
+
+    expect(patch.diff).toContain('data-website-id="&#123;&#123; $key &#125;&#125;&#64;php"');
+  });
+
+  it('writes JavaScript string escapes into nuxt.config', () => {
+    const config = { path: 'nuxt.config.ts', content: 'export default defineNuxtConfig({\n  devtools: { enabled: true }\n});\n' };
+    const patch = buildInstallPatch('nuxt', FRAMEWORKS.nuxt.variants[0], [config], ATTRIBUTES, undefined);
+
+    expect(patch.diff).toContain("'data-website-id': 'site\\u0022\\u003e\\u003cscript\\u003ealert(1)\\u003c/script\\u003e'");
+    expect(patch.diff).toContain("'data-domain': 'o\\u0027brien.com&\\u003cx\\u003e'");
+    expect(patch.diff).not.toContain('<script>alert');
+  });
+});
@@ -0,0 +1,565 @@
+import { FRAMEWORKS, variantSnippet } from "./frameworks";
+import type { ProxyConfig } from "./proxy-configs";
+import { escapeValue, type TemplateContext } from "./templates";
+import type { FrameworkType, FrameworkVariant } from "./types";
+
+// Installation as a unified diff against project files the caller supplies. The tracking script is
+// inserted into <head> (or the framework's config), an existing DataFa.st tag is updated in place,
+// and running the patch again on its own output changes nothing
+
+export type ProjectFile = {
+  path: string;
+  content: string;
+};
+
+export type PatchedFile = {
+  path: string;
+  status: 'created' | 'modified' | 'unchanged';
+  note: string;
+};
+
+export type InstallPatch = {
+  // Empty when every file is already up to date
+  diff: string;
+  files: PatchedFile[];
+  // Steps the patch could not make, to be done by hand
+  manual: string[];
+  // Whether the tracking script and proxy are covered by the patch (or already in place)
+  scriptPatched: boolean;
+  proxyPatched: boolean;
+};
+
+export type TrackingAttributes = {
+  websiteId: string;
+  domain: string;
+  scriptSrc: string;
+};
+
+type Edit = { content: string; note: string } | { error: string };
+
+const DIFF_CONTEXT_LINES = 3;
+
+// Script and config files compare without a src/ prefix or JavaScript/TypeScript extension, so
+// src/app/layout.jsx matches the app/layout.tsx variant
+function fileKey(path: string): string {
+  return normalizePath(path).replace(/^src\//, '').replace(/\.(tsx|jsx|ts|js|mjs|cjs)$/, '');
+}
+
+function normalizePath(path: string): string {
+  return path.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function variantKeys(variant: FrameworkVariant): string[] {
+  return [fileKey(variant.file), fileKey(variantSnippet(variant, false).file)];
+}
+
+function matchesVariant(file: ProjectFile, variant: FrameworkVariant): boolean {
+  const key = fileKey(file.path);
+  return variantKeys(variant).some((variantKey) => key === variantKey || key.endsWith(`/${variantKey}`));
+}
+
+// The framework variant whose script file is among the supplied files
+export function variantForFiles(framework: FrameworkType, files: ProjectFile[]): FrameworkVariant | undefined {
+  return FRAMEWORKS[framework].variants.find((variant) => files.some((file) => matchesVariant(file, variant)));
+}
+
+export function buildInstallPatch(
+  framework: FrameworkType,
+  variant: FrameworkVariant,
+  files: ProjectFile[],
+  attributes: TrackingAttributes,
+  proxy: ProxyConfig | undefined
+): InstallPatch {
+  const patch: InstallPatch = { diff: '', files: [], manual: [], scriptPatched: false, proxyPatched: false };
+  const diffs: string[] = [];
+
+  // Whether the edit could be made
+  const record = (file: ProjectFile | undefined, path: string, edit: Edit): boolean => {
+    if ('error' in edit) {
+      patch.manual.push(`${path}: ${edit.error}`);
+      return false;
+    }
+    const before = file?.content;
+    if (before === edit.content) {
+      patch.files.push({ path, status: 'unchanged', note: edit.note });
+      return true;
+    }
+    diffs.push(unifiedDiff(path, before, edit.content));
+    patch.files.push({ path, status: before === undefined ? 'created' : 'modified', note: edit.note });
+    return true;
+  };
+
+  const scriptFile = files.find((file) => matchesVariant(file, variant))
+    ?? (scriptStrategy(variant) === 'html' ? files.find((file) => /<\/head>/i.test(file.content)) : undefined);
+  if (scriptFile) {
+    patch.scriptPatched = record(scriptFile, normalizePath(scriptFile.path), withLineEndings(scriptFile.content, (content) => editScriptFile(framework, variant, content, attributes)));
+  } else {
+    patch.manual.push(`None of the supplied files is ${variant.file}${variant.javascript?.file ? ` or ${variant.javascript.file}` : ''}${scriptStrategy(variant) === 'html' ? ' or has a </head> tag' : ''}. Pass its contents in projectFiles, or add the script by hand.`);
+  }
+
+  if (proxy) {
+    const proxyFile = files.find((file) => proxyFileMatches(proxy, file.path));
+    if (proxyFile) {
+      patch.proxyPatched = record(proxyFile, normalizePath(proxyFile.path), withLineEndings(proxyFile.content, (content) => editProxyFile(proxy, content)));
+    } else if (proxy.target === 'express') {
+      // The middleware lives in a file of its own, so it can be created outright
+      patch.proxyPatched = record(undefined, proxy.file, { content: `${proxy.code}\n`, note: 'added the proxy middleware; register it in your server as shown at the end of the file' });
+    } else {
+      const locations = [proxy.file, ...(proxy.extraFiles ?? []).map((extra) => extra.file)].join(' and ');
+      patch.manual.push(`The ${proxy.name} proxy goes in ${locations}: merge it by hand, or pass the file in projectFiles to patch it.`);
+    }
+  }
+
+  patch.diff = diffs.join('');
+  return patch;
+}
+
+type ScriptStrategy = 'html' | 'next-layout' | 'next-app' | 'nuxt-config' | 'angular-config';
+
+function scriptStrategy(variant: FrameworkVariant): ScriptStrategy {
+  switch (variant.id) {
+    case 'app-router':
+      return 'next-layout';
+    case 'pages-router':
+      return 'next-app';
+    case 'nuxt3':
+    case 'nuxt2':
+      return 'nuxt-config';
+    case 'standalone':
+      return 'angular-config';
+    default:
+      return 'html';
+  }
+}
+
+function editScriptFile(framework: FrameworkType, variant: FrameworkVariant, content: string, attributes: TrackingAttributes): Edit {
+  switch (scriptStrategy(variant)) {
+    case 'next-layout':
+    case 'next-app':
+      return editNextFile(variant, content, attributes);
+    case 'nuxt-config':
+      return editNuxtConfig(variant, content, attributes);
+    case 'angular-config':
+      return editAngularConfig(content, attributes);
+    default:
+      return editHtmlFile(framework, variant, content, attributes);
+  }
+}
+
+// An existing DataFa.st tag, as <script ...> in HTML and templates or <Script ...> in JSX
+const EXISTING_TAG = /<(script|Script)\b(?=[^>]*data-website-id)[^>]*>/;
+
+function updateTag(content: string, attributes: TrackingAttributes, context: TemplateContext): Edit | undefined {
+  const match = EXISTING_TAG.exec(content);
+  if (!match) {
+    return undefined;
+  }
+  let tag = match[0];
+  const skipped: string[] = [];
+  for (const [name, value] of Object.entries(tagAttributes(attributes))) {
+    const existing = new RegExp(`(\\s${name}\\s*=\\s*)(?:"[^"]*"|'[^']*'|(\\{[^}]*\\}))`).exec(tag);
+    if (existing?.[2]) {
+      // A JSX expression such as {process.env.NEXT_PUBLIC_WEBSITE_ID} is the project's choice
+      skipped.push(name);
+    } else if (existing) {
+      tag = tag.replace(existing[0], `${existing[1]}"${escapeValue(value, context)}"`);
+    } else {
+      tag = tag.replace(/\s*(\/?>)$/, ` ${name}="${escapeValue(value, context)}"$1`);
+    }
+  }
+  const note = `updated the existing DataFa.st tag${skipped.length > 0 ? ` (left ${skipped.join(', ')} as written, since they are expressions)` : ''}`;
+  return { content: content.replace(match[0], tag), note };
+}
+
+function tagAttributes(attributes: TrackingAttributes): Record<string, string> {
+  return { 'data-website-id': attributes.websiteId, 'data-domain': attributes.domain, src: attributes.scriptSrc };
+}
+
+function attributeLines(attributes: TrackingAttributes, context: TemplateContext): string[] {
+  return Object.entries(tagAttributes(attributes)).map(([name, value]) => `  ${name}="${escapeValue(value, context)}"`);
+}
+
+function quoteString(value: string): string {
+  return `'${escapeValue(value, 'js-string')}'`;
+}
+
+function indentOf(content: string, index: number): string {
+  const lineStart = content.lastIndexOf('\n', index - 1) + 1;
+  return /^[ \t]*/.exec(content.slice(lineStart))?.[0] ?? '';
+}
+
+// Inserts lines right after an opening { or [, one level deeper than its line; entries that
+// followed on the same line move to their own line
+function insertAfterOpening(content: string, at: number, lines: string[]): string {
+  const indent = `${indentOf(content, at)}  `;
+  const block = lines.map((line) => indent + line).join('\n');
+  const rest = content.slice(at);
+  return /^[ \t]*(\n|$)/.test(rest)
+    ? `${content.slice(0, at)}\n${block}${rest}`
+    : `${content.slice(0, at)}\n${block}\n${indent}${rest.trimStart()}`;
+}
+
+// Inserts lines before a closing tag, one level deeper than its line; a tag that shares its line
+// with content gets a line of its own
+function insertBeforeClosing(content: string, index: number, lines: string[]): string {
+  const outer = indentOf(content, index);
+  const block = lines.map((line) => `${outer}  ${line}`).join('\n');
+  const lineStart = content.lastIndexOf('\n', index - 1) + 1;
+  return content.slice(lineStart, index).trim()
+    ? `${content.slice(0, index)}\n${block}\n${outer}${content.slice(index)}`
+    : `${content.slice(0, lineStart)}${block}\n${content.slice(lineStart)}`;
+}
+
+function editHtmlFile(framework: FrameworkType, variant: FrameworkVariant, content: string, attributes: TrackingAttributes): Edit {
+  const updated = updateTag(content, attributes, variant.context);
+  if (updated) {
+    return updated;
+  }
+  const head = /<\/head>/i.exec(content);
+  if (!head) {
+    return { error: 'No </head> tag found to add the tracking script to.' };
+  }
+  const lines = [
+    '<script',
+    // Astro bundles processed scripts, which would drop the data attributes
+    ...(framework === 'astro' ? ['  is:inline'] : []),
+    '  defer',
+    ...attributeLines(attributes, variant.context),
+    '></script>',
+  ];
+  return { content: insertBeforeClosing(content, head.index, lines), note: 'added the tracking script to <head>' };
+}
+
+function editNextFile(variant: FrameworkVariant, content: string, attributes: TrackingAttributes): Edit {
+  const updated = updateTag(content, attributes, variant.context);
+  if (updated) {
+    return updated;
+  }
+  const scriptLines = [
+    '<Script',
+    ...attributeLines(attributes, variant.context),
+    '  strategy="afterInteractive"',
+    '/>',
+  ];
+
+  let edited: string;
+  if (variant.id === 'app-router') {
+    const body = /<\/body>/.exec(content);
+    if (!body) {
+      return { error: 'No </body> found in the root layout to add the Script component to.' };
+    }
+    edited = insertBeforeClosing(content, body.index, scriptLines);
+  } else {
+    const component = /<Component\s+\{\.\.\.pageProps\}\s*\/>/.exec(content);
+    if (!component) {
+      return { error: 'No <Component {...pageProps} /> found in pages/_app to add the Script component next to.' };
+    }
+    const indent = indentOf(content, component.index);
+    const fragment = `<>\n${scriptLines.map((line) => `${indent}  ${line}`).join('\n')}\n${indent}  ${component[0]}\n${indent}</>`;
+    edited = content.slice(0, component.index) + fragment + content.slice(component.index + component[0].length);
+  }
+  const imported = /from\s+['"]next\/script['"]/.test(content);
+  return {
+    content: imported ? edited : addImport(edited, "import Script from 'next/script';"),
+    note: `added the Script component${imported ? '' : ' and its import'}`,
+  };
+}
+
+// Adds an import after the last one in the file, or at the top after any directive ('use client')
+function addImport(content: string, statement: string): string {
+  const lines = content.split('\n');
+  let insertAfter = -1;
+  for (let index = 0; index < lines.length; index++) {
+    if (/^import\b/.test(lines[index])) {
+      // Multi-line imports end at the line naming the module
+      let end = index;
+      while (end < lines.length - 1 && !/['"];?\s*$/.test(lines[end])) {
+        end++;
+      }
+      insertAfter = end;
+      index = end;
+    } else if (insertAfter === -1 && /^\s*['"]use \w+['"];?\s*$/.test(lines[index])) {
+      insertAfter = index;
+    }
+  }
+  lines.splice(insertAfter + 1, 0, statement);
+  return lines.join('\n');
+}
+
+// Adds names to an existing named import from the module, or a new import statement
+function addNamedImports(content: string, module: string, names: string[]): string {
+  const existing = new RegExp(`import\\s*\\{([^}]*)\\}\\s*from\\s*['"]${module.replace(/[/.]/g, '\\$&')}['"]`).exec(content);
+  if (!existing) {
+    return addImport(content, `import { ${names.join(', ')} } from '${module}';`);
+  }
+  const imported = existing[1].split(',').map((name) => name.trim()).filter(Boolean);
+  const missing = names.filter((name) => !imported.some((entry) => entry.replace(/^type\s+/, '').split(/\s+as\s+/)[0] === name));
+  if (missing.length === 0) {
+    return content;
+  }
+  const merged = existing[0].replace(`{${existing[1]}}`, `{ ${[...imported, ...missing].join(', ')} }`);
+  return content.replace(existing[0], merged);
+}
+
+// Sets `key: 'value'` (key quoted or not) inside an object literal's source
+function setProperty(object: string, key: string, value: string): string {
+  const keyPattern = /^[a-z]+$/i.test(key) ? `['"]?${key}['"]?` : `['"]${key}['"]`;
+  const existing = new RegExp(`(${keyPattern}\\s*:\\s*)(['"\`])(?:(?!\\2)[^\\\\]|\\\\.)*\\2`).exec(object);
+  if (existing) {
+    return object.replace(existing[0], existing[1] + quoteString(value));
+  }
+  const property = /^[a-z]+$/i.test(key) ? key : quoteString(key);
+  return object.replace(/\s*\}$/, `, ${property}: ${quoteString(value)} }`);
+}
+
+function editNuxtConfig(variant: FrameworkVariant, content: string, attributes: TrackingAttributes): Edit {
+  const existing = /['"]data-website-id['"]\s*:/.exec(content);
+  if (existing) {
+    const start = content.lastIndexOf('{', existing.index);
+    const end = content.indexOf('}', existing.index);
+    if (start !== -1 && end !== -1) {
+      let entry = content.slice(start, end + 1);
+      for (const [name, value] of Object.entries(tagAttributes(attributes))) {
+        entry = setProperty(entry, name, value);
+      }
+      return { content: content.slice(0, start) + entry + content.slice(end + 1), note: 'updated the existing DataFa.st head script' };
+    }
+  }
+
+  const entry = `{ defer: true, 'data-website-id': ${quoteString(attributes.websiteId)}, 'data-domain': ${quoteString(attributes.domain)}, src: ${quoteString(attributes.scriptSrc)} }`;
+  const nuxt3 = variant.id === 'nuxt3';
+  // The innermost key that already exists decides what has to be added
+  const anchors: Array<{ pattern: RegExp; insert: string }> = [
+    { pattern: /\bscript\s*:\s*\[/, insert: `${entry},` },
+    { pattern: /\bhead\s*:\s*\{/, insert: `script: [${entry}],` },
+    ...(nuxt3 ? [{ pattern: /\bapp\s*:\s*\{/, insert: `head: { script: [${entry}] },` }] : []),
+    nuxt3
+      ? { pattern: /defineNuxtConfig\(\s*\{/, insert: `app: { head: { script: [${entry}] } },` }
+      : { pattern: /(export\s+default|module\.exports\s*=)\s*\{/, insert: `head: { script: [${entry}] },` },
+  ];
+  for (const { pattern, insert } of anchors) {
+    const match = pattern.exec(content);
+    if (match) {
+      return { content: insertAfterOpening(content, match.index + match[0].length, [insert]), note: `added the tracking script to ${nuxt3 ? 'app.head' : 'head'}.script` };
+    }
+  }
+  return { error: `No ${nuxt3 ? 'defineNuxtConfig({' : 'export default {'} found in the Nuxt config to add the tracking script to.` };
+}
+
+function editAngularConfig(content: string, attributes: TrackingAttributes): Edit {
+  if (/dataset(\[['"]websiteId['"]\]|\.websiteId)/.test(content)) {
+    const edited = content
+      .replace(/(dataset(?:\[['"]websiteId['"]\]|\.websiteId)\s*=\s*)(['"])(?:(?!\2).)*\2/, (_, prefix) => prefix + quoteString(attributes.websiteId))
+      .replace(/(dataset(?:\[['"]domain['"]\]|\.domain)\s*=\s*)(['"])(?:(?!\2).)*\2/, (_, prefix) => prefix + quoteString(attributes.domain))
+      .replace(/(\bscript\.src\s*=\s*)(['"])(?:(?!\2).)*\2/, (_, prefix) => prefix + quoteString(attributes.scriptSrc));
+    return { content: edited, note: 'updated the existing DataFa.st initializer' };
+  }
+  const providers = /\bproviders\s*:\s*\[/.exec(content);
+  if (!providers) {
+    return { error: 'No providers array found in app.config.ts to add the initializer to.' };
+  }
+  const initializer = [
+    'provideAppInitializer(() => {',
+    '  const document = inject(DOCUMENT);',
+    "  const script = document.createElement('script');",
+    '  script.defer = true;',
+    `  script.dataset['websiteId'] = ${quoteString(attributes.websiteId)};`,
+    `  script.dataset['domain'] = ${quoteString(attributes.domain)};`,
+    `  script.src = ${quoteString(attributes.scriptSrc)};`,
+    '  document.head.appendChild(script);',
+    '}),',
+  ];
+  let edited = insertAfterOpening(content, providers.index + providers[0].length, initializer);
+  edited = addNamedImports(edited, '@angular/core', ['inject', 'provideAppInitializer']);
+  edited = addNamedImports(edited, '@angular/common', ['DOCUMENT']);
+  return { content: edited, note: 'added an app initializer that loads the tracking script' };
+}
+
+// Proxy files the patch can merge into: vercel.json, _redirects, next.config.* and the Express middleware
+function proxyFileMatches(proxy: ProxyConfig, path: string): boolean {
+  const name = normalizePath(path).split('/').pop() ?? '';
+  switch (proxy.target) {
+    case 'vercel':
+      return name === 'vercel.json';
+    case 'netlify':
+      return name === '_redirects';
+    case 'nextjs':
+      return /^next\.config\.(js|mjs|cjs|ts)$/.test(name);
+    case 'express':
+      return name === 'datafast-proxy.js';
+    default:
+      return false;
+  }
+}
+
+const PROXIED_PATHS = ['/js/script.js', '/api/events'];
+
+function editProxyFile(proxy: ProxyConfig, content: string): Edit {
+  if (proxy.target === 'vercel') {
+    let config: { rewrites?: Array<{ source?: string }> };
+    try {
+      config = JSON.parse(content);
+    } catch {
+      return { error: 'vercel.json is not valid JSON; add the rewrites by hand.' };
+    }
+    const rewrites = config.rewrites ?? [];
+    const missing = PROXIED_PATHS.filter((source) => !rewrites.some((rewrite) => rewrite.source === source));
+    if (missing.length === 0) {
+      return { content, note: 'already rewrites the DataFa.st paths' };
+    }
+    // Ahead of any catch-all SPA rewrite
+    config.rewrites = [...missing.map((source) => ({ source, destination: `https://datafa.st${source}` })), ...rewrites];
+    return { content: `${JSON.stringify(config, null, 2)}\n`, note: 'added the DataFa.st rewrites' };
+  }
+
+  if (content.includes('datafa.st')) {
+    return { content, note: 'already proxies DataFa.st' };
+  }
+
+  if (proxy.target === 'netlify') {
+    // Above any catch-all rule such as /* /index.html 200
+    return { content: `${proxy.code}\n${content}`, note: 'added the DataFa.st redirects at the top' };
+  }
+
+  if (proxy.target === 'nextjs') {
+    if (/\brewrites\b/.test(content)) {
+      return { error: `next.config already defines rewrites; add ${PROXIED_PATHS.join(' and ')} → https://datafa.st to them by hand.` };
+    }
+    const config = /(nextConfig\b[^=\n]*=\s*\{|module\.exports\s*=\s*\{|export\s+default\s+\{|defineConfig\(\s*\{)/.exec(content);
+    if (!config) {
+      return { error: 'No config object found in next.config; add the rewrites by hand.' };
+    }
+    const rewrites = [
+      'async rewrites() {',
+      '  return [',
+      ...PROXIED_PATHS.map((source) => `    { source: '${source}', destination: 'https://datafa.st${source}' },`),
+      '  ];',
+      '},',
+    ];
+    return { content: insertAfterOpening(content, config.index + config[0].length, rewrites), note: 'added the DataFa.st rewrites' };
+  }
+
+  return { error: `Merge the ${proxy.name} proxy into ${proxy.file} by hand.` };
+}
+
+// Edits run on \n line endings; files written with \r\n keep them
+function withLineEndings(content: string, edit: (content: string) => Edit): Edit {
+  if (!content.includes('\r\n')) {
+    return edit(content);
+  }
+  const result = edit(content.replace(/\r\n/g, '\n'));
+  return 'error' in result ? result : { ...result, content: result.content.replace(/\n/g, '\r\n') };
+}
+
+// A unified diff of one file; `before` is undefined for a new file
+export function unifiedDiff(path: string, before: string | undefined, after: string): string {
+  const oldLines = splitLines(before ?? '');
+  const newLines = splitLines(after);
+  const operations = diffLines(oldLines.map((line) => line.key), newLines.map((line) => line.key));
+
+  let output = `--- ${before === undefined ? '/dev/null' : `a/${path}`}\n+++ b/${path}\n`;
+  // Group changes that are within two contexts' reach of each other into one hunk
+  let index = 0;
+  while (index < operations.length) {
+    if (operations[index].type === 'equal') {
+      index++;
+      continue;
+    }
+    const start = Math.max(0, index - DIFF_CONTEXT_LINES);
+    let end = index;
+    let lastChange = index;
+    while (end < operations.length && (operations[end].type !== 'equal' || end - lastChange <= DIFF_CONTEXT_LINES * 2)) {
+      if (operations[end].type !== 'equal') {
+        lastChange = end;
+      }
+      end++;
+    }
+    end = Math.min(operations.length, lastChange + DIFF_CONTEXT_LINES + 1);
+
+    const hunk = operations.slice(start, end);
+    const oldStart = hunk[0].oldIndex;
+    const newStart = hunk[0].newIndex;
+    const oldCount = hunk.filter((operation) => operation.type !== 'insert').length;
+    const newCount = hunk.filter((operation) => operation.type !== 'delete').length;
+    output += `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@\n`;
+    for (const operation of hunk) {
+      const line = operation.type === 'insert' ? newLines[operation.newIndex] : oldLines[operation.oldIndex];
+      output += `${operation.type === 'insert' ? '+' : operation.type === 'delete' ? '-' : ' '}${line.text}\n`;
+      if (line.noNewline) {
+        output += '\\ No newline at end of file\n';
+      }
+    }
+    index = end;
+  }
+  return output;
+}
+
+type Line = { text: string; key: string; noNewline: boolean };
+
+function splitLines(content: string): Line[] {
+  if (content === '') {
+    return [];
+  }
+  const texts = content.split('\n');
+  const trailingNewline = texts[texts.length - 1] === '';
+  if (trailingNewline) {
+    texts.pop();
+  }
+  return texts.map((text, index) => {
+    const noNewline = !trailingNewline && index === texts.length - 1;
+    // A last line without a newline differs from the same text with one
+    return { text, key: noNewline ? `${text}\u0000` : text, noNewline };
+  });
+}
+
+type Operation = { type: 'equal' | 'delete' | 'insert'; oldIndex: number; newIndex: number };
+
+// Longest-common-subsequence line diff; the shared prefix and suffix are skipped first, so the
+// table only covers the region that changed
+function diffLines(oldKeys: string[], newKeys: string[]): Operation[] {
+  let prefix = 0;
+  while (prefix < oldKeys.length && prefix < newKeys.length && oldKeys[prefix] === newKeys[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldKeys.length - prefix &&
+    suffix < newKeys.length - prefix &&
+    oldKeys[oldKeys.length - 1 - suffix] === newKeys[newKeys.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldKeys.slice(prefix, oldKeys.length - suffix);
+  const newMiddle = newKeys.slice(prefix, newKeys.length - suffix);
+  const columns = newMiddle.length + 1;
+  const lengths = new Uint32Array((oldMiddle.length + 1) * columns);
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] = oldMiddle[i] === newMiddle[j]
+        ? lengths[(i + 1) * columns + j + 1] + 1
+        : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+    }
+  }
+
+  const operations: Operation[] = [];
+  for (let k = 0; k < prefix; k++) {
+    operations.push({ type: 'equal', oldIndex: k, newIndex: k });
+  }
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      operations.push({ type: 'equal', oldIndex: prefix + i++, newIndex: prefix + j++ });
+    } else if (i < oldMiddle.length && (j === newMiddle.length || lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])) {
+      // Deletions before insertions, as git prints them
+      operations.push({ type: 'delete', oldIndex: prefix + i++, newIndex: prefix + j });
+    } else {
+      operations.push({ type: 'insert', oldIndex: prefix + i, newIndex: prefix + j++ });
+    }
+  }
+  for (let k = 0; k < suffix; k++) {
+    operations.push({ type: 'equal', oldIndex: oldKeys.length - suffix + k, newIndex: newKeys.length - suffix + k });
+  }
+  return operations;
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { checkInstallation, findDataFastScript, type InstallationCheckId } from "./installation-check";
+
+// The checks run against a fake site: each URL maps to a response or a redirect, anything else is a 404
+
+type FakeResponse = { status?: number; body?: string; contentType?: string } | { redirect: string } | Error;
+
+const DIRECT_TAG = '<script defer data-website-id="site_1" data-domain="example.com" src="https://datafa.st/js/script.js"></script>';
+const PROXIED_TAG = '<script defer data-website-id="site_1" data-domain="example.com" src="/js/script.js"></script>';
+const JS = { body: 'console.log(1)', contentType: 'application/javascript' };
+const NOT_FOUND = { status: 404, body: 'Not found', contentType: 'text/plain' };
+
+function page(head: string): FakeResponse {
+  return { body: `<!doctype html><html><head>${head}</head><body></body></html>`, contentType: 'text/html; charset=utf-8' };
+}
+
+function fakeSite(routes: Record<string, FakeResponse>) {
+  const requested: string[] = [];
+  const fetcher = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    let url = String(input);
+    requested.push(`${init?.method ?? 'GET'} ${url}`);
+    let route = routes[url] ?? NOT_FOUND;
+    // Followed like redirect: 'follow' does, leaving the final URL on the response
+    while ('redirect' in route) {
+      url = route.redirect;
+      route = routes[url] ?? NOT_FOUND;
+    }
+    if (route instanceof Error) {
+      throw route;
+    }
+    const response = new Response(route.body ?? '', { status: route.status ?? 200, headers: { 'Content-Type': route.contentType ?? 'text/plain' } });
+    Object.defineProperty(response, 'url', { value: url });
+    return response;
+  }) as typeof fetch;
+  return { fetcher, requested };
+}
+
+function results(checks: Array<{ id: InstallationCheckId; passed: boolean }>) {
+  return Object.fromEntries(checks.map((check) => [check.id, check.passed]));
+}
+
+describe('checkInstallation', () => {
+  it('passes a page that loads the script directly from DataFa.st', async () => {
+    const { fetcher, requested } = fakeSite({
+      'https://example.com/': page(DIRECT_TAG),
+      'https://datafa.st/js/script.js': JS,
+    });
+    const report = await checkInstallation({ domain: 'example.com', websiteId: 'site_1', useProxy: false, fetcher });
+
+    expect(results(report.checks)).toEqual({ page: true, script_tag: true, website_id: true, domain: true, script_src: true });
+    expect(report.usesProxy).toBe(false);
+    expect(report.scriptSrc).toBe('https://datafa.st/js/script.js');
+    expect(requested).toEqual(['GET https://example.com/', 'GET https://datafa.st/js/script.js']);
+  });
+
+  it('checks the events route when the script is proxied through the site', async () => {
+    const { fetcher } = fakeSite({
+      'https://example.com/': page(PROXIED_TAG),
+      'https://example.com/js/script.js': JS,
+      'https://example.com/api/events': { status: 405, contentType: 'application/json' },
+    });
+    const report = await checkInstallation({ domain: 'example.com', websiteId: 'site_1', useProxy: true, fetcher });
+
+    expect(results(report.checks)).toMatchObject({ script_src: true, events_proxy: true });
+    expect(report.usesProxy).toBe(true);
+  });
+
+  it('passes the events route when the proxy forwards a non-HTML error for GET', async () => {
+    const { fetcher } = fakeSite({
+      'https://example.com/': page(PROXIED_TAG),
+      'https://example.com/js/script.js': JS,
+      'https://example.com/api/events': { status: 404, body: '{"error":"Not found"}', contentType: 'application/json' },
+    });
+    const report = await checkInstallation({ domain: 'example.com', websiteId: 'site_1', useProxy: true, fetcher });
+
+    expect(results(report.checks)).toMatchObject({ events_proxy: true });
+  });
+
+  it('resolves the script src and the events route against the page it was redirected to', async () => {
+    const { fetcher, requested } = fakeSite({
+      'https://example.com/': { redirect: 'https://www.example.com/' },
+      'https://www.example.com/': page('<script defer data-website-id="site_1" data-domain="example.com" src="https://www.example.com/js/script.js"></script>'),
+      'https://www.example.com/js/script.js': JS,
+      'https://www.example.com/api/events': { status: 405, contentType: 'application/json' },
+    });
+    const report = await checkInstallation({ domain: 'example.com', websiteId: 'site_1', useProxy: true, fetcher });
+
+    expect(results(report.checks)).toEqual({ page: true, script_tag: true, website_id: true, domain: true, script_src: true, events_proxy: true });
+    expect(report.usesProxy).toBe(true);
+    expect(report.checks[0].evidence).toBe('GET https://example.com/ → 200 (redirected to https://www.example.com/)');
+    expect(requested).toContain('GET https://www.example.com/api/events');
+  });
+
+  it("fails the proxy checks when the routes fall through to the app's HTML page", async () => {
+    const { fetcher } = fakeSite({
+      'https://example.com/': page(PROXIED_TAG),
+      'https://example.com/js/script.js': page(''),
+      'https://example.com/api/events': page(''),
+    });
+    const report = await checkInstallation({ domain: 'example.com', websiteId: 'site_1', useProxy: true, fetcher });
+
+    expect(results(report.checks)).toMatchObject({ script_src: false, events_proxy: false });
+    expect(report.checks.find((check) => check.id === 'events_proxy')?.evidence).toContain('catch-all');
+  });
+
+  it('fails script_src when a proxy was expected but the tag loads DataFa.st directly', async () => {
+    const { fetcher } = fakeSite({
+      'https://example.com/': page(DIRECT_TAG),
+      'https://datafa.st/js/script.js': JS,
+      'https://example.com/api/events': { status: 404, ...page('') },
+    });
+    const report = await checkInstallation({ domain: 'example.com', websiteId: 'site_1', useProxy: true, fetcher });
+
+    const scriptSrc = report.checks.find((check) => check.id === 'script_src');
+    expect(scriptSrc?.passed).toBe(false);
+    expect(scriptSrc?.evidence).toContain('proxy setup was expected');
+    expect(results(report.checks).events_proxy).toBe(false);
+  });
+
+  it('reports mismatched website ID and domain attributes', async () => {
+    const { fetcher } = fakeSite({
+      'https://example.com/': page('<script defer data-website-id="other" data-domain="Other.com" src="https://datafa.st/js/script.js"></script>'),
+      'https://datafa.st/js/script.js': JS,
+    });
+    const report = await checkInstallation({ domain: 'example.com', websiteId: 'site_1', useProxy: false, fetcher });
+
+    expect(results(report.checks)).toMatchObject({ website_id: false, domain: false });
+    expect(report.checks.find((check) => check.id === 'website_id')?.evidence).toBe('data-website-id="other" (expected "site_1")');
+  });
+
+  it('stops after the page check when the page fails or cannot be reached', async () => {
+    const notFound = await checkInstallation({
+      domain: 'example.com',
+      websiteId: 'site_1',
+      useProxy: false,
+      fetcher: fakeSite({}).fetcher,
+    });
+    expect(notFound.checks).toHaveLength(1);
+    expect(notFound.checks[0]).toMatchObject({ id: 'page', passed: false, evidence: 'GET https://example.com/ → 404' });
+
+    const unreachable = await checkInstallation({
+      domain: 'example.com',
+      websiteId: 'site_1',
+      useProxy: false,
+      fetcher: fakeSite({ 'https://example.com/': new TypeError('fetch failed') }).fetcher,
+    });
+    expect(unreachable.checks).toEqual([
+      { id: 'page', label: 'Website reachable', passed: false, evidence: 'GET https://example.com/ failed: fetch failed' },
+    ]);
+  });
+
+  it('inspects the given URL instead of the domain root', async () => {
+    const { fetcher, requested } = fakeSite({ 'http://localhost:3000/pricing': page('') });
+    const report = await checkInstallation({ domain: 'example.com', websiteId: 'site_1', useProxy: false, url: 'http://localhost:3000/pricing', fetcher });
+
+    expect(requested).toEqual(['GET http://localhost:3000/pricing']);
+    expect(results(report.checks)).toEqual({ page: true, script_tag: false });
+  });
+});
+
+describe('findDataFastScript', () => {
+  it('finds the tag by data-website-id, by a DataFa.st src or by the proxied path', () => {
+    expect(findDataFastScript(`<script src="/app.js"></script>${DIRECT_TAG}`)?.attributes['data-website-id']).toBe('site_1');
+    expect(findDataFastScript("<script src='//datafa.st/js/script.js' defer></script>")?.attributes.src).toBe('//datafa.st/js/script.js');
+    expect(findDataFastScript('<script src="/js/script.js?v=2"></script>')).toBeDefined();
+    expect(findDataFastScript('<script src="/js/other.js"></script>')).toBeUndefined();
+  });
+});
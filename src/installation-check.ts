@@ -0,0 +1,197 @@
+// Live checks run by validate_installation against the deployed site
+
+export type InstallationCheckId = 'page' | 'script_tag' | 'website_id' | 'domain' | 'script_src' | 'events_proxy';
+
+export type InstallationCheck = {
+  id: InstallationCheckId;
+  label: string;
+  passed: boolean;
+  evidence: string;
+};
+
+export type InstallationReport = {
+  pageUrl: string;
+  scriptSrc?: string;
+  usesProxy?: boolean;
+  checks: InstallationCheck[];
+};
+
+export type InstallationCheckOptions = {
+  domain: string;
+  websiteId: string;
+  useProxy: boolean;
+  // Page to inspect; defaults to https://{domain}/ (use e.g. http://localhost:3000 for a local server)
+  url?: string;
+  timeoutMs?: number;
+  fetcher?: typeof fetch;
+};
+
+type ScriptTag = {
+  raw: string;
+  attributes: Record<string, string>;
+};
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DATAFAST_SCRIPT = /(^|\/\/)(www\.)?datafa\.st\/js\/script\.js/i;
+
+export async function checkInstallation(options: InstallationCheckOptions): Promise<InstallationReport> {
+  const { domain, websiteId, useProxy, timeoutMs = DEFAULT_TIMEOUT_MS, fetcher = fetch } = options;
+  const pageUrl = options.url ?? `https://${domain}/`;
+  const checks: InstallationCheck[] = [];
+  const report: InstallationReport = { pageUrl, checks };
+
+  const request = (url: string, init: RequestInit = {}) =>
+    fetcher(url, { redirect: 'follow', ...init, signal: AbortSignal.timeout(timeoutMs) });
+
+  // 1. The page itself. Relative script srcs and the proxy routes resolve against the URL the page
+  // was finally served from, e.g. https://www.example.com/ after a redirect from the bare domain
+  let html: string;
+  let finalUrl: string;
+  try {
+    const response = await request(pageUrl, { headers: { Accept: 'text/html' } });
+    html = await response.text();
+    finalUrl = response.url || pageUrl;
+    const redirected = finalUrl !== pageUrl ? ` (redirected to ${finalUrl})` : '';
+    checks.push({
+      id: 'page',
+      label: 'Website reachable',
+      passed: response.ok,
+      evidence: `GET ${pageUrl} → ${statusLine(response)}${redirected}`,
+    });
+    if (!response.ok) {
+      return report;
+    }
+  } catch (error) {
+    checks.push({ id: 'page', label: 'Website reachable', passed: false, evidence: `GET ${pageUrl} failed: ${describeError(error)}` });
+    return report;
+  }
+
+  // 2. The DataFa.st script tag
+  const tag = findDataFastScript(html);
+  if (!tag) {
+    const mentioned = /datafa\.st|data-website-id/i.test(html);
+    checks.push({
+      id: 'script_tag',
+      label: 'DataFa.st script tag present',
+      passed: false,
+      evidence: mentioned
+        ? 'The page mentions DataFa.st but no <script> tag with data-website-id or a DataFa.st src was found (client-side injected scripts are not visible in server HTML)'
+        : 'No DataFa.st <script> tag found in the page HTML',
+    });
+    return report;
+  }
+  checks.push({ id: 'script_tag', label: 'DataFa.st script tag present', passed: true, evidence: tag.raw });
+
+  // 3. Attributes match the inputs
+  const foundWebsiteId = tag.attributes['data-website-id'];
+  checks.push({
+    id: 'website_id',
+    label: 'data-website-id matches',
+    passed: foundWebsiteId === websiteId,
+    evidence: foundWebsiteId === undefined ? 'data-website-id attribute is missing' : `data-website-id="${foundWebsiteId}" (expected "${websiteId}")`,
+  });
+
+  const foundDomain = tag.attributes['data-domain'];
+  checks.push({
+    id: 'domain',
+    label: 'data-domain matches',
+    passed: foundDomain?.toLowerCase() === domain.toLowerCase(),
+    evidence: foundDomain === undefined ? 'data-domain attribute is missing' : `data-domain="${foundDomain}" (expected "${domain}")`,
+  });
+
+  // 4. The script source resolves to JavaScript
+  const src = tag.attributes.src;
+  if (!src) {
+    checks.push({ id: 'script_src', label: 'Script source resolves', passed: false, evidence: 'The script tag has no src attribute' });
+    return report;
+  }
+  const scriptUrl = new URL(src, finalUrl);
+  const usesProxy = scriptUrl.origin === new URL(finalUrl).origin;
+  report.scriptSrc = scriptUrl.toString();
+  report.usesProxy = usesProxy;
+
+  const scriptCheck = await probe(request, scriptUrl.toString(), 'GET', /javascript|ecmascript/i);
+  let scriptEvidence = `${usesProxy ? 'Proxied' : 'Direct'} src ${scriptUrl} → ${scriptCheck.evidence}`;
+  if (useProxy && !usesProxy) {
+    scriptEvidence += '; proxy setup was expected but the tag loads the script directly from DataFa.st';
+  }
+  checks.push({
+    id: 'script_src',
+    label: 'Script source resolves',
+    passed: scriptCheck.passed && (usesProxy || !useProxy),
+    evidence: scriptEvidence,
+  });
+
+  // 5. The events proxy route (only meaningful when the script is served from the site itself).
+  // Events are POSTed, so a GET only has to reach DataFa.st: any answer passes except the site's own
+  // HTML (its 404 or catch-all page) and 5xx errors
+  if (usesProxy || useProxy) {
+    const eventsUrl = new URL('/api/events', finalUrl).toString();
+    const eventsCheck = await probe(request, eventsUrl, 'GET');
+    checks.push({ id: 'events_proxy', label: 'Events proxy route', passed: eventsCheck.passed, evidence: `GET ${eventsUrl} → ${eventsCheck.evidence}` });
+  }
+
+  return report;
+}
+
+export function findDataFastScript(html: string): ScriptTag | undefined {
+  for (const match of html.matchAll(/<script\b([^>]*)>/gi)) {
+    const attributes = parseAttributes(match[1]);
+    const src = attributes.src ?? '';
+    if ('data-website-id' in attributes || DATAFAST_SCRIPT.test(src) || /^\/js\/script\.js(\?|$)/.test(src)) {
+      return { raw: match[0], attributes };
+    }
+  }
+  return undefined;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+// A route is proxied when it does not answer with the site's own HTML, which is what unknown paths
+// get from the site (its 404 page or catch-all route)
+async function probe(
+  request: (url: string, init?: RequestInit) => Promise<Response>,
+  url: string,
+  method: string,
+  expectedType?: RegExp
+): Promise<{ passed: boolean; evidence: string }> {
+  try {
+    const response = await request(url, { method });
+    const contentType = response.headers.get('content-type') ?? 'no content-type';
+    await response.body?.cancel();
+    const evidence = `${statusLine(response)} (${contentType})`;
+
+    if (/text\/html/i.test(contentType)) {
+      return {
+        passed: false,
+        evidence: `${evidence}; returned an HTML page, likely the site's ${response.ok ? 'catch-all route' : 'error page'} rather than a proxy`,
+      };
+    }
+    if (expectedType && !(response.ok && expectedType.test(contentType))) {
+      return { passed: false, evidence: `${evidence}; expected a JavaScript response` };
+    }
+    if (response.status >= 500) {
+      return { passed: false, evidence: `${evidence}; upstream error` };
+    }
+    return { passed: true, evidence };
+  } catch (error) {
+    return { passed: false, evidence: `request failed: ${describeError(error)}` };
+  }
+}
+
+function statusLine(response: Response): string {
+  return [response.status, response.statusText].filter(Boolean).join(' ');
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.name === 'TimeoutError' ? 'timed out' : error.message;
+  }
+  return String(error);
+}
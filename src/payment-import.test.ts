@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { detectProvider, parseAmount, planPaymentImport } from "./payment-import";
+
+describe('parseAmount', () => {
+  it('reads major-unit amounts with either decimal separator', () => {
+    expect(parseAmount('29.99', 'USD', 'major')).toBe(29.99);
+    expect(parseAmount('$1,299.00', 'USD', 'major')).toBe(1299);
+    expect(parseAmount('1.299,00', 'EUR', 'major')).toBe(1299);
+    expect(parseAmount('29,99', 'EUR', 'major')).toBe(29.99);
+    expect(parseAmount('n/a', 'USD', 'major')).toBeUndefined();
+  });
+
+  it("converts minor units with the currency's decimals", () => {
+    expect(parseAmount('2999', 'USD', 'minor')).toBe(29.99);
+    expect(parseAmount('2999', 'JPY', 'minor')).toBe(2999);
+    expect(parseAmount('12345', 'KWD', 'minor')).toBe(12.345);
+    expect(parseAmount('1,299', 'USD', 'minor')).toBe(12.99);
+  });
+
+  it('rejects minor-unit amounts with a fractional part instead of rounding them', () => {
+    expect(parseAmount('29.99', 'USD', 'minor')).toBeUndefined();
+    expect(parseAmount('2999.5', 'USD', 'minor')).toBeUndefined();
+    expect(parseAmount('29,99', 'EUR', 'minor')).toBeUndefined();
+  });
+});
+
+describe('planPaymentImport', () => {
+  const STRIPE_API_EXPORT = [
+    'id,amount,currency,status,payment_intent,balance_transaction,metadata.datafast_visitor_id,customer_email',
+    'ch_1,2999,usd,succeeded,pi_1,txn_1,visitor-1,a@example.com',
+    'ch_2,1000,usd,failed,pi_2,txn_2,visitor-2,b@example.com',
+    'ch_3,500,usd,succeeded,pi_3,txn_3,,c@example.com',
+    'ch_4,12.5,usd,succeeded,pi_4,txn_4,visitor-4,d@example.com',
+  ].join('\n');
+
+  it('detects a Stripe API export and reads its amounts as cents', () => {
+    const plan = planPaymentImport({ csv: STRIPE_API_EXPORT });
+
+    expect(plan.provider).toBe('stripe');
+    expect(plan.amountUnit).toBe('minor');
+    expect(plan.mapping).toMatchObject({ visitorId: 'metadata.datafast_visitor_id', amount: 'amount', transactionId: 'id' });
+    expect(plan.rows.map((row) => [row.row, row.status])).toEqual([
+      [2, 'ready'],
+      [3, 'skipped'],
+      [4, 'skipped'],
+      [5, 'invalid'],
+    ]);
+    expect(plan.rows[0].input).toEqual({ visitorId: 'visitor-1', amount: 29.99, currency: 'USD', transactionId: 'ch_1', email: 'a@example.com' });
+    expect(plan.rows[1].reason).toBe('payment status is "failed"');
+    expect(plan.rows[2].reason).toBe('no DataFa.st visitor ID');
+    expect(plan.rows[3].reason).toBe('amount: "12.5" is not a whole number of minor units (e.g. cents)');
+  });
+
+  it('imports a repeated transaction ID from its first row only', () => {
+    const plan = planPaymentImport({
+      csv: 'visitorId,amount,currency,transactionId\nvisitor-1,10,USD,tx_1\nvisitor-1,10,USD,tx_1\nvisitor-2,20,USD,tx_2\nvisitor-1,15,USD,tx_1',
+    });
+
+    expect(plan.provider).toBe('custom');
+    expect(plan.rows.map((row) => row.status)).toEqual(['ready', 'skipped', 'ready', 'skipped']);
+    expect(plan.rows[1]).toMatchObject({ reason: 'transaction ID already imported from row 2', input: undefined });
+    expect(plan.rows[3].reason).toBe('transaction ID already imported from row 2');
+  });
+
+  it('applies mapping overrides and rejects unknown columns', () => {
+    const csv = 'who,total,cur,ref\nvisitor-1,"1.299,00",EUR,order-1';
+    const plan = planPaymentImport({ csv, mapping: { visitorId: 'who', currency: 'cur', transactionId: 'ref' } });
+
+    expect(plan.rows[0].input).toMatchObject({ visitorId: 'visitor-1', amount: 1299, currency: 'EUR', transactionId: 'order-1' });
+    expect(() => planPaymentImport({ csv, mapping: { visitorId: 'visitor' } })).toThrow('mapping.visitorId refers to column "visitor"');
+  });
+
+  it('detects Lemon Squeezy and Paddle exports by their columns', () => {
+    expect(detectProvider(['identifier', 'order_number', 'total', 'currency', 'store_id'])).toBe('lemonsqueezy');
+    expect(detectProvider(['Transaction ID', 'Grand Total', 'Currency Code', 'Origin'])).toBe('paddle');
+    expect(detectProvider(['amount', 'currency'])).toBe('custom');
+  });
+});
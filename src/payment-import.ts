@@ -0,0 +1,314 @@
+import { z } from "zod";
+import { type CsvRecord, parseCsvRecords } from "./csv";
+import { currencyDecimals, formatValidationIssues, type PaymentInput, paymentInputSchema } from "./validation";
+
+// Maps payment-provider CSV exports onto create_payment fields
+
+export const PAYMENT_PROVIDERS = ['stripe', 'lemonsqueezy', 'paddle', 'custom'] as const;
+export type PaymentProvider = (typeof PAYMENT_PROVIDERS)[number];
+
+export const IMPORT_FIELDS = [
+  'visitorId', 'amount', 'currency', 'transactionId', 'customerId', 'email', 'name', 'renewal', 'refunded', 'status',
+] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export type AmountUnit = 'major' | 'minor';
+
+export const PAYMENT_IMPORT_PREVIEW_ROWS = 20;
+export const PAYMENT_IMPORT_MAX_ROWS = 1000;
+
+export const importMappingSchema = z.object({
+  visitorId: z.string().optional(),
+  amount: z.string().optional(),
+  currency: z.string().optional(),
+  transactionId: z.string().optional(),
+  customerId: z.string().optional(),
+  email: z.string().optional(),
+  name: z.string().optional(),
+  renewal: z.string().optional(),
+  refunded: z.string().optional(),
+  status: z.string().optional(),
+});
+
+type ProviderPreset = {
+  name: string;
+  // Candidate column names per field, first match wins (compared case-sensitively, then case-insensitively)
+  columns: Partial<Record<ImportField, string[]>>;
+  // Columns whose values are exported in minor units (e.g. cents) rather than major units
+  minorUnitColumns: string[];
+  // Values in the renewal column that mean "this is a renewal", beyond plain booleans
+  renewalValues?: RegExp;
+};
+
+const PRESETS: Record<PaymentProvider, ProviderPreset> = {
+  stripe: {
+    name: 'Stripe',
+    columns: {
+      visitorId: ['datafast_visitor_id (metadata)', 'metadata.datafast_visitor_id', 'datafast_visitor_id'],
+      amount: ['Amount', 'amount'],
+      currency: ['Currency', 'currency'],
+      transactionId: ['id', 'Payment ID', 'payment_intent', 'charge_id'],
+      customerId: ['Customer ID', 'customer', 'customer_id'],
+      email: ['Customer Email', 'customer_email', 'receipt_email'],
+      name: ['Customer Name', 'Customer Description', 'customer_name'],
+      renewal: ['billing_reason', 'Billing Reason'],
+      refunded: ['Refunded', 'refunded'],
+      status: ['Status', 'status'],
+    },
+    // Dashboard exports use "Amount" in major units; API/Sigma exports use "amount" in cents
+    minorUnitColumns: ['amount'],
+    renewalValues: /^subscription_cycle$/i,
+  },
+  lemonsqueezy: {
+    name: 'Lemon Squeezy',
+    columns: {
+      visitorId: ['datafast_visitor_id', 'Custom Data: datafast_visitor_id', 'custom_data.datafast_visitor_id'],
+      amount: ['Total', 'total'],
+      currency: ['Currency', 'currency'],
+      transactionId: ['Order ID', 'identifier', 'order_id', 'id'],
+      customerId: ['Customer ID', 'customer_id'],
+      email: ['Email', 'user_email', 'Customer Email'],
+      name: ['Customer Name', 'Name', 'user_name'],
+      renewal: ['billing_reason', 'Billing Reason'],
+      refunded: ['Refunded', 'refunded'],
+      status: ['Status', 'status'],
+    },
+    minorUnitColumns: ['total'],
+    renewalValues: /^renewal$/i,
+  },
+  paddle: {
+    name: 'Paddle',
+    columns: {
+      visitorId: ['datafast_visitor_id', 'custom_data.datafast_visitor_id', 'Custom Data: datafast_visitor_id'],
+      amount: ['Grand Total', 'Total', 'grand_total', 'details.totals.grand_total'],
+      currency: ['Currency Code', 'Currency', 'currency_code'],
+      transactionId: ['Transaction ID', 'id', 'transaction_id'],
+      customerId: ['Customer ID', 'customer_id'],
+      email: ['Customer Email', 'Email', 'customer_email'],
+      name: ['Customer Name', 'customer_name'],
+      renewal: ['Origin', 'origin'],
+      refunded: ['Refunded', 'refunded'],
+      status: ['Status', 'status'],
+    },
+    // Paddle Billing API exports totals as strings in the lowest denomination
+    minorUnitColumns: ['grand_total', 'details.totals.grand_total'],
+    renewalValues: /^subscription_recurring$/i,
+  },
+  custom: {
+    name: 'Custom CSV',
+    columns: {
+      visitorId: ['visitorId', 'visitor_id', 'datafast_visitor_id'],
+      amount: ['amount', 'Amount', 'total', 'Total'],
+      currency: ['currency', 'Currency'],
+      transactionId: ['transactionId', 'transaction_id', 'id', 'order_id'],
+      customerId: ['customerId', 'customer_id'],
+      email: ['email', 'Email'],
+      name: ['name', 'Name', 'customer_name'],
+      renewal: ['renewal', 'Renewal'],
+      refunded: ['refunded', 'Refunded'],
+      status: ['status', 'Status'],
+    },
+    minorUnitColumns: [],
+  },
+};
+
+// Signature columns used to recognise an export when no provider is given
+const PROVIDER_FINGERPRINTS: Array<{ provider: PaymentProvider; columns: string[] }> = [
+  { provider: 'stripe', columns: ['Amount Refunded', 'Captured', 'Converted Amount', 'Customer Description', 'payment_intent', 'balance_transaction'] },
+  { provider: 'lemonsqueezy', columns: ['Order Number', 'identifier', 'order_number', 'Subtotal', 'Tax Name', 'store_id'] },
+  { provider: 'paddle', columns: ['Transaction ID', 'Grand Total', 'Origin', 'Currency Code', 'Billing Period Starts At', 'origin'] },
+];
+
+const UNPAID_STATUS = /^(failed|canceled|cancelled|incomplete|pending|void|draft|requires_\w+|past_due)$/i;
+const REFUNDED_STATUS = /refund/i;
+
+export type PaymentImportOptions = {
+  csv: string;
+  provider?: PaymentProvider;
+  mapping?: Partial<Record<ImportField, string>>;
+  amountUnit?: AmountUnit;
+};
+
+export type PaymentImportRow = {
+  row: number;
+  status: 'ready' | 'skipped' | 'invalid';
+  input?: PaymentInput;
+  reason?: string;
+  visitorId?: string;
+  transactionId?: string;
+};
+
+export type PaymentImportPlan = {
+  provider: PaymentProvider;
+  providerName: string;
+  headers: string[];
+  mapping: Partial<Record<ImportField, string>>;
+  amountUnit: AmountUnit;
+  rows: PaymentImportRow[];
+};
+
+export function planPaymentImport(options: PaymentImportOptions): PaymentImportPlan {
+  const { headers, records } = parseCsvRecords(options.csv);
+  if (headers.length === 0) {
+    throw new Error('The CSV is empty');
+  }
+
+  const provider = options.provider ?? detectProvider(headers);
+  const preset = PRESETS[provider];
+
+  const mapping: Partial<Record<ImportField, string>> = {};
+  for (const field of IMPORT_FIELDS) {
+    const override = options.mapping?.[field];
+    if (override !== undefined) {
+      if (!headers.includes(override)) {
+        throw new Error(`mapping.${field} refers to column "${override}", which is not in the CSV header (${headers.join(', ')})`);
+      }
+      mapping[field] = override;
+      continue;
+    }
+    const column = findColumn(headers, preset.columns[field] ?? []);
+    if (column) {
+      mapping[field] = column;
+    }
+  }
+
+  const amountUnit =
+    options.amountUnit ?? (mapping.amount && preset.minorUnitColumns.includes(mapping.amount) ? 'minor' : 'major');
+
+  return {
+    provider,
+    providerName: preset.name,
+    headers,
+    mapping,
+    amountUnit,
+    rows: skipRepeatedTransactions(records.map((record) => mapRecord(record, mapping, amountUnit, preset))),
+  };
+}
+
+// A transaction ID is imported from its first ready row only, so repeated rows of one export are
+// never sent alongside it
+function skipRepeatedTransactions(rows: PaymentImportRow[]): PaymentImportRow[] {
+  const firstRows = new Map<string, number>();
+  return rows.map((row) => {
+    if (row.status !== 'ready' || !row.input) {
+      return row;
+    }
+    const first = firstRows.get(row.input.transactionId);
+    if (first !== undefined) {
+      return { ...row, status: 'skipped', input: undefined, reason: `transaction ID already imported from row ${first}` };
+    }
+    firstRows.set(row.input.transactionId, row.row);
+    return row;
+  });
+}
+
+export function detectProvider(headers: string[]): PaymentProvider {
+  let best: PaymentProvider = 'custom';
+  let bestMatches = 1;
+  for (const { provider, columns } of PROVIDER_FINGERPRINTS) {
+    const matches = columns.filter((column) => headers.includes(column)).length;
+    if (matches > bestMatches) {
+      best = provider;
+      bestMatches = matches;
+    }
+  }
+  return best;
+}
+
+function mapRecord(
+  record: CsvRecord,
+  mapping: Partial<Record<ImportField, string>>,
+  amountUnit: AmountUnit,
+  preset: ProviderPreset
+): PaymentImportRow {
+  const value = (field: ImportField) => (mapping[field] ? record.values[mapping[field]] ?? '' : '');
+  const visitorId = value('visitorId');
+  const transactionId = value('transactionId');
+  const base = { row: record.row, visitorId: visitorId || undefined, transactionId: transactionId || undefined };
+
+  if (!visitorId) {
+    return { ...base, status: 'skipped', reason: 'no DataFa.st visitor ID' };
+  }
+
+  const status = value('status');
+  if (UNPAID_STATUS.test(status)) {
+    return { ...base, status: 'skipped', reason: `payment status is "${status}"` };
+  }
+
+  const currency = value('currency').toUpperCase();
+  const amount = parseAmount(value('amount'), currency, amountUnit);
+  if (amount === undefined) {
+    const expected = amountUnit === 'minor' ? 'a whole number of minor units (e.g. cents)' : 'a number';
+    return { ...base, status: 'invalid', reason: `amount: "${value('amount')}" is not ${expected}` };
+  }
+
+  const parsed = paymentInputSchema.safeParse({
+    visitorId,
+    amount,
+    currency,
+    transactionId,
+    email: value('email') || undefined,
+    name: value('name') || undefined,
+    customerId: value('customerId') || undefined,
+    renewal: parseFlag(value('renewal'), preset.renewalValues),
+    refunded: parseFlag(value('refunded')) || REFUNDED_STATUS.test(status) || undefined,
+  });
+
+  if (!parsed.success) {
+    return { ...base, status: 'invalid', reason: formatValidationIssues(parsed.error).join('; ') };
+  }
+  return { ...base, status: 'ready', input: parsed.data };
+}
+
+// Accepts "29.99", "$1,299.00", "1.299,00" and minor-unit integers such as "2999". Minor-unit
+// amounts with a fractional part are rejected rather than rounded, since they point at a wrong unit
+export function parseAmount(raw: string, currency: string, unit: AmountUnit): number | undefined {
+  let cleaned = raw.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) {
+    return undefined;
+  }
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > lastDot && cleaned.length - lastComma - 1 !== 3) {
+    // Comma is the decimal separator ("1.299,00" or "29,99")
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else {
+    cleaned = cleaned.replace(/,/g, '');
+  }
+
+  const amount = Number(cleaned);
+  if (!Number.isFinite(amount)) {
+    return undefined;
+  }
+  if (unit === 'major') {
+    return amount;
+  }
+  if (!Number.isInteger(amount)) {
+    return undefined;
+  }
+  const decimals = currencyDecimals(currency);
+  return Number((amount / 10 ** decimals).toFixed(decimals));
+}
+
+function parseFlag(raw: string, extra?: RegExp): boolean | undefined {
+  if (raw === '') {
+    return undefined;
+  }
+  return /^(true|yes|y|1)$/i.test(raw) || (extra?.test(raw) ?? false);
+}
+
+function findColumn(headers: string[], candidates: string[]): string | undefined {
+  for (const candidate of candidates) {
+    if (headers.includes(candidate)) {
+      return candidate;
+    }
+  }
+  for (const candidate of candidates) {
+    const match = headers.find((header) => header.toLowerCase() === candidate.toLowerCase());
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { PaymentPayload, PaymentResult } from "./datafast-client";
+import { PaymentLedger } from "./payment-ledger";
+import type { SqlTag } from "./types";
+
+// In-memory stand-in for the Durable Object's SQLite, covering the queries submit() runs
+function memorySql(): SqlTag {
+  const rows = new Map<string, Record<string, string | number | boolean | null>>();
+  return ((strings: TemplateStringsArray, ...values: (string | number | boolean | null)[]) => {
+    const query = strings.join('?').trim();
+    if (query.startsWith('INSERT OR REPLACE INTO payment_ledger')) {
+      const [transaction_id, visitor_id, payload_hash, payload, result, recorded_at] = values;
+      rows.set(String(transaction_id), { transaction_id, visitor_id, payload_hash, payload, result, recorded_at });
+    } else if (query.includes('FROM payment_ledger WHERE transaction_id = ?')) {
+      const row = rows.get(String(values[0]));
+      return row ? [row] : [];
+    }
+    return [];
+  }) as SqlTag;
+}
+
+const PAYMENT: PaymentPayload = { datafast_visitor_id: 'visitor-1', amount: 10, currency: 'USD', transaction_id: 'tx_1' };
+
+// Resolves after a tick, so concurrent submissions overlap while the first one is in flight
+function slowSend(sent: PaymentPayload[]) {
+  return async (payload: PaymentPayload): Promise<PaymentResult> => {
+    sent.push(payload);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    return { transaction_id: payload.transaction_id, message: 'Payment recorded' };
+  };
+}
+
+describe('PaymentLedger.submit', () => {
+  it('sends concurrent submissions of the same payment once and replays the result', async () => {
+    const ledger = new PaymentLedger(memorySql());
+    const sent: PaymentPayload[] = [];
+
+    const [first, second] = await Promise.all([ledger.submit(PAYMENT, slowSend(sent)), ledger.submit(PAYMENT, slowSend(sent))]);
+
+    expect(sent).toHaveLength(1);
+    expect(first.status).toBe('recorded');
+    expect(second.status).toBe('replayed');
+  });
+
+  it('flags a concurrent submission with other details as a conflict without sending it', async () => {
+    const ledger = new PaymentLedger(memorySql());
+    const sent: PaymentPayload[] = [];
+
+    const [, second] = await Promise.all([
+      ledger.submit(PAYMENT, slowSend(sent)),
+      ledger.submit({ ...PAYMENT, amount: 15 }, slowSend(sent)),
+    ]);
+
+    expect(sent).toEqual([PAYMENT]);
+    expect(second).toMatchObject({ status: 'conflict', differences: ['amount: 10 → 15'] });
+  });
+
+  it('sends the next submission when the first one failed', async () => {
+    const ledger = new PaymentLedger(memorySql());
+    const sent: PaymentPayload[] = [];
+    const failing = async (): Promise<PaymentResult> => {
+      throw new Error('network down');
+    };
+
+    const [first, second] = await Promise.allSettled([ledger.submit(PAYMENT, failing), ledger.submit(PAYMENT, slowSend(sent))]);
+
+    expect(first.status).toBe('rejected');
+    expect(second).toMatchObject({ status: 'fulfilled', value: { status: 'recorded' } });
+    expect(sent).toHaveLength(1);
+  });
+});
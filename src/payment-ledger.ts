@@ -0,0 +1,154 @@
+import type { PaymentPayload, PaymentResult } from "./datafast-client";
+import type { SqlTag } from "./types";
+
+// Transaction IDs already submitted with an API key, so retries neither double-record revenue
+// nor surface an opaque "Duplicate transaction ID" error from the API
+
+export type LedgerEntry = {
+  transactionId: string;
+  payloadHash: string;
+  payload: PaymentPayload;
+  result: PaymentResult;
+  recordedAt: string;
+};
+
+export type LedgerCheck =
+  | { status: 'new'; payloadHash: string }
+  | { status: 'duplicate'; payloadHash: string; entry: LedgerEntry }
+  | { status: 'conflict'; payloadHash: string; entry: LedgerEntry; differences: string[] };
+
+export type PaymentSubmission =
+  | { status: 'recorded'; result: PaymentResult }
+  | { status: 'replayed'; result: PaymentResult; recordedAt: string }
+  | { status: 'conflict'; entry: LedgerEntry; differences: string[] };
+
+type LedgerRow = {
+  transaction_id: string;
+  payload_hash: string;
+  payload: string;
+  result: string;
+  recorded_at: number;
+};
+
+export class PaymentLedger {
+  private readonly sql: SqlTag;
+  // Submissions still waiting on the API, by transaction ID
+  private readonly pending = new Map<string, Promise<PaymentSubmission>>();
+
+  constructor(sql: SqlTag) {
+    this.sql = sql;
+    this.sql`CREATE TABLE IF NOT EXISTS payment_ledger (
+      transaction_id TEXT PRIMARY KEY,
+      visitor_id TEXT NOT NULL,
+      payload_hash TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      result TEXT NOT NULL,
+      recorded_at INTEGER NOT NULL
+    )`;
+  }
+
+  async check(payload: PaymentPayload): Promise<LedgerCheck> {
+    const payloadHash = await hashPayload(payload);
+    const entry = this.get(payload.transaction_id);
+    if (!entry) {
+      return { status: 'new', payloadHash };
+    }
+    if (entry.payloadHash === payloadHash) {
+      return { status: 'duplicate', payloadHash, entry };
+    }
+    return { status: 'conflict', payloadHash, entry, differences: diffPayloads(entry.payload, payload) };
+  }
+
+  // Sends the payment only when its transaction ID is new; identical retries replay the stored result.
+  // Submissions of one transaction ID run one after another, so a concurrent duplicate is checked
+  // against the first one's result instead of being sent before it is recorded
+  async submit(payload: PaymentPayload, send: (payload: PaymentPayload) => Promise<PaymentResult>): Promise<PaymentSubmission> {
+    const transactionId = payload.transaction_id;
+    const previous = this.pending.get(transactionId);
+    const submission = (previous?.catch(() => undefined) ?? Promise.resolve()).then(() => this.submitNow(payload, send));
+    this.pending.set(transactionId, submission);
+    try {
+      return await submission;
+    } finally {
+      if (this.pending.get(transactionId) === submission) {
+        this.pending.delete(transactionId);
+      }
+    }
+  }
+
+  private async submitNow(payload: PaymentPayload, send: (payload: PaymentPayload) => Promise<PaymentResult>): Promise<PaymentSubmission> {
+    const check = await this.check(payload);
+    if (check.status === 'duplicate') {
+      return { status: 'replayed', result: check.entry.result, recordedAt: check.entry.recordedAt };
+    }
+    if (check.status === 'conflict') {
+      return { status: 'conflict', entry: check.entry, differences: check.differences };
+    }
+
+    const result = await send(payload);
+    this.record(payload, check.payloadHash, result);
+    return { status: 'recorded', result };
+  }
+
+  record(payload: PaymentPayload, payloadHash: string, result: PaymentResult): void {
+    this.sql`INSERT OR REPLACE INTO payment_ledger (transaction_id, visitor_id, payload_hash, payload, result, recorded_at)
+      VALUES (${payload.transaction_id}, ${payload.datafast_visitor_id}, ${payloadHash}, ${JSON.stringify(payload)},
+        ${JSON.stringify(result)}, ${Date.now()})`;
+  }
+
+  get(transactionId: string): LedgerEntry | undefined {
+    const [row] = this.sql<LedgerRow>`SELECT transaction_id, payload_hash, payload, result, recorded_at
+      FROM payment_ledger WHERE transaction_id = ${transactionId}`;
+    return row ? toEntry(row) : undefined;
+  }
+
+  // Transaction IDs starting with `prefix`, most recently recorded first
+  transactionIds(prefix: string, limit: number): string[] {
+    const rows = this.sql<{ transaction_id: string }>`SELECT transaction_id FROM payment_ledger
+      WHERE substr(transaction_id, 1, ${prefix.length}) = ${prefix} ORDER BY recorded_at DESC LIMIT ${limit}`;
+    return rows.map((row) => row.transaction_id);
+  }
+
+  list(limit: number, visitorId?: string): LedgerEntry[] {
+    const rows = visitorId
+      ? this.sql<LedgerRow>`SELECT transaction_id, payload_hash, payload, result, recorded_at FROM payment_ledger
+          WHERE visitor_id = ${visitorId} ORDER BY recorded_at DESC LIMIT ${limit}`
+      : this.sql<LedgerRow>`SELECT transaction_id, payload_hash, payload, result, recorded_at FROM payment_ledger
+          ORDER BY recorded_at DESC LIMIT ${limit}`;
+    return rows.map(toEntry);
+  }
+}
+
+function toEntry(row: LedgerRow): LedgerEntry {
+  return {
+    transactionId: row.transaction_id,
+    payloadHash: row.payload_hash,
+    payload: JSON.parse(row.payload),
+    result: JSON.parse(row.result),
+    recordedAt: new Date(row.recorded_at).toISOString(),
+  };
+}
+
+// SHA-256 of the payload with sorted keys and undefined fields dropped, so field order never matters
+async function hashPayload(payload: PaymentPayload): Promise<string> {
+  const canonical = JSON.stringify(
+    Object.fromEntries(
+      Object.entries(payload)
+        .filter(([, value]) => value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+    )
+  );
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function diffPayloads(previous: PaymentPayload, next: PaymentPayload): string[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as Array<keyof PaymentPayload>);
+  const differences: string[] = [];
+  for (const key of keys) {
+    if (previous[key] !== next[key]) {
+      differences.push(`${key}: ${JSON.stringify(previous[key] ?? null)} → ${JSON.stringify(next[key] ?? null)}`);
+    }
+  }
+  return differences;
+}
@@ -0,0 +1,113 @@
+import type { FrameworkType } from "./types";
+import { WEBHOOK_PROVIDERS } from "./webhooks";
+
+// Step-by-step instructions behind the server's MCP prompts. Each prompt expands into a user
+// message that walks the agent through the real tools, with the known arguments filled in
+
+export const REVENUE_PROVIDERS = [...WEBHOOK_PROVIDERS, 'other'] as const;
+export type RevenueProvider = (typeof REVENUE_PROVIDERS)[number];
+
+const PROVIDER_NAMES: Record<Exclude<RevenueProvider, 'other'>, string> = {
+  stripe: 'Stripe',
+  lemonsqueezy: 'Lemon Squeezy',
+  paddle: 'Paddle',
+};
+
+export type SiteArgs = {
+  websiteId?: string;
+  domain?: string;
+  // Name of the active site profile the defaults came from, if any
+  profile?: string;
+};
+
+// A tool call as the help text and guides write it, e.g. get_visitor_data(visitorId: "abc");
+// undefined arguments are left out and placeholders in <angle brackets> are written unquoted
+function call(tool: string, args: Record<string, string | number | boolean | undefined>): string {
+  const rendered = Object.entries(args)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}: ${typeof value === 'string' && !value.startsWith('<') ? JSON.stringify(value) : value}`);
+  return `${tool}(${rendered.join(', ')})`;
+}
+
+function steps(items: string[]): string {
+  return items.map((item, index) => `${index + 1}. ${item}`).join('\n');
+}
+
+function knownSite(site: SiteArgs): string {
+  const known = [
+    site.websiteId ? `website ID \`${site.websiteId}\`` : undefined,
+    site.domain ? `domain \`${site.domain}\`` : undefined,
+  ].filter(Boolean);
+  if (known.length === 0) {
+    return "No website ID or domain was given. Ask me for them (the website ID is at https://datafa.st/dashboard), or use the active site profile if `list_site_profiles` shows one.";
+  }
+  return `Use ${known.join(' and ')}${site.profile ? ` (from the active site profile "${site.profile}")` : ''}.`;
+}
+
+export function onboardProjectPrompt(args: SiteArgs & { framework?: FrameworkType; frameworkName?: string }): string {
+  const { websiteId = '<website ID>', domain = '<domain>', framework, frameworkName = framework } = args;
+  return `Set up DataFa.st analytics in this project. ${knownSite(args)}
+
+${steps([
+  framework
+    ? `The project uses ${frameworkName}.`
+    : "Work out the framework: read package.json (or composer.json, requirements.txt, pyproject.toml) and list the config files at the project root. If you are unsure, pass them to `install_tracking_script` as `projectEvidence` and let it detect the framework.",
+  `Generate the tracking code with the proxy enabled, so ad blockers don't drop events: \`${call('install_tracking_script', { websiteId, domain, framework, useProxy: true })}\``,
+  "Apply the generated code exactly as instructed: the script tag in the root layout or template, plus the proxy rewrites for `/js/script.js` and `/api/events`. Show me each file you change.",
+  "Start the dev server if it isn't running.",
+  `Check the installation: \`${call('validate_installation', { websiteId, domain, useProxy: true, url: 'http://localhost:3000' })}\`. Use the dev server's real URL, and drop \`url\` once the site is deployed. Fix every failed check using the remediation it gives, then validate again.`,
+  `Ask me which user actions matter (signups, purchases, downloads). Track each one as a goal where it happens. Read the \`datafast_visitor_id\` cookie and send it with the goal name to a backend route that calls DataFa.st, as in the \`setup://datafast/${framework ?? '<framework>'}\` guide. Goal names use lowercase letters, numbers, underscores or hyphens. Test one with \`create_goal\`.`,
+  args.profile || !args.websiteId
+    ? "Finish with a short summary of what was installed and what to check in the dashboard."
+    : `Save the site with \`${call('add_site_profile', { name: '<profile name>', websiteId, domain, framework })}\` so later tools default to it, then summarize what was installed.`,
+])}`;
+}
+
+export function diagnoseMissingDataPrompt(args: SiteArgs & { url?: string; visitorId?: string }): string {
+  const { websiteId = '<website ID>', domain = '<domain>', url, visitorId } = args;
+  return `DataFa.st isn't showing data for this site. Find out why and fix it. ${knownSite(args)}
+
+${steps([
+  `Run \`${call('validate_installation', { websiteId, domain, url })}\`. Then run it again with \`useProxy: true\` if the project proxies the script. Note each failed check and the evidence it reports.`,
+  "If the script tag is missing or its `data-website-id` or `data-domain` don't match, find where the tag is rendered in this project and correct it. The website ID must match the dashboard, and the domain must be the bare domain (no protocol or path).",
+  "If the script or the `/api/events` route fails to load behind the proxy, check the rewrites in the framework config (e.g. next.config.js, vite.config, nginx or vercel.json) against the output of `install_tracking_script` for this framework.",
+  "If every check passes, the problem is probably in the browser. Ask me to open the site with the network tab open and look for the script request and the `/api/events` request, and whether an ad blocker or a Content-Security-Policy blocks them.",
+  visitorId
+    ? `Confirm events arrive with \`${call('get_visitor_data', { visitorId, maxAgeSeconds: 0 })}\`. Pageviews should grow after I visit the site.`
+    : "Ask me for my `datafast_visitor_id` cookie (DevTools → Application → Cookies). If it is missing, the script never ran. Otherwise confirm events arrive with `get_visitor_data(visitorId: <visitor ID>, maxAgeSeconds: 0)`.",
+  "Remind me that new data can take 5-10 minutes to show up in the dashboard. Then summarize the cause and every change you made.",
+])}`;
+}
+
+export function revenueAttributionPrompt(args: SiteArgs & { provider?: RevenueProvider }): string {
+  const { provider } = args;
+  const providerName = provider && provider !== 'other' ? PROVIDER_NAMES[provider] : undefined;
+  const webhookStep = provider && providerName
+    ? `Point ${providerName} at this server's \`POST /webhooks/${provider}\` endpoint so payments are recorded automatically. Explain which secret to set on the Worker (see the "Payment Webhooks" section of the server README).`
+    : `If the provider is Stripe, Lemon Squeezy or Paddle, point it at this server's \`POST /webhooks/<provider>\` endpoint. Otherwise, after each successful payment, call DataFa.st from the backend with the same fields as \`${call('create_payment', { visitorId: '<visitor ID>', amount: '<amount>', currency: '<currency>', transactionId: '<transaction ID>' })}\`.`;
+  return `Set up revenue attribution so DataFa.st links payments to the traffic sources that brought the customers in. ${knownSite(args)}
+
+${steps([
+  "Check that the tracking script is installed, with `validate_installation`. Attribution only works for visitors DataFa.st has already tracked.",
+  `Find where checkout sessions are created${providerName ? ` with ${providerName}` : ' and ask me which payment provider is used if it is not obvious'}. Read the \`datafast_visitor_id\` cookie there and pass it in the checkout metadata as \`datafast_visitor_id\`: Stripe \`metadata\`, Lemon Squeezy and Paddle \`custom_data\`.`,
+  webhookStep,
+  `Test with one real payment. Record it with \`${call('create_payment', { visitorId: '<visitor ID>', amount: '<amount>', currency: '<currency>', transactionId: '<transaction ID>' })}\` if the webhook isn't live yet, then check it with \`list_recorded_payments()\`.`,
+  "If I have past payments, offer to backfill them from a provider CSV export with `import_payments` (preview first, then `mode: \"import\"`).",
+  "Summarize the code changes and which dashboard reports now show revenue by source.",
+])}`;
+}
+
+export function analyzeVisitorPrompt(args: { visitorId: string; since?: string }): string {
+  const { visitorId, since } = args;
+  return `Analyze DataFa.st visitor \`${visitorId}\` and tell me how likely they are to convert and what to do next.
+
+${steps([
+  `Fetch their current data with \`${call('get_visitor_data', { visitorId })}\`: location, device, visits, pages, completed goals and the conversion prediction.`,
+  since
+    ? `See what changed with \`${call('diff_visitor_snapshots', { visitorId, since })}\`.`
+    : `Check \`${call('get_visitor_history', { visitorId })}\`. If there are earlier snapshots, see what changed with \`${call('diff_visitor_snapshots', { visitorId })}\`.`,
+  "Read the journey: which pages suggest buying intent (pricing, checkout, docs), which goals were completed, and whether engagement is rising or falling.",
+  "Give the conversion score, conversion rate and expected revenue with their confidence, and say plainly whether this is a hot, warm or cold lead.",
+  `Recommend concrete next steps. For a warm lead, offer to watch them with \`${call('watch_visitor', { visitorId })}\` so I'm told when they heat up or convert.`,
+])}`;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { generateProxyConfig } from "./proxy-configs";
+
+describe('generateProxyConfig', () => {
+  it('keeps the Cloudflare Worker code and its wrangler.toml routes in separate files', () => {
+    const config = generateProxyConfig('cloudflare-worker', 'blog.example.co.uk');
+
+    expect(config).toMatchObject({ file: 'src/index.js', language: 'javascript' });
+    expect(config.code).not.toContain('routes');
+    expect(config.extraFiles).toHaveLength(1);
+    expect(config.extraFiles?.[0]).toMatchObject({ file: 'wrangler.toml', language: 'toml' });
+  });
+
+  it('routes a subdomain without naming its host as the zone', () => {
+    const routes = generateProxyConfig('cloudflare-worker', 'blog.example.co.uk').extraFiles?.[0].code ?? '';
+
+    expect(routes).toContain('"blog.example.co.uk/js/script.js"');
+    expect(routes).toContain('"blog.example.co.uk/api/events"');
+    expect(routes).not.toContain('zone_name');
+  });
+
+  it('recommends a trusted hop count for Express rather than trusting every X-Forwarded-For', () => {
+    const config = generateProxyConfig('express', 'example.com');
+
+    expect(config.code).toContain("app.set('trust proxy', 1)");
+    expect(config.code).not.toContain("'trust proxy', true");
+    expect(config.instructions).toContain("Don't set it to `true`");
+  });
+});
@@ -0,0 +1,361 @@
+import type { ProjectEvidence } from "./framework-detection";
+import type { FrameworkType } from "./types";
+
+// Production proxies that serve the DataFa.st script and events endpoint from the site's own
+// origin, so ad blockers don't drop them. Each forwards the visitor's IP and user agent, which
+// DataFa.st needs for geolocation and device detection
+
+export const PROXY_TARGETS = ['cloudflare-worker', 'vercel', 'netlify', 'nginx', 'apache', 'caddy', 'express', 'nextjs', 'laravel', 'django'] as const;
+export type ProxyTarget = (typeof PROXY_TARGETS)[number];
+
+export type ProxySnippet = {
+  // Where the code goes
+  file: string;
+  // Code fence language
+  language: string;
+  code: string;
+};
+
+export type ProxyConfig = ProxySnippet & {
+  target: ProxyTarget;
+  name: string;
+  instructions: string;
+  // Other files the setup needs, e.g. the Worker's routes in wrangler.toml
+  extraFiles?: ProxySnippet[];
+};
+
+export type ProxyTargetChoice = {
+  target: ProxyTarget;
+  reason: string;
+};
+
+// Frameworks with a server of their own proxy in the app, wherever it is hosted
+const FRAMEWORK_PROXY_TARGETS: Partial<Record<FrameworkType, ProxyTarget>> = {
+  nextjs: 'nextjs',
+  laravel: 'laravel',
+  django: 'django',
+};
+
+// Config files that reveal where a project is deployed
+const HOSTING_FILE_SIGNALS: Array<{ pattern: RegExp; target: ProxyTarget }> = [
+  { pattern: /(^|\/)wrangler\.(toml|json|jsonc)$/, target: 'cloudflare-worker' },
+  { pattern: /(^|\/)vercel\.json$/, target: 'vercel' },
+  { pattern: /(^|\/)(netlify\.toml|_redirects)$/, target: 'netlify' },
+  { pattern: /(^|\/)nginx\.conf$|(^|\/)nginx\/.+\.conf$/, target: 'nginx' },
+  { pattern: /(^|\/)\.htaccess$/, target: 'apache' },
+  { pattern: /(^|\/)Caddyfile$/, target: 'caddy' },
+];
+
+// The framework's own proxy first, then a host named by the project's files, then an Express server
+export function chooseProxyTarget(framework: FrameworkType, evidence: ProjectEvidence | undefined): ProxyTargetChoice | undefined {
+  const frameworkTarget = FRAMEWORK_PROXY_TARGETS[framework];
+  if (frameworkTarget) {
+    return { target: frameworkTarget, reason: `${framework} can proxy requests itself` };
+  }
+  for (const file of evidence?.files ?? []) {
+    const signal = HOSTING_FILE_SIGNALS.find(({ pattern }) => pattern.test(file.replace(/\\/g, '/')));
+    if (signal) {
+      return { target: signal.target, reason: `found ${file}` };
+    }
+  }
+  if (evidence?.packageJson && /"express"\s*:/.test(evidence.packageJson)) {
+    return { target: 'express', reason: 'package.json depends on express' };
+  }
+  return undefined;
+}
+
+export function generateProxyConfig(target: ProxyTarget, domain: string): ProxyConfig {
+  switch (target) {
+    case 'cloudflare-worker':
+      return {
+        target,
+        name: 'Cloudflare Worker',
+        file: 'src/index.js',
+        language: 'javascript',
+        code: `// src/index.js
+export default {
+  async fetch(request) {
+    const url = new URL(request.url);
+    if (url.pathname !== '/js/script.js' && url.pathname !== '/api/events') {
+      return fetch(request);
+    }
+    const headers = new Headers(request.headers);
+    headers.delete('Cookie');
+    headers.set('X-Forwarded-For', request.headers.get('CF-Connecting-IP') ?? '');
+    return fetch('https://datafa.st' + url.pathname + url.search, {
+      method: request.method,
+      headers,
+      body: request.method === 'POST' ? request.body : undefined
+    });
+  }
+};`,
+        extraFiles: [
+          {
+            file: 'wrangler.toml',
+            language: 'toml',
+            code: `# Wrangler looks up the zone from each route's hostname, which also works for subdomains
+routes = [
+  "${domain}/js/script.js",
+  "${domain}/api/events"
+]`,
+          },
+        ],
+        instructions: `Add the routes to the Worker's wrangler.toml and deploy it with \`npx wrangler deploy\`. The routes send only the two DataFa.st paths through it; the rest of ${domain} is untouched. CF-Connecting-IP carries the visitor's IP.`,
+      };
+    case 'vercel':
+      return {
+        target,
+        name: 'Vercel',
+        file: 'vercel.json',
+        language: 'json',
+        code: `{
+  "rewrites": [
+    { "source": "/js/script.js", "destination": "https://datafa.st/js/script.js" },
+    { "source": "/api/events", "destination": "https://datafa.st/api/events" }
+  ]
+}`,
+        instructions: "Merge the rewrites into your existing vercel.json and redeploy. Vercel's external rewrites forward the visitor's IP in X-Forwarded-For.",
+      };
+    case 'netlify':
+      return {
+        target,
+        name: 'Netlify',
+        file: '_redirects (in your publish directory)',
+        language: 'text',
+        code: `/js/script.js  https://datafa.st/js/script.js  200
+/api/events     https://datafa.st/api/events     200`,
+        instructions: "Put these lines above any catch-all rule such as `/* /index.html 200`. The 200 status makes Netlify proxy the request and forward the visitor's IP in X-Forwarded-For.",
+      };
+    case 'nginx':
+      return {
+        target,
+        name: 'Nginx',
+        file: `the server block for ${domain}`,
+        language: 'nginx',
+        code: `location = /js/script.js {
+    proxy_pass https://datafa.st/js/script.js;
+    proxy_set_header Host datafa.st;
+    proxy_ssl_server_name on;
+    proxy_set_header X-Real-IP $remote_addr;
+    proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+    proxy_set_header Cookie "";
+}
+
+location = /api/events {
+    proxy_pass https://datafa.st/api/events;
+    proxy_set_header Host datafa.st;
+    proxy_ssl_server_name on;
+    proxy_set_header X-Real-IP $remote_addr;
+    proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+    proxy_set_header Cookie "";
+}`,
+        instructions: "Add both locations to the server block, then run `nginx -t` and reload Nginx. `proxy_ssl_server_name` sends SNI, which datafa.st requires.",
+      };
+    case 'apache':
+      return {
+        target,
+        name: 'Apache',
+        file: `the <VirtualHost> for ${domain}`,
+        language: 'apache',
+        code: `SSLProxyEngine On
+ProxyPreserveHost Off
+<LocationMatch "^/(js/script\\.js|api/events)$">
+    RequestHeader unset Cookie
+</LocationMatch>
+ProxyPass "/js/script.js" "https://datafa.st/js/script.js"
+ProxyPassReverse "/js/script.js" "https://datafa.st/js/script.js"
+ProxyPass "/api/events" "https://datafa.st/api/events"
+ProxyPassReverse "/api/events" "https://datafa.st/api/events"`,
+        instructions: "Enable the modules with `a2enmod proxy proxy_http ssl headers`, add the lines to the virtual host (not .htaccess, where ProxyPass isn't allowed), then reload Apache. mod_proxy adds the visitor's IP to X-Forwarded-For.",
+      };
+    case 'caddy':
+      return {
+        target,
+        name: 'Caddy',
+        file: 'Caddyfile',
+        language: 'caddyfile',
+        code: `${domain} {
+	@datafast path /js/script.js /api/events
+	handle @datafast {
+		reverse_proxy https://datafa.st {
+			header_up Host datafa.st
+			header_up -Cookie
+		}
+	}
+
+	# ...your existing directives
+}`,
+        instructions: "Merge the matcher and handle block into the site block for your domain and run `caddy reload`. Caddy forwards the visitor's IP in X-Forwarded-For.",
+      };
+    case 'express':
+      return {
+        target,
+        name: 'Express',
+        file: 'datafast-proxy.js',
+        language: 'javascript',
+        code: `// datafast-proxy.js (Node 18+)
+const DATAFAST_PATHS = new Set(['/js/script.js', '/api/events']);
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function datafastProxy() {
+  return async (req, res, next) => {
+    if (!DATAFAST_PATHS.has(req.path)) return next();
+    try {
+      const upstream = await fetch('https://datafa.st' + req.originalUrl, {
+        method: req.method,
+        headers: {
+          'Content-Type': req.get('Content-Type') ?? 'text/plain',
+          'User-Agent': req.get('User-Agent') ?? '',
+          'X-Forwarded-For': req.ip
+        },
+        body: req.method === 'POST' ? await readBody(req) : undefined
+      });
+      res.status(upstream.status);
+      for (const header of ['Content-Type', 'Cache-Control']) {
+        const value = upstream.headers.get(header);
+        if (value) res.set(header, value);
+      }
+      res.send(Buffer.from(await upstream.arrayBuffer()));
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+module.exports = { datafastProxy };
+
+// In your server:
+// app.set('trust proxy', 1);  // behind one load balancer or CDN, so req.ip is the visitor's IP
+// app.use(datafastProxy());   // before express.json() and other body parsers`,
+        instructions: "Register the middleware before any body parser, which would consume the event payload. When the app runs behind a load balancer or CDN, set `trust proxy` to the number of proxies in front of it (or their addresses) so the visitor's IP is forwarded rather than the balancer's. Don't set it to `true`: that trusts any X-Forwarded-For header, so clients could send a fake IP.",
+      };
+    case 'nextjs':
+      return {
+        target,
+        name: 'Next.js',
+        file: 'next.config.js',
+        language: 'javascript',
+        code: `// next.config.js
+module.exports = {
+  async rewrites() {
+    return [
+      {
+        source: '/js/script.js',
+        destination: 'https://datafa.st/js/script.js'
+      },
+      {
+        source: '/api/events',
+        destination: 'https://datafa.st/api/events'
+      }
+    ]
+  }
+}`,
+        instructions: "Merge the rewrites into your existing config. They run in production on any host, and forward the visitor's IP in X-Forwarded-For.",
+      };
+    case 'laravel':
+      return {
+        target,
+        name: 'Laravel',
+        file: 'routes/web.php',
+        language: 'php',
+        code: `use Illuminate\\Foundation\\Http\\Middleware\\VerifyCsrfToken;
+use Illuminate\\Http\\Request;
+use Illuminate\\Support\\Facades\\Http;
+
+Route::get('/js/script.js', function (Request $request) {
+    $response = Http::withHeaders(['User-Agent' => $request->userAgent() ?? ''])
+        ->get('https://datafa.st/js/script.js');
+
+    return response($response->body(), $response->status())
+        ->header('Content-Type', 'application/javascript')
+        ->header('Cache-Control', $response->header('Cache-Control') ?: 'public, max-age=3600');
+});
+
+Route::post('/api/events', function (Request $request) {
+    $response = Http::withHeaders([
+        'User-Agent' => $request->userAgent() ?? '',
+        'X-Forwarded-For' => $request->ip(),
+    ])->withBody($request->getContent(), $request->header('Content-Type', 'text/plain'))
+        ->post('https://datafa.st/api/events');
+
+    return response($response->body(), $response->status())
+        ->header('Content-Type', $response->header('Content-Type') ?: 'application/json');
+})->withoutMiddleware([VerifyCsrfToken::class]);`,
+        instructions: "Add the routes to routes/web.php; routes/api.php would prefix them with another /api. The events route skips CSRF verification because the tracking script posts without a token. Behind a load balancer, configure TrustProxies so `$request->ip()` is the visitor's IP.",
+      };
+    case 'django':
+      return {
+        target,
+        name: 'Django',
+        file: 'datafast_proxy.py and urls.py',
+        language: 'python',
+        code: `# datafast_proxy.py
+import urllib.error
+import urllib.request
+
+from django.conf import settings
+from django.http import HttpResponse
+from django.views.decorators.csrf import csrf_exempt
+from django.views.decorators.http import require_GET, require_POST
+
+
+def _client_ip(request):
+    # X-Forwarded-For is only read when settings.DATAFAST_TRUSTED_PROXIES says how many proxies in
+    # front of Django append to it; the visitor's IP is then that many entries from the right.
+    # Entries further left come from the client and can be spoofed
+    trusted = getattr(settings, "DATAFAST_TRUSTED_PROXIES", 0)
+    forwarded = [entry.strip() for entry in request.META.get("HTTP_X_FORWARDED_FOR", "").split(",") if entry.strip()]
+    if trusted > 0 and len(forwarded) >= trusted:
+        return forwarded[-trusted]
+    return request.META.get("REMOTE_ADDR", "")
+
+
+def _forward(request, path, body=None):
+    headers = {
+        "User-Agent": request.META.get("HTTP_USER_AGENT", ""),
+        "X-Forwarded-For": _client_ip(request),
+    }
+    if body is not None:
+        headers["Content-Type"] = request.META.get("CONTENT_TYPE") or "text/plain"
+    upstream = urllib.request.Request("https://datafa.st" + path, data=body, headers=headers, method=request.method)
+    try:
+        with urllib.request.urlopen(upstream, timeout=10) as response:
+            return HttpResponse(response.read(), status=response.status, content_type=response.headers.get("Content-Type"))
+    except urllib.error.HTTPError as error:
+        return HttpResponse(error.read(), status=error.code, content_type=error.headers.get("Content-Type"))
+    except (urllib.error.URLError, TimeoutError):
+        return HttpResponse("DataFa.st could not be reached", status=502, content_type="text/plain")
+
+
+@require_GET
+def script(request):
+    return _forward(request, "/js/script.js")
+
+
+@csrf_exempt
+@require_POST
+def events(request):
+    return _forward(request, "/api/events", request.body)
+
+
+# urls.py
+from django.urls import path
+
+from . import datafast_proxy
+
+urlpatterns += [
+    path("js/script.js", datafast_proxy.script),
+    path("api/events", datafast_proxy.events),
+]`,
+        instructions: "Add the module next to your urls.py and append the two paths to urlpatterns. The events view is CSRF-exempt because the tracking script posts without a token. The visitor's IP is REMOTE_ADDR; behind a load balancer or CDN, set DATAFAST_TRUSTED_PROXIES in settings.py to the number of proxies in front of Django so the IP is read from X-Forwarded-For instead.",
+      };
+  }
+}
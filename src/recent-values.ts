@@ -0,0 +1,54 @@
+import type { SqlTag } from "./types";
+
+// Website IDs, domains and visitor IDs the tools were recently called with, kept per API key and
+// offered back as completions for prompt arguments and resource URIs
+
+export const RECENT_VALUE_KINDS = ['websiteId', 'domain', 'visitorId'] as const;
+export type RecentValueKind = (typeof RECENT_VALUE_KINDS)[number];
+export type RecentValues = Partial<Record<RecentValueKind, string>>;
+
+// Values kept per kind; the least recently used are pruned first
+export const RECENT_VALUES_MAX = 50;
+
+export class RecentValueStore {
+  private readonly sql: SqlTag;
+
+  constructor(sql: SqlTag) {
+    this.sql = sql;
+    this.sql`CREATE TABLE IF NOT EXISTS recent_values (
+      kind TEXT NOT NULL,
+      value TEXT NOT NULL,
+      used_at INTEGER NOT NULL,
+      PRIMARY KEY (kind, value)
+    )`;
+  }
+
+  remember(kind: RecentValueKind, value: string | undefined): void {
+    const trimmed = value?.trim();
+    if (!trimmed) {
+      return;
+    }
+    this.sql`INSERT OR REPLACE INTO recent_values (kind, value, used_at) VALUES (${kind}, ${trimmed}, ${Date.now()})`;
+    this.sql`DELETE FROM recent_values WHERE kind = ${kind} AND value NOT IN (
+      SELECT value FROM recent_values WHERE kind = ${kind} ORDER BY used_at DESC LIMIT ${RECENT_VALUES_MAX})`;
+  }
+
+  // Values starting with `prefix` (case-insensitively), most recently used first
+  suggest(kind: RecentValueKind, prefix: string, limit: number): string[] {
+    const rows = this.sql<{ value: string }>`SELECT value FROM recent_values
+      WHERE kind = ${kind} AND lower(substr(value, 1, ${prefix.length})) = lower(${prefix}) ORDER BY used_at DESC LIMIT ${limit}`;
+    return rows.map((row) => row.value);
+  }
+}
+
+// Candidates starting with `prefix` (case-insensitively), without duplicates, in the given order
+export function matchingValues(candidates: Iterable<string | undefined>, prefix: string, limit: number): string[] {
+  const lowerPrefix = prefix.toLowerCase();
+  const matches = new Set<string>();
+  for (const candidate of candidates) {
+    if (candidate?.toLowerCase().startsWith(lowerPrefix)) {
+      matches.add(candidate);
+    }
+  }
+  return [...matches].slice(0, limit);
+}
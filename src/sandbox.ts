@@ -0,0 +1,182 @@
+import {
+  DataFastApiError,
+  type DataFastApi,
+  type GoalPayload,
+  type GoalResult,
+  type PaymentPayload,
+  type PaymentResult,
+  type VisitorData,
+} from "./datafast-client";
+import type { SqlTag } from "./types";
+
+// Offline stand-in for the DataFa.st API, stored in the account Durable Object's SQLite.
+// Any visitor ID resolves to a deterministic synthetic visitor so demos work without real traffic.
+
+const COUNTRIES = [
+  { country: 'United States', region: 'California', city: 'San Francisco' },
+  { country: 'United Kingdom', region: 'England', city: 'London' },
+  { country: 'Germany', region: 'Berlin', city: 'Berlin' },
+  { country: 'France', region: 'Île-de-France', city: 'Paris' },
+  { country: 'Canada', region: 'Ontario', city: 'Toronto' },
+  { country: 'Australia', region: 'New South Wales', city: 'Sydney' },
+];
+const BROWSERS = ['Chrome', 'Safari', 'Firefox', 'Edge'];
+const DEVICES = [
+  { device_type: 'desktop', os: 'macOS' },
+  { device_type: 'desktop', os: 'Windows' },
+  { device_type: 'mobile', os: 'iOS' },
+  { device_type: 'mobile', os: 'Android' },
+];
+const PAGES = ['/', '/pricing', '/features', '/blog', '/docs', '/signup', '/about'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SandboxVisitorRow = {
+  visitor_id: string;
+  created_at: number;
+};
+
+type SandboxGoalRow = {
+  name: string;
+  metadata: string | null;
+  created_at: number;
+};
+
+type SandboxPaymentRow = {
+  amount: number;
+  refunded: number;
+};
+
+export class SandboxBackend implements DataFastApi {
+  private readonly sql: SqlTag;
+
+  constructor(sql: SqlTag) {
+    this.sql = sql;
+    this.sql`CREATE TABLE IF NOT EXISTS sandbox_visitors (
+      visitor_id TEXT PRIMARY KEY,
+      created_at INTEGER NOT NULL
+    )`;
+    this.sql`CREATE TABLE IF NOT EXISTS sandbox_goals (
+      event_id TEXT PRIMARY KEY,
+      visitor_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      metadata TEXT,
+      created_at INTEGER NOT NULL
+    )`;
+    this.sql`CREATE TABLE IF NOT EXISTS sandbox_payments (
+      transaction_id TEXT PRIMARY KEY,
+      visitor_id TEXT NOT NULL,
+      amount REAL NOT NULL,
+      currency TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      refunded INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    )`;
+  }
+
+  async createGoal(payload: GoalPayload): Promise<GoalResult> {
+    if (!/^[a-z0-9_-]{1,32}$/.test(payload.name)) {
+      throw new DataFastApiError('validation', 'Goal name must be lowercase letters, numbers, underscores or hyphens (max 32 characters)', 400);
+    }
+    if (payload.metadata && Object.keys(payload.metadata).length > 10) {
+      throw new DataFastApiError('validation', 'Goal metadata supports at most 10 properties', 400);
+    }
+
+    this.ensureVisitor(payload.datafast_visitor_id);
+    const eventId = `sandbox_evt_${crypto.randomUUID()}`;
+    this.sql`INSERT INTO sandbox_goals (event_id, visitor_id, name, metadata, created_at)
+      VALUES (${eventId}, ${payload.datafast_visitor_id}, ${payload.name}, ${payload.metadata ? JSON.stringify(payload.metadata) : null}, ${Date.now()})`;
+
+    return { event_id: eventId, message: 'Goal recorded in sandbox (not sent to DataFa.st)' };
+  }
+
+  async createPayment(payload: PaymentPayload): Promise<PaymentResult> {
+    const existing = this.sql<{ transaction_id: string }>`SELECT transaction_id FROM sandbox_payments WHERE transaction_id = ${payload.transaction_id}`;
+    if (existing.length > 0) {
+      throw new DataFastApiError('validation', 'Duplicate transaction ID', 409);
+    }
+
+    this.ensureVisitor(payload.datafast_visitor_id);
+    this.sql`INSERT INTO sandbox_payments (transaction_id, visitor_id, amount, currency, payload, refunded, created_at)
+      VALUES (${payload.transaction_id}, ${payload.datafast_visitor_id}, ${payload.amount}, ${payload.currency},
+        ${JSON.stringify(payload)}, ${payload.refunded ? 1 : 0}, ${Date.now()})`;
+
+    return { transaction_id: payload.transaction_id, message: 'Payment recorded in sandbox (not sent to DataFa.st)' };
+  }
+
+  async getVisitor(visitorId: string): Promise<VisitorData> {
+    const visitor = this.ensureVisitor(visitorId);
+    const goals = this.sql<SandboxGoalRow>`SELECT name, metadata, created_at FROM sandbox_goals
+      WHERE visitor_id = ${visitorId} ORDER BY created_at`;
+    const payments = this.sql<SandboxPaymentRow>`SELECT amount, refunded FROM sandbox_payments WHERE visitor_id = ${visitorId}`;
+
+    const random = seededRandom(visitorId);
+    const location = pick(COUNTRIES, random);
+    const device = pick(DEVICES, random);
+    const visitCount = 1 + Math.floor(random() * 8) + goals.length;
+    const pageviewCount = visitCount + Math.floor(random() * 20);
+    const pages = PAGES.filter((_, index) => index === 0 || random() < 0.5);
+    const firstVisit = visitor.created_at - Math.floor(random() * 14) * DAY_MS;
+    const lastVisit = Math.max(visitor.created_at, ...goals.map((goal) => goal.created_at));
+    const revenue = payments.filter((payment) => !payment.refunded).reduce((sum, payment) => sum + payment.amount, 0);
+    const conversionScore = Math.min(100, Math.floor(random() * 60) + goals.length * 10 + (revenue > 0 ? 20 : 0));
+
+    return {
+      identity: {
+        ...location,
+        browser: pick(BROWSERS, random),
+        ...device,
+      },
+      activity: {
+        visit_count: visitCount,
+        pageview_count: pageviewCount,
+        first_visit: new Date(firstVisit).toISOString(),
+        last_visit: new Date(lastVisit).toISOString(),
+        current_url: `https://sandbox.datafa.st${pages[pages.length - 1]}`,
+        pages,
+        goals: goals.map((goal) => ({
+          name: goal.name,
+          timestamp: new Date(goal.created_at).toISOString(),
+          metadata: goal.metadata ? JSON.parse(goal.metadata) : undefined,
+        })),
+      },
+      prediction: {
+        conversion_score: conversionScore,
+        conversion_rate: Math.round((conversionScore / 100) * 0.3 * 1000) / 1000,
+        expected_revenue: Math.round(((conversionScore / 100) * 49 + revenue) * 100) / 100,
+        confidence: Math.round((0.5 + random() * 0.4) * 100) / 100,
+      },
+    };
+  }
+
+  private ensureVisitor(visitorId: string): SandboxVisitorRow {
+    const [existing] = this.sql<SandboxVisitorRow>`SELECT visitor_id, created_at FROM sandbox_visitors WHERE visitor_id = ${visitorId}`;
+    if (existing) {
+      return existing;
+    }
+    const row = { visitor_id: visitorId, created_at: Date.now() };
+    this.sql`INSERT INTO sandbox_visitors (visitor_id, created_at) VALUES (${row.visitor_id}, ${row.created_at})`;
+    return row;
+  }
+}
+
+// FNV-1a hash feeding a mulberry32 generator, so a visitor ID always yields the same profile
+function seededRandom(seed: string): () => number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  let state = hash >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
@@ -0,0 +1,170 @@
+import type { VisitorData } from "./datafast-client";
+import type { SqlTag } from "./types";
+
+// Visitor cohorts: named lists of visitor IDs saved per API key, and the aggregate summary
+// compare_visitor_segments reports for each one
+
+export const SEGMENT_MAX_VISITORS = 500;
+export const SEGMENT_TOP_CONVERTERS = 5;
+
+export type SavedSegment = {
+  name: string;
+  description?: string;
+  visitorIds: string[];
+  savedAt: string;
+};
+
+// Outcome of fetching one visitor of a cohort
+export type SegmentVisitor =
+  | { visitorId: string; status: 'fetched'; data: VisitorData }
+  | { visitorId: string; status: 'failed'; error: string };
+
+export type Distribution = Array<{ value: string; visitors: number; share: number }>;
+
+export type SegmentSummary = {
+  name: string;
+  requested: number;
+  fetched: number;
+  failed: Array<{ visitorId: string; error: string }>;
+  activity: { averageVisits: number | null; averagePageviews: number | null };
+  distributions: { country: Distribution; device: Distribution; os: Distribution; browser: Distribution };
+  goals: {
+    // Share of fetched visitors with at least one completed goal
+    completionRate: number | null;
+    byGoal: Distribution;
+  };
+  prediction: {
+    scored: number;
+    averageConversionScore: number | null;
+    averageConversionRate: number | null;
+    averageConfidence: number | null;
+    totalExpectedRevenue: number | null;
+    averageExpectedRevenue: number | null;
+  };
+  topConverters: Array<{ visitorId: string; conversionScore: number; expectedRevenue: number | null; goals: number }>;
+};
+
+type SegmentRow = {
+  name: string;
+  description: string | null;
+  visitor_ids: string;
+  saved_at: number;
+};
+
+export class SegmentStore {
+  private readonly sql: SqlTag;
+
+  constructor(sql: SqlTag) {
+    this.sql = sql;
+    this.sql`CREATE TABLE IF NOT EXISTS visitor_segments (
+      name TEXT PRIMARY KEY,
+      description TEXT,
+      visitor_ids TEXT NOT NULL,
+      saved_at INTEGER NOT NULL
+    )`;
+  }
+
+  // Replaces any segment with the same name; visitor IDs are de-duplicated in their original order
+  save(name: string, visitorIds: string[], description?: string): SavedSegment {
+    const segment: SavedSegment = { name, description, visitorIds: uniqueIds(visitorIds), savedAt: new Date().toISOString() };
+    this.sql`INSERT OR REPLACE INTO visitor_segments (name, description, visitor_ids, saved_at)
+      VALUES (${name}, ${description ?? null}, ${JSON.stringify(segment.visitorIds)}, ${Date.parse(segment.savedAt)})`;
+    return segment;
+  }
+
+  get(name: string): SavedSegment | undefined {
+    const [row] = this.sql<SegmentRow>`SELECT name, description, visitor_ids, saved_at FROM visitor_segments WHERE name = ${name}`;
+    return row ? toSegment(row) : undefined;
+  }
+
+  names(): string[] {
+    return this.sql<{ name: string }>`SELECT name FROM visitor_segments ORDER BY name`.map((row) => row.name);
+  }
+}
+
+export function uniqueIds(visitorIds: string[]): string[] {
+  return [...new Set(visitorIds.map((visitorId) => visitorId.trim()).filter(Boolean))];
+}
+
+export function summarizeSegment(name: string, visitors: SegmentVisitor[], topConverters = SEGMENT_TOP_CONVERTERS): SegmentSummary {
+  const fetched = visitors.flatMap((visitor) => (visitor.status === 'fetched' ? [{ visitorId: visitor.visitorId, ...visitor.data }] : []));
+  const scored = fetched.flatMap(({ visitorId, activity, prediction }) => (prediction ? [{ visitorId, activity, prediction }] : []));
+  const goalNames = fetched.map(({ activity }) => [...new Set(activity.goals.map((goal) => goal.name))]);
+
+  return {
+    name,
+    requested: visitors.length,
+    fetched: fetched.length,
+    failed: visitors.flatMap((visitor) => (visitor.status === 'failed' ? [{ visitorId: visitor.visitorId, error: visitor.error }] : [])),
+    activity: {
+      averageVisits: average(fetched.map(({ activity }) => activity.visit_count)),
+      averagePageviews: average(fetched.map(({ activity }) => activity.pageview_count)),
+    },
+    distributions: {
+      country: distribution(fetched.map(({ identity }) => [identity.country])),
+      device: distribution(fetched.map(({ identity }) => [identity.device_type])),
+      os: distribution(fetched.map(({ identity }) => [identity.os])),
+      browser: distribution(fetched.map(({ identity }) => [identity.browser])),
+    },
+    goals: {
+      completionRate: fetched.length === 0 ? null : round(goalNames.filter((names) => names.length > 0).length / fetched.length),
+      byGoal: distribution(goalNames),
+    },
+    prediction: {
+      scored: scored.length,
+      averageConversionScore: average(scored.map(({ prediction }) => prediction.conversion_score)),
+      averageConversionRate: average(scored.map(({ prediction }) => prediction.conversion_rate)),
+      averageConfidence: average(scored.map(({ prediction }) => prediction.confidence)),
+      totalExpectedRevenue: sum(scored.map(({ prediction }) => prediction.expected_revenue)),
+      averageExpectedRevenue: average(scored.map(({ prediction }) => prediction.expected_revenue)),
+    },
+    topConverters: [...scored]
+      .sort((a, b) => b.prediction.conversion_score - a.prediction.conversion_score)
+      .slice(0, topConverters)
+      .map(({ visitorId, activity, prediction }) => ({
+        visitorId,
+        conversionScore: prediction.conversion_score,
+        expectedRevenue: prediction.expected_revenue,
+        goals: activity.goals.length,
+      })),
+  };
+}
+
+function toSegment(row: SegmentRow): SavedSegment {
+  return {
+    name: row.name,
+    description: row.description ?? undefined,
+    visitorIds: JSON.parse(row.visitor_ids),
+    savedAt: new Date(row.saved_at).toISOString(),
+  };
+}
+
+// Visitors per value, most common first. Shares are of all visitors, so a visitor with several
+// values (completed goals) counts once per value; missing values count as "Unknown"
+function distribution(valuesPerVisitor: Array<Array<string | null>>): Distribution {
+  const counts = new Map<string, number>();
+  for (const values of valuesPerVisitor) {
+    for (const value of values) {
+      const key = value ?? 'Unknown';
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .map(([value, visitors]) => ({ value, visitors, share: round(visitors / valuesPerVisitor.length) }));
+}
+
+// Mean of the known values; null when none are known
+function average(values: Array<number | null>): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length === 0 ? null : round(known.reduce((total, value) => total + value, 0) / known.length);
+}
+
+function sum(values: Array<number | null>): number | null {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length === 0 ? null : round(known.reduce((total, value) => total + value, 0));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import type { FrameworkType } from "./types";
+import { domainSchema, formatValidationIssues, websiteIdSchema } from "./validation";
+
+// Named DataFa.st sites kept in the account of the key a connection was opened with, so a user can
+// work with several websites without retyping IDs, and the active one supplies tool defaults
+
+export type SiteProfile = {
+  name: string;
+  // Falls back to the connection's API key when unset
+  apiKey?: string;
+  websiteId: string;
+  domain: string;
+  framework?: FrameworkType;
+  useProxy?: boolean;
+};
+
+export type SiteProfileState = {
+  profiles: SiteProfile[];
+  activeProfile?: string;
+};
+
+export type SiteDefaults =
+  | { status: 'resolved'; websiteId: string; domain: string; profile?: SiteProfile }
+  | { status: 'invalid'; issues: string[] };
+
+export const siteProfileNameSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9][A-Za-z0-9 _.-]{0,39}$/, "profile names are 1-40 letters, numbers, spaces, dots, underscores or hyphens");
+
+export function findProfile(state: SiteProfileState, name: string): SiteProfile | undefined {
+  const key = name.trim().toLowerCase();
+  return state.profiles.find((profile) => profile.name.toLowerCase() === key);
+}
+
+export function activeProfile(state: SiteProfileState): SiteProfile | undefined {
+  return state.activeProfile === undefined ? undefined : findProfile(state, state.activeProfile);
+}
+
+// Adds the profile or replaces the one with the same name; the first profile always becomes active
+export function upsertProfile(state: SiteProfileState, profile: SiteProfile, activate: boolean): SiteProfileState {
+  const existing = findProfile(state, profile.name);
+  const profiles = existing
+    ? state.profiles.map((candidate) => (candidate === existing ? profile : candidate))
+    : [...state.profiles, profile];
+  const makeActive = activate || state.profiles.length === 0 || (existing !== undefined && existing === activeProfile(state));
+  return { profiles, activeProfile: makeActive ? profile.name : state.activeProfile };
+}
+
+const siteSchema = z.object({ websiteId: websiteIdSchema, domain: domainSchema });
+
+// Website ID and domain from the tool arguments, falling back to the active profile. Both are
+// validated (profiles saved before validation existed included) and the domain is normalized
+export function resolveSiteDefaults(
+  params: { websiteId?: string; domain?: string },
+  profile: SiteProfile | undefined
+): SiteDefaults {
+  const websiteId = params.websiteId ?? profile?.websiteId;
+  const domain = params.domain ?? profile?.domain;
+  if (websiteId === undefined || domain === undefined) {
+    const hint = "pass it, or add a site profile with add_site_profile";
+    return {
+      status: 'invalid',
+      issues: [
+        ...(websiteId === undefined ? [`websiteId: required (${hint})`] : []),
+        ...(domain === undefined ? [`domain: required (${hint})`] : []),
+      ],
+    };
+  }
+  const parsed = siteSchema.safeParse({ websiteId, domain });
+  if (!parsed.success) {
+    return { status: 'invalid', issues: formatValidationIssues(parsed.error) };
+  }
+  return { status: 'resolved', ...parsed.data, profile };
+}
+
+// Enough of the key to tell profiles apart without echoing it back
+export function maskApiKey(apiKey: string): string {
+  return apiKey.length <= 8 ? '••••' : `••••${apiKey.slice(-4)}`;
+}
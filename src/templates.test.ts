@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { FRAMEWORKS, variantSnippet } from "./frameworks";
+import { escapeValue, renderTemplate } from "./templates";
+
+// Values the input schemas would reject, to check the renderer holds up on its own
+const WEBSITE_ID = 'site"><script>alert(1)</script>';
+const DOMAIN = "o'brien.com&<x>";
+
+describe('escapeValue', () => {
+  it('escapes quotes, angle brackets and ampersands in HTML attributes', () => {
+    expect(escapeValue(WEBSITE_ID, 'html-attribute')).toBe('site&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(escapeValue(DOMAIN, 'html-attribute')).toBe('o&#39;brien.com&amp;&lt;x&gt;');
+    expect(escapeValue('&amp;', 'html-attribute')).toBe('&amp;amp;');
+  });
+
+  it('uses Unicode escapes in JavaScript strings', () => {
+    expect(escapeValue(WEBSITE_ID, 'js-string')).toBe('site\\u0022\\u003e\\u003cscript\\u003ealert(1)\\u003c/script\\u003e');
+    expect(escapeValue("a'b`c\u0024{d}\\", 'js-string')).toBe('a\\u0027b\\u0060c\\u0024{d}\\u005c');
+    expect(escapeValue('line\nbreak\u2028', 'js-string')).toBe('line\\u000abreak\\u2028');
+  });
+
+  it('also neutralizes Blade and Django template syntax', () => {
+    expect(escapeValue('{{ $secret }} @php', 'blade')).toBe('&#123;&#123; $secret &#125;&#125; &#64;php');
+    expect(escapeValue('{% debug %}{{ x }}&"', 'django')).toBe('&#123;&#37; debug &#37;&#125;&#123;&#123; x &#125;&#125;&amp;&quot;');
+  });
+});
+
+describe('renderTemplate', () => {
+  it('replaces uppercase placeholders and leaves JSX braces alone', () => {
+    const rendered = renderTemplate('<a title="{WEBSITE_ID}">{children}</a>', { WEBSITE_ID: WEBSITE_ID }, 'html-attribute');
+    expect(rendered).toBe('<a title="site&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;">{children}</a>');
+  });
+
+  it('throws on a placeholder without a value', () => {
+    expect(() => renderTemplate('{DOMAIN}', {}, 'html-attribute')).toThrow('No value for template placeholder {DOMAIN}');
+  });
+
+  it('keeps hostile values inside their attribute or string in every framework snippet', () => {
+    for (const [framework, config] of Object.entries(FRAMEWORKS)) {
+      for (const variant of config.variants) {
+        for (const typescript of [true, false]) {
+          const { scriptTemplate } = variantSnippet(variant, typescript);
+          const rendered = renderTemplate(scriptTemplate, { WEBSITE_ID, DOMAIN, SCRIPT_SRC: '/js/script.js' }, variant.context);
+          const label = `${framework} ${variant.id ?? ''} ${typescript ? 'ts' : 'js'}`;
+
+          expect(rendered, label).not.toContain('<script>alert');
+          expect(rendered, label).not.toContain("o'brien");
+          expect(rendered, label).not.toContain('&<x>');
+          expect(rendered, label).toContain(escapeValue(WEBSITE_ID, variant.context));
+          expect(rendered, label).toContain(escapeValue(DOMAIN, variant.context));
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,56 @@
+// Rendering of the snippet templates in frameworks.ts. Every {PLACEHOLDER} is replaced, and values
+// are escaped for where the template puts them, so a value can never close its string or attribute
+// or be picked up by a template engine
+
+export type TemplateContext =
+  // Double-quoted HTML attribute; also JSX string attributes, which decode the same entities
+  | 'html-attribute'
+  // Single- or double-quoted JavaScript/TypeScript string
+  | 'js-string'
+  // HTML attribute in a Blade view, where {{ }}, {!! !!} and @directives are live
+  | 'blade'
+  // HTML attribute in a Django template, where {{ }}, {% %} and {# #} are live
+  | 'django';
+
+export type TemplateValues = Record<string, string>;
+
+const PLACEHOLDER = /\{([A-Z][A-Z0-9_]*)\}/g;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '"': '&quot;',
+  "'": '&#39;',
+  '<': '&lt;',
+  '>': '&gt;',
+};
+
+function escapeHtmlAttribute(value: string): string {
+  return value.replace(/[&"'<>]/g, (character) => HTML_ENTITIES[character]);
+}
+
+export function escapeValue(value: string, context: TemplateContext): string {
+  switch (context) {
+    case 'html-attribute':
+      return escapeHtmlAttribute(value);
+    case 'js-string':
+      // Unicode escapes are valid in every kind of string literal, including template literals,
+      // and keep </script> and line separators out of inline scripts
+      return value.replace(/[\\'"`$<>\n\r\u2028\u2029]/g, (character) => `\\u${character.charCodeAt(0).toString(16).padStart(4, '0')}`);
+    case 'blade':
+      return escapeHtmlAttribute(value).replace(/[@{}]/g, (character) => `&#${character.charCodeAt(0)};`);
+    case 'django':
+      return escapeHtmlAttribute(value).replace(/[{}%]/g, (character) => `&#${character.charCodeAt(0)};`);
+  }
+}
+
+// Replaces every {PLACEHOLDER}; lowercase braces such as JSX {children} are left alone. A
+// placeholder without a value is a bug in the template, so it throws rather than leaking through
+export function renderTemplate(template: string, values: TemplateValues, context: TemplateContext): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      throw new Error(`No value for template placeholder ${placeholder}`);
+    }
+    return escapeValue(value, context);
+  });
+}
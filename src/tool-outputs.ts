@@ -0,0 +1,311 @@
+import { z } from "zod";
+import { visitorDataSchema } from "./datafast-client";
+import { ENDPOINT_KINDS } from "./endpoint-generators";
+import { PROXY_TARGETS } from "./proxy-configs";
+import { FRAMEWORK_TYPES, FRAMEWORK_VARIANTS } from "./types";
+
+// Output schemas for every tool; handlers return matching structuredContent next to the markdown text
+
+export type ToolOutput<Shape extends z.ZodRawShape> = z.infer<z.ZodObject<Shape>>;
+
+const paymentSummary = z.object({
+  transactionId: z.string(),
+  visitorId: z.string(),
+  amount: z.number(),
+  currency: z.string(),
+  renewal: z.boolean().optional(),
+  refunded: z.boolean().optional(),
+  recordedAt: z.string().describe("When this server recorded the payment (ISO 8601)"),
+});
+
+export const installTrackingScriptOutputSchema = {
+  framework: z.enum(FRAMEWORK_TYPES),
+  frameworkName: z.string(),
+  variant: z.enum(FRAMEWORK_VARIANTS).optional().describe("Absent for frameworks with a single setup"),
+  variantName: z.string(),
+  typescript: z.boolean(),
+  file: z.string().describe("File the snippet goes in"),
+  script: z.string().describe("Snippet to add to the project"),
+  scriptSrc: z.string(),
+  installInstructions: z.string(),
+  proxyConfig: z.string().optional().describe("Proxy configuration, when useProxy is set and a proxy target was given or found"),
+  proxy: z
+    .object({
+      target: z.enum(PROXY_TARGETS),
+      name: z.string(),
+      file: z.string().describe("Where the proxy configuration goes"),
+      instructions: z.string(),
+      extraFiles: z
+        .array(z.object({ file: z.string(), language: z.string(), code: z.string() }))
+        .optional()
+        .describe("Other files the proxy needs, e.g. the Cloudflare Worker's wrangler.toml routes"),
+      reason: z.string().optional().describe("Why this target was chosen"),
+    })
+    .optional(),
+  detection: z
+    .object({
+      framework: z.enum(FRAMEWORK_TYPES),
+      variant: z.enum(FRAMEWORK_VARIANTS).optional(),
+      typescript: z.boolean().optional(),
+      confidence: z.number(),
+      signals: z.array(z.string()),
+      warnings: z.array(z.string()),
+    })
+    .optional()
+    .describe("Present when the framework was auto-detected"),
+  patch: z
+    .object({
+      diff: z.string().describe("Unified diff against the supplied projectFiles; empty when nothing changes"),
+      files: z.array(
+        z.object({
+          path: z.string(),
+          status: z.enum(['created', 'modified', 'unchanged']),
+          note: z.string(),
+        })
+      ),
+      manual: z.array(z.string()).describe("Steps the patch could not make"),
+    })
+    .optional()
+    .describe("Present when projectFiles were supplied"),
+};
+
+export const createGoalOutputSchema = {
+  eventId: z.string(),
+  visitorId: z.string(),
+  name: z.string(),
+  message: z.string(),
+};
+
+export const createPaymentOutputSchema = {
+  status: z.enum(['recorded', 'replayed']).describe("'replayed' when an identical payment was already recorded and not resent"),
+  transactionId: z.string(),
+  visitorId: z.string(),
+  amount: z.number(),
+  currency: z.string(),
+  message: z.string(),
+  recordedAt: z.string().optional().describe("When the payment was originally recorded, for replays"),
+};
+
+export const getVisitorDataOutputSchema = {
+  visitorId: z.string(),
+  ...visitorDataSchema.shape,
+  snapshot: z.object({
+    snapshotId: z.number(),
+    capturedAt: z.string().describe("When this state of the visitor was first fetched"),
+    fetchedAt: z.string().describe("When DataFa.st last returned it"),
+    cached: z.boolean().describe("True when served from the snapshot cache without calling DataFa.st"),
+  }),
+};
+
+export const helpOutputSchema = {
+  topic: z.string(),
+  tools: z.array(z.object({ name: z.string(), description: z.string() })),
+};
+
+export const validateInstallationOutputSchema = {
+  pageUrl: z.string(),
+  scriptSrc: z.string().optional(),
+  usesProxy: z.boolean().optional(),
+  passed: z.boolean().describe("True when every check passed"),
+  checks: z.array(z.object({ id: z.string(), label: z.string(), passed: z.boolean(), evidence: z.string() })),
+};
+
+export const createGoalsBulkOutputSchema = {
+  created: z.number(),
+  failed: z.number(),
+  skipped: z.number(),
+  results: z.array(
+    z.object({
+      row: z.number(),
+      visitorId: z.string().optional(),
+      name: z.string().optional(),
+      status: z.enum(['created', 'failed', 'skipped']),
+      eventId: z.string().optional(),
+      error: z.string().optional(),
+    })
+  ),
+};
+
+export const importPaymentsOutputSchema = {
+  mode: z.enum(['preview', 'import']),
+  provider: z.string(),
+  mapping: z.record(z.string()),
+  amountUnit: z.enum(['major', 'minor']),
+  recorded: z.number().optional().describe("Payments recorded (import mode only)"),
+  rows: z.array(
+    z.object({
+      row: z.number(),
+      status: z.enum(['ready', 'skipped', 'invalid', 'recorded', 'failed']),
+      visitorId: z.string().optional(),
+      transactionId: z.string().optional(),
+      amount: z.number().optional(),
+      currency: z.string().optional(),
+      detail: z.string().optional(),
+    })
+  ),
+};
+
+export const listRecordedPaymentsOutputSchema = {
+  payments: z.array(paymentSummary),
+};
+
+const siteProfileSummary = z.object({
+  name: z.string(),
+  websiteId: z.string(),
+  domain: z.string(),
+  framework: z.enum(FRAMEWORK_TYPES).optional(),
+  useProxy: z.boolean().optional(),
+  apiKey: z.string().optional().describe("Masked API key of the profile; absent when it uses the connection's key"),
+  active: z.boolean(),
+});
+
+export const addSiteProfileOutputSchema = {
+  status: z.enum(['added', 'updated']),
+  profile: siteProfileSummary,
+};
+
+export const listSiteProfilesOutputSchema = {
+  activeProfile: z.string().optional(),
+  profiles: z.array(siteProfileSummary),
+};
+
+export const switchSiteProfileOutputSchema = {
+  profile: siteProfileSummary,
+};
+
+const distribution = () =>
+  z.array(z.object({ value: z.string(), visitors: z.number(), share: z.number().describe("Share of the fetched visitors (0-1)") }));
+
+export const saveVisitorSegmentOutputSchema = {
+  name: z.string(),
+  description: z.string().optional(),
+  visitors: z.number().describe("Unique visitor IDs saved"),
+  savedAt: z.string(),
+};
+
+export const compareVisitorSegmentsOutputSchema = {
+  segments: z.array(
+    z.object({
+      name: z.string(),
+      requested: z.number(),
+      fetched: z.number(),
+      failed: z.array(z.object({ visitorId: z.string(), error: z.string() })),
+      activity: z.object({ averageVisits: z.number().nullable(), averagePageviews: z.number().nullable() }),
+      distributions: z.object({ country: distribution(), device: distribution(), os: distribution(), browser: distribution() }),
+      goals: z.object({
+        completionRate: z.number().nullable().describe("Share of fetched visitors with at least one completed goal"),
+        byGoal: distribution(),
+      }),
+      prediction: z.object({
+        scored: z.number().describe("Visitors DataFa.st has a prediction for"),
+        averageConversionScore: z.number().nullable(),
+        averageConversionRate: z.number().nullable(),
+        averageConfidence: z.number().nullable(),
+        totalExpectedRevenue: z.number().nullable(),
+        averageExpectedRevenue: z.number().nullable(),
+      }),
+      topConverters: z.array(
+        z.object({ visitorId: z.string(), conversionScore: z.number(), expectedRevenue: z.number().nullable(), goals: z.number() })
+      ),
+    })
+  ),
+};
+
+const valueChange = <T extends z.ZodTypeAny>(value: () => T) => z.object({ before: value(), after: value() });
+
+export const getVisitorHistoryOutputSchema = {
+  visitorId: z.string(),
+  snapshots: z.array(
+    z.object({
+      snapshotId: z.number(),
+      capturedAt: z.string().describe("When this state was first fetched"),
+      lastSeenAt: z.string().describe("When DataFa.st last returned this state unchanged"),
+      visits: z.number(),
+      pageviews: z.number(),
+      goals: z.number(),
+      conversionScore: z.number().nullable(),
+    })
+  ),
+};
+
+export const diffVisitorSnapshotsOutputSchema = {
+  visitorId: z.string(),
+  from: z.object({ snapshotId: z.number(), capturedAt: z.string() }),
+  to: z.object({ snapshotId: z.number(), capturedAt: z.string() }),
+  newPages: z.array(z.string()),
+  newGoals: z.array(z.object({ name: z.string(), timestamp: z.string().nullable() })),
+  visits: valueChange(() => z.number()),
+  pageviews: valueChange(() => z.number()),
+  conversionScore: valueChange(() => z.number().nullable()),
+  conversionRate: valueChange(() => z.number().nullable()),
+  expectedRevenue: valueChange(() => z.number().nullable()),
+  lastVisit: valueChange(() => z.string().nullable()),
+  currentUrl: valueChange(() => z.string().nullable()),
+  identityChanges: z.array(z.string()),
+};
+
+const watchEntry = z.object({
+  visitorId: z.string(),
+  label: z.string().optional(),
+  scoreAbove: z.number().optional(),
+  scoreBelow: z.number().optional(),
+  goal: z.string().optional(),
+  addedAt: z.string(),
+  lastCheckedAt: z.string().optional(),
+  lastScore: z.number().nullable().describe("Conversion score observed by the last check"),
+  lastGoalCount: z.number().describe("Times the watched goal had been completed at the last check"),
+  lastError: z.string().optional().describe("Why the last check failed"),
+});
+
+export const watchVisitorOutputSchema = {
+  entry: watchEntry,
+  intervalSeconds: z.number(),
+  webhookConfigured: z.boolean(),
+};
+
+export const unwatchVisitorOutputSchema = {
+  visitorId: z.string(),
+  removed: z.boolean().describe("False when the visitor was not watched"),
+};
+
+export const listWatchlistOutputSchema = {
+  intervalSeconds: z.number(),
+  webhookUrl: z.string().optional().describe("Configured webhook, with its path redacted"),
+  nextPollAt: z.string().optional(),
+  entries: z.array(watchEntry),
+  alerts: z.array(
+    z.object({
+      alertId: z.string(),
+      visitorId: z.string(),
+      label: z.string().optional(),
+      kind: z.enum(['score_above', 'score_below', 'goal_completed']),
+      message: z.string(),
+      conversionScore: z.number().nullable(),
+      goal: z.string().optional(),
+      triggeredAt: z.string(),
+      webhook: z.enum(['sent', 'failed', 'not_configured']),
+      webhookError: z.string().optional(),
+      clientError: z.string().optional(),
+    })
+  ),
+};
+
+export const configureWatchlistOutputSchema = {
+  webhookUrl: z.string().optional().describe("Configured webhook, with its path redacted"),
+  intervalSeconds: z.number(),
+};
+
+export const generateServerEndpointsOutputSchema = {
+  framework: z.enum(FRAMEWORK_TYPES),
+  server: z.string().describe("Where the handlers run"),
+  endpoints: z.array(z.enum(ENDPOINT_KINDS)),
+  files: z.array(
+    z.object({
+      path: z.string().describe("Suggested path relative to the project root"),
+      language: z.string(),
+      code: z.string(),
+    })
+  ),
+  envVars: z.array(z.string()).describe("Server environment variables the handlers read"),
+  instructions: z.array(z.string()),
+};
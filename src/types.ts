@@ -0,0 +1,46 @@
+import type { TemplateContext } from "./templates";
+
+// Frameworks supported by the setup tools and guides
+export const FRAMEWORK_TYPES = ['nextjs', 'vue', 'react', 'angular', 'laravel', 'django', 'astro', 'svelte', 'nuxt', 'vanilla'] as const;
+
+export type FrameworkType = (typeof FRAMEWORK_TYPES)[number];
+
+export function isFrameworkType(value: string): value is FrameworkType {
+  return (FRAMEWORK_TYPES as readonly string[]).includes(value);
+}
+
+// Setups within a framework that need different files, e.g. the Next.js App and Pages Routers
+export const FRAMEWORK_VARIANTS = ['app-router', 'pages-router', 'nuxt3', 'nuxt2', 'standalone', 'ngmodule', 'vite', 'cra', 'vue-cli'] as const;
+
+export type FrameworkVariantId = (typeof FRAMEWORK_VARIANTS)[number];
+
+export type ScriptSnippet = {
+  // File the snippet goes in, relative to the project root
+  file: string;
+  // Code fence language
+  language: string;
+  scriptTemplate: string;
+};
+
+export type FrameworkVariant = ScriptSnippet & {
+  // Absent for frameworks with a single setup
+  id?: FrameworkVariantId;
+  name: string;
+  // How values are escaped where the template's placeholders sit
+  context: TemplateContext;
+  installInstructions: string;
+  // Differences for JavaScript projects; the snippet itself is TypeScript where the language matters
+  javascript?: Partial<ScriptSnippet>;
+};
+
+export type FrameworkConfig = {
+  name: string;
+  // The first variant is the default
+  variants: [FrameworkVariant, ...FrameworkVariant[]];
+};
+
+// Tagged-template SQL helper exposed by the agent's SQLite-backed Durable Object
+export type SqlTag = <T = Record<string, string | number | boolean | null>>(
+  strings: TemplateStringsArray,
+  ...values: (string | number | boolean | null)[]
+) => T[];
@@ -0,0 +1,198 @@
+import { z } from "zod";
+import type { GoalPayload, PaymentPayload } from "./datafast-client";
+
+// Client-side rules for tool inputs, enforced before anything is sent to DataFa.st or written into
+// generated code
+
+export const GOAL_NAME_MAX_LENGTH = 32;
+export const GOAL_METADATA_MAX_PROPERTIES = 10;
+export const GOAL_METADATA_VALUE_MAX_LENGTH = 255;
+
+const GOAL_IDENTIFIER = /^[a-z0-9_-]+$/;
+const WEBSITE_ID = /^[A-Za-z0-9_-]{1,64}$/;
+const DOMAIN_LABEL = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+
+// ISO 4217 codes whose minor unit is not 2 decimals; every other listed code uses 2
+const CURRENCY_DECIMALS: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0, RWF: 0,
+  UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+  CLF: 4, UYW: 4,
+};
+
+// Active ISO 4217 currency codes (funds codes included, precious metals and test codes excluded)
+const ISO_4217_CODES = new Set(
+  `AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BHD BIF BMD BND BOB BOV BRL BSD BTN BWP
+  BYN BZD CAD CDF CHE CHF CHW CLF CLP CNY COP COU CRC CUP CVE CZK DJF DKK DOP DZD EGP ERN ETB EUR FJD
+  FKP GBP GEL GHS GIP GMD GNF GTQ GYD HKD HNL HTG HUF IDR ILS INR IQD IRR ISK JMD JOD JPY KES KGS KHR
+  KMF KPW KRW KWD KYD KZT LAK LBP LKR LRD LSL LYD MAD MDL MGA MKD MMK MNT MOP MRU MUR MVR MWK MXN MXV
+  MYR MZN NAD NGN NIO NOK NPR NZD OMR PAB PEN PGK PHP PKR PLN PYG QAR RON RSD RUB RWF SAR SBD SCR SDG
+  SEK SGD SHP SLE SLL SOS SRD SSP STN SVC SYP SZL THB TJS TMT TND TOP TRY TTD TWD TZS UAH UGX USD USN
+  UYI UYU UYW UZS VED VES VND VUV WST XAF XCD XCG XOF XPF YER ZAR ZMW ZWG ZWL`.split(/\s+/)
+);
+
+export const visitorIdSchema = z.string().trim().min(1, "visitorId must not be empty");
+
+// Website IDs are dashboard-issued tokens; anything else (quotes, spaces, URLs) is a paste error
+// and would end up inside generated HTML and JavaScript
+export const websiteIdSchema = z
+  .string()
+  .trim()
+  .regex(WEBSITE_ID, "websiteId must be 1-64 letters, numbers, underscores or hyphens, as shown at https://datafa.st/dashboard");
+
+export const domainSchema = z.string().transform((value, ctx) => {
+  const normalized = normalizeDomain(value);
+  if ('error' in normalized) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: normalized.error });
+    return z.NEVER;
+  }
+  return normalized.domain;
+});
+
+// The bare domain DataFa.st expects in data-domain: "https://www.Example.com/" becomes "example.com".
+// Paths, ports, queries and credentials are rejected rather than silently dropped
+export function normalizeDomain(input: string): { domain: string } | { error: string } {
+  const invalid = { error: `domain must be a bare domain such as example.com (got "${input.trim()}")` };
+  const value = input.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/$/, '');
+  if (!value || /[/?#:@\s"'<>`\\]/.test(value)) {
+    return invalid;
+  }
+  let hostname: string;
+  try {
+    // Converts internationalized domains to the punycode form browsers report
+    hostname = new URL(`https://${value}`).hostname.replace(/\.$/, '');
+  } catch {
+    return invalid;
+  }
+  hostname = hostname.replace(/^www\./, '');
+  const labels = hostname.split('.');
+  if (labels.length < 2 || !labels.every((label) => DOMAIN_LABEL.test(label)) || /^\d+$/.test(labels[labels.length - 1])) {
+    return invalid;
+  }
+  return { domain: hostname };
+}
+
+export const goalNameSchema = z
+  .string()
+  .min(1, "name must not be empty")
+  .max(GOAL_NAME_MAX_LENGTH, `name must be at most ${GOAL_NAME_MAX_LENGTH} characters`)
+  .regex(GOAL_IDENTIFIER, "name may only contain lowercase letters, numbers, underscores and hyphens (e.g. 'newsletter_signup')");
+
+export const goalMetadataSchema = z
+  .record(
+    z
+      .string()
+      .max(GOAL_METADATA_VALUE_MAX_LENGTH, `metadata values must be at most ${GOAL_METADATA_VALUE_MAX_LENGTH} characters`)
+  )
+  .superRefine((metadata, ctx) => {
+    const keys = Object.keys(metadata);
+    if (keys.length > GOAL_METADATA_MAX_PROPERTIES) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `metadata may have at most ${GOAL_METADATA_MAX_PROPERTIES} properties (got ${keys.length})`,
+      });
+    }
+    for (const key of keys) {
+      if (key.length > GOAL_NAME_MAX_LENGTH || !GOAL_IDENTIFIER.test(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `metadata key "${key}" must be 1-${GOAL_NAME_MAX_LENGTH} lowercase letters, numbers, underscores or hyphens`,
+        });
+      }
+    }
+  });
+
+export const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .refine((code) => ISO_4217_CODES.has(code), (code) => ({
+    message: `currency "${code}" is not an ISO 4217 currency code (e.g. USD, EUR, GBP, JPY)`,
+  }));
+
+export const amountSchema = z
+  .number()
+  .finite("amount must be a finite number")
+  .nonnegative("amount must be zero or positive");
+
+export const transactionIdSchema = z
+  .string()
+  .trim()
+  .min(1, "transactionId must not be empty")
+  .max(255, "transactionId must be at most 255 characters");
+
+export const goalInputSchema = z.object({
+  visitorId: visitorIdSchema,
+  name: goalNameSchema,
+  metadata: goalMetadataSchema.optional(),
+});
+
+export const paymentInputSchema = z
+  .object({
+    visitorId: visitorIdSchema,
+    amount: amountSchema,
+    currency: currencySchema,
+    transactionId: transactionIdSchema,
+    email: z.string().optional(),
+    name: z.string().optional(),
+    customerId: z.string().optional(),
+    renewal: z.boolean().optional(),
+    refunded: z.boolean().optional(),
+  })
+  .superRefine((payment, ctx) => {
+    const issue = checkAmountPrecision(payment.amount, payment.currency);
+    if (issue) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount'], message: issue });
+    }
+  });
+
+export type GoalInput = z.infer<typeof goalInputSchema>;
+export type PaymentInput = z.infer<typeof paymentInputSchema>;
+
+// Maps validated tool input onto the request bodies of POST /goals and POST /payments
+export function toGoalPayload(input: GoalInput): GoalPayload {
+  return {
+    datafast_visitor_id: input.visitorId,
+    name: input.name,
+    metadata: input.metadata,
+  };
+}
+
+export function toPaymentPayload(input: PaymentInput): PaymentPayload {
+  return {
+    datafast_visitor_id: input.visitorId,
+    amount: input.amount,
+    currency: input.currency,
+    transaction_id: input.transactionId,
+    email: input.email,
+    name: input.name,
+    customer_id: input.customerId,
+    renewal: input.renewal,
+    refunded: input.refunded,
+  };
+}
+
+export function currencyDecimals(currency: string): number {
+  return CURRENCY_DECIMALS[currency.toUpperCase()] ?? 2;
+}
+
+// Returns a message when the amount has more decimals than the currency's minor unit allows
+export function checkAmountPrecision(amount: number, currency: string): string | undefined {
+  const decimals = currencyDecimals(currency);
+  const scaled = amount * 10 ** decimals;
+  if (Math.abs(scaled - Math.round(scaled)) < 1e-6) {
+    return undefined;
+  }
+  return decimals === 0
+    ? `${currency.toUpperCase()} has no minor unit, so amount must be a whole number (got ${amount})`
+    : `${currency.toUpperCase()} allows at most ${decimals} decimal places (got ${amount})`;
+}
+
+// One line per failed field, e.g. "name: name must be at most 32 characters"
+export function formatValidationIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const field = issue.path.join('.');
+    return field ? `${field}: ${issue.message}` : issue.message;
+  });
+}
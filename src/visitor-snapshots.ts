@@ -0,0 +1,183 @@
+import type { VisitorData } from "./datafast-client";
+import type { SqlTag } from "./types";
+
+// get_visitor_data results kept per API key in the account's SQLite: the latest snapshot doubles as a cache,
+// and every change to a visitor starts a new snapshot so their history can be diffed
+
+// Cached visitor data younger than this is served without calling DataFa.st
+export const VISITOR_CACHE_TTL_SECONDS = 300;
+// Snapshots kept per visitor; the oldest are pruned first
+export const VISITOR_SNAPSHOTS_MAX = 50;
+
+export type VisitorSnapshot = {
+  snapshotId: number;
+  visitorId: string;
+  data: VisitorData;
+  // When this state was first fetched, and when DataFa.st last returned it unchanged
+  capturedAt: string;
+  lastSeenAt: string;
+};
+
+export type ValueChange<T> = { before: T; after: T };
+
+export type VisitorDiff = {
+  visitorId: string;
+  from: { snapshotId: number; capturedAt: string };
+  to: { snapshotId: number; capturedAt: string };
+  newPages: string[];
+  newGoals: Array<{ name: string; timestamp: string | null }>;
+  visits: ValueChange<number>;
+  pageviews: ValueChange<number>;
+  conversionScore: ValueChange<number | null>;
+  conversionRate: ValueChange<number | null>;
+  expectedRevenue: ValueChange<number | null>;
+  lastVisit: ValueChange<string | null>;
+  currentUrl: ValueChange<string | null>;
+  // Identity fields that changed, e.g. "country: France → Germany"
+  identityChanges: string[];
+};
+
+type SnapshotRow = {
+  id: number;
+  visitor_id: string;
+  data: string;
+  captured_at: number;
+  last_seen_at: number;
+};
+
+export class VisitorSnapshotStore {
+  private readonly sql: SqlTag;
+
+  constructor(sql: SqlTag) {
+    this.sql = sql;
+    this.sql`CREATE TABLE IF NOT EXISTS visitor_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      visitor_id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      captured_at INTEGER NOT NULL,
+      last_seen_at INTEGER NOT NULL
+    )`;
+    this.sql`CREATE INDEX IF NOT EXISTS visitor_snapshots_visitor ON visitor_snapshots (visitor_id, id)`;
+  }
+
+  // The latest snapshot, if DataFa.st returned it within the last `maxAgeSeconds`
+  fresh(visitorId: string, maxAgeSeconds: number): VisitorSnapshot | undefined {
+    const latest = this.latest(visitorId);
+    return latest && Date.now() - Date.parse(latest.lastSeenAt) < maxAgeSeconds * 1000 ? latest : undefined;
+  }
+
+  // Unchanged data only refreshes the latest snapshot's lastSeenAt; changed data starts a new snapshot
+  record(visitorId: string, data: VisitorData): VisitorSnapshot {
+    const now = Date.now();
+    const serialized = JSON.stringify(data);
+    const [latest] = this.sql<SnapshotRow>`SELECT id, visitor_id, data, captured_at, last_seen_at FROM visitor_snapshots
+      WHERE visitor_id = ${visitorId} ORDER BY id DESC LIMIT 1`;
+    if (latest && latest.data === serialized) {
+      this.sql`UPDATE visitor_snapshots SET last_seen_at = ${now} WHERE id = ${latest.id}`;
+      return toSnapshot({ ...latest, last_seen_at: now });
+    }
+
+    const [inserted] = this.sql<SnapshotRow>`INSERT INTO visitor_snapshots (visitor_id, data, captured_at, last_seen_at)
+      VALUES (${visitorId}, ${serialized}, ${now}, ${now}) RETURNING id, visitor_id, data, captured_at, last_seen_at`;
+    this.sql`DELETE FROM visitor_snapshots WHERE visitor_id = ${visitorId} AND id NOT IN (
+      SELECT id FROM visitor_snapshots WHERE visitor_id = ${visitorId} ORDER BY id DESC LIMIT ${VISITOR_SNAPSHOTS_MAX})`;
+    return toSnapshot(inserted);
+  }
+
+  latest(visitorId: string): VisitorSnapshot | undefined {
+    return this.history(visitorId, 1)[0];
+  }
+
+  get(visitorId: string, snapshotId: number): VisitorSnapshot | undefined {
+    const [row] = this.sql<SnapshotRow>`SELECT id, visitor_id, data, captured_at, last_seen_at FROM visitor_snapshots
+      WHERE visitor_id = ${visitorId} AND id = ${snapshotId}`;
+    return row ? toSnapshot(row) : undefined;
+  }
+
+  // Newest first
+  history(visitorId: string, limit: number): VisitorSnapshot[] {
+    const rows = this.sql<SnapshotRow>`SELECT id, visitor_id, data, captured_at, last_seen_at FROM visitor_snapshots
+      WHERE visitor_id = ${visitorId} ORDER BY id DESC LIMIT ${limit}`;
+    return rows.map(toSnapshot);
+  }
+
+  // The snapshot that preceded `snapshotId`
+  before(visitorId: string, snapshotId: number): VisitorSnapshot | undefined {
+    const [row] = this.sql<SnapshotRow>`SELECT id, visitor_id, data, captured_at, last_seen_at FROM visitor_snapshots
+      WHERE visitor_id = ${visitorId} AND id < ${snapshotId} ORDER BY id DESC LIMIT 1`;
+    return row ? toSnapshot(row) : undefined;
+  }
+
+  // Visitor IDs starting with `prefix`, most recently fetched first
+  visitorIds(prefix: string, limit: number): string[] {
+    const rows = this.sql<{ visitor_id: string }>`SELECT visitor_id FROM visitor_snapshots
+      WHERE substr(visitor_id, 1, ${prefix.length}) = ${prefix} GROUP BY visitor_id ORDER BY MAX(last_seen_at) DESC LIMIT ${limit}`;
+    return rows.map((row) => row.visitor_id);
+  }
+
+  // The state the visitor was in at `time`: the newest snapshot captured at or before it
+  at(visitorId: string, time: number): VisitorSnapshot | undefined {
+    const [row] = this.sql<SnapshotRow>`SELECT id, visitor_id, data, captured_at, last_seen_at FROM visitor_snapshots
+      WHERE visitor_id = ${visitorId} AND captured_at <= ${time} ORDER BY id DESC LIMIT 1`;
+    return row ? toSnapshot(row) : undefined;
+  }
+}
+
+// An ISO 8601 timestamp or a relative duration such as "30m", "24h" or "7d", as epoch milliseconds
+export function parseSince(value: string, now = Date.now()): number | undefined {
+  const relative = /^(\d+)\s*([mhd])$/i.exec(value.trim());
+  if (relative) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2].toLowerCase() as 'm' | 'h' | 'd'];
+    return now - Number(relative[1]) * unitMs;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+export function diffSnapshots(from: VisitorSnapshot, to: VisitorSnapshot): VisitorDiff {
+  const before = from.data;
+  const after = to.data;
+  const change = <T>(value: (data: VisitorData) => T): ValueChange<T> => ({ before: value(before), after: value(after) });
+
+  const seenPages = new Set(before.activity.pages);
+  // Goals are matched by name and timestamp, so a goal completed again counts as new
+  const goalKey = (goal: { name: string; timestamp: string | null }) => `${goal.name}\u0000${goal.timestamp ?? ''}`;
+  const seenGoals = new Map<string, number>();
+  for (const goal of before.activity.goals) {
+    seenGoals.set(goalKey(goal), (seenGoals.get(goalKey(goal)) ?? 0) + 1);
+  }
+  const newGoals = after.activity.goals.filter((goal) => {
+    const remaining = seenGoals.get(goalKey(goal)) ?? 0;
+    seenGoals.set(goalKey(goal), remaining - 1);
+    return remaining <= 0;
+  });
+
+  const identityFields = ['country', 'region', 'city', 'browser', 'device_type', 'os'] as const;
+  return {
+    visitorId: to.visitorId,
+    from: { snapshotId: from.snapshotId, capturedAt: from.capturedAt },
+    to: { snapshotId: to.snapshotId, capturedAt: to.capturedAt },
+    newPages: [...new Set(after.activity.pages.filter((page) => !seenPages.has(page)))],
+    newGoals: newGoals.map(({ name, timestamp }) => ({ name, timestamp })),
+    visits: change((data) => data.activity.visit_count),
+    pageviews: change((data) => data.activity.pageview_count),
+    conversionScore: change((data) => data.prediction?.conversion_score ?? null),
+    conversionRate: change((data) => data.prediction?.conversion_rate ?? null),
+    expectedRevenue: change((data) => data.prediction?.expected_revenue ?? null),
+    lastVisit: change((data) => data.activity.last_visit),
+    currentUrl: change((data) => data.activity.current_url),
+    identityChanges: identityFields
+      .filter((field) => before.identity[field] !== after.identity[field])
+      .map((field) => `${field}: ${before.identity[field] ?? 'Unknown'} → ${after.identity[field] ?? 'Unknown'}`),
+  };
+}
+
+function toSnapshot(row: SnapshotRow): VisitorSnapshot {
+  return {
+    snapshotId: row.id,
+    visitorId: row.visitor_id,
+    data: JSON.parse(row.data),
+    capturedAt: new Date(row.captured_at).toISOString(),
+    lastSeenAt: new Date(row.last_seen_at).toISOString(),
+  };
+}
@@ -0,0 +1,290 @@
+import type { VisitorData } from "./datafast-client";
+import type { SqlTag } from "./types";
+
+// Visitors watched for conversion signals: the account's alarm polls them and records an alert when
+// a threshold is crossed or a watched goal is completed, then notifies the configured webhook and
+// the MCP sessions listening for alerts
+
+export const WATCHLIST_DEFAULT_INTERVAL_SECONDS = 900;
+export const WATCHLIST_MIN_INTERVAL_SECONDS = 60;
+export const WATCHLIST_MAX_VISITORS = 100;
+// Older alerts are deleted as new ones are recorded
+export const WATCHLIST_MAX_ALERTS = 500;
+// Same cut-offs as the get_visitor_data recommendations
+export const HOT_LEAD_SCORE = 70;
+export const COLD_LEAD_SCORE = 30;
+export const WATCHLIST_ALERTS_URI = 'watchlist://datafast/alerts';
+
+export type WatchRule = {
+  visitorId: string;
+  label?: string;
+  // Alert when conversion_score rises above / falls below these
+  scoreAbove?: number;
+  scoreBelow?: number;
+  // Alert when this goal is completed (again)
+  goal?: string;
+};
+
+export type WatchEntry = WatchRule & {
+  addedAt: string;
+  lastCheckedAt?: string;
+  lastScore: number | null;
+  lastGoalCount: number;
+  lastError?: string;
+};
+
+export type WatchAlertKind = 'score_above' | 'score_below' | 'goal_completed';
+
+export type WatchAlert = {
+  alertId: string;
+  visitorId: string;
+  label?: string;
+  kind: WatchAlertKind;
+  message: string;
+  conversionScore: number | null;
+  goal?: string;
+  triggeredAt: string;
+  // Outcome of the webhook delivery
+  webhook: 'sent' | 'failed' | 'not_configured';
+  webhookError?: string;
+  // Why the alert did not reach connected MCP clients, when it did not
+  clientError?: string;
+};
+
+// What an MCP session reports after passing an alert on to its client
+export type SessionDelivery = { connected: false } | { connected: true; error?: string };
+
+export type WatchlistSettings = {
+  webhookUrl?: string;
+  intervalSeconds: number;
+};
+
+type WatchRow = {
+  visitor_id: string;
+  label: string | null;
+  score_above: number | null;
+  score_below: number | null;
+  goal: string | null;
+  added_at: number;
+  last_checked_at: number | null;
+  last_score: number | null;
+  last_goal_count: number;
+  last_error: string | null;
+};
+
+type AlertRow = {
+  alert_id: string;
+  visitor_id: string;
+  label: string | null;
+  kind: WatchAlertKind;
+  message: string;
+  conversion_score: number | null;
+  goal: string | null;
+  triggered_at: number;
+  webhook: WatchAlert['webhook'];
+  webhook_error: string | null;
+  client_error: string | null;
+};
+
+export class WatchlistStore {
+  private readonly sql: SqlTag;
+
+  constructor(sql: SqlTag) {
+    this.sql = sql;
+    this.sql`CREATE TABLE IF NOT EXISTS watchlist (
+      visitor_id TEXT PRIMARY KEY,
+      label TEXT,
+      score_above REAL,
+      score_below REAL,
+      goal TEXT,
+      added_at INTEGER NOT NULL,
+      last_checked_at INTEGER,
+      last_score REAL,
+      last_goal_count INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT
+    )`;
+    this.sql`CREATE TABLE IF NOT EXISTS watchlist_alerts (
+      alert_id TEXT PRIMARY KEY,
+      visitor_id TEXT NOT NULL,
+      label TEXT,
+      kind TEXT NOT NULL,
+      message TEXT NOT NULL,
+      conversion_score REAL,
+      goal TEXT,
+      triggered_at INTEGER NOT NULL,
+      webhook TEXT NOT NULL,
+      webhook_error TEXT,
+      client_error TEXT
+    )`;
+    this.sql`CREATE TABLE IF NOT EXISTS watchlist_settings (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      webhook_url TEXT,
+      interval_seconds INTEGER NOT NULL
+    )`;
+  }
+
+  // Adds or replaces the rule; `data` is the visitor's current state, so only later changes alert
+  watch(rule: WatchRule, data: VisitorData): WatchEntry {
+    const entry: WatchEntry = {
+      ...rule,
+      addedAt: new Date().toISOString(),
+      lastScore: data.prediction?.conversion_score ?? null,
+      lastGoalCount: rule.goal ? countGoal(data, rule.goal) : 0,
+    };
+    this.sql`INSERT OR REPLACE INTO watchlist (visitor_id, label, score_above, score_below, goal, added_at, last_score, last_goal_count)
+      VALUES (${rule.visitorId}, ${rule.label ?? null}, ${rule.scoreAbove ?? null}, ${rule.scoreBelow ?? null}, ${rule.goal ?? null},
+        ${Date.parse(entry.addedAt)}, ${entry.lastScore}, ${entry.lastGoalCount})`;
+    return entry;
+  }
+
+  unwatch(visitorId: string): boolean {
+    const removed = this.sql<{ visitor_id: string }>`DELETE FROM watchlist WHERE visitor_id = ${visitorId} RETURNING visitor_id`;
+    return removed.length > 0;
+  }
+
+  entries(): WatchEntry[] {
+    const rows = this.sql<WatchRow>`SELECT visitor_id, label, score_above, score_below, goal, added_at, last_checked_at,
+      last_score, last_goal_count, last_error FROM watchlist ORDER BY added_at`;
+    return rows.map(toEntry);
+  }
+
+  count(): number {
+    const [row] = this.sql<{ count: number }>`SELECT COUNT(*) AS count FROM watchlist`;
+    return row.count;
+  }
+
+  // Stores the state a poll observed, so the next poll only alerts on new changes
+  checked(visitorId: string, data: VisitorData | undefined, error?: string): void {
+    const now = Date.now();
+    if (!data) {
+      this.sql`UPDATE watchlist SET last_checked_at = ${now}, last_error = ${error ?? null} WHERE visitor_id = ${visitorId}`;
+      return;
+    }
+    const [row] = this.sql<{ goal: string | null }>`SELECT goal FROM watchlist WHERE visitor_id = ${visitorId}`;
+    const goalCount = row?.goal ? countGoal(data, row.goal) : 0;
+    this.sql`UPDATE watchlist SET last_checked_at = ${now}, last_score = ${data.prediction?.conversion_score ?? null},
+      last_goal_count = ${goalCount}, last_error = NULL WHERE visitor_id = ${visitorId}`;
+  }
+
+  recordAlert(alert: WatchAlert): void {
+    this.sql`INSERT INTO watchlist_alerts (alert_id, visitor_id, label, kind, message, conversion_score, goal, triggered_at, webhook, webhook_error)
+      VALUES (${alert.alertId}, ${alert.visitorId}, ${alert.label ?? null}, ${alert.kind}, ${alert.message}, ${alert.conversionScore},
+        ${alert.goal ?? null}, ${Date.parse(alert.triggeredAt)}, ${alert.webhook}, ${alert.webhookError ?? null})`;
+    this.sql`DELETE FROM watchlist_alerts WHERE alert_id NOT IN (
+      SELECT alert_id FROM watchlist_alerts ORDER BY triggered_at DESC LIMIT ${WATCHLIST_MAX_ALERTS}
+    )`;
+  }
+
+  clientNotified(alertId: string, error: string | undefined): void {
+    this.sql`UPDATE watchlist_alerts SET client_error = ${error ?? null} WHERE alert_id = ${alertId}`;
+  }
+
+  // Newest first
+  alerts(limit: number): WatchAlert[] {
+    const rows = this.sql<AlertRow>`SELECT alert_id, visitor_id, label, kind, message, conversion_score, goal, triggered_at,
+      webhook, webhook_error, client_error FROM watchlist_alerts ORDER BY triggered_at DESC LIMIT ${limit}`;
+    return rows.map(toAlert);
+  }
+
+  settings(): WatchlistSettings {
+    const [row] = this.sql<{ webhook_url: string | null; interval_seconds: number }>`SELECT webhook_url, interval_seconds
+      FROM watchlist_settings WHERE id = 1`;
+    return {
+      webhookUrl: row?.webhook_url ?? undefined,
+      intervalSeconds: row?.interval_seconds ?? WATCHLIST_DEFAULT_INTERVAL_SECONDS,
+    };
+  }
+
+  saveSettings(settings: WatchlistSettings): void {
+    this.sql`INSERT OR REPLACE INTO watchlist_settings (id, webhook_url, interval_seconds)
+      VALUES (1, ${settings.webhookUrl ?? null}, ${settings.intervalSeconds})`;
+  }
+}
+
+// Alerts for the changes between the last observed state of a watched visitor and `data`.
+// Score alerts fire when the threshold is crossed, not on every poll while beyond it
+export function evaluateWatch(entry: WatchEntry, data: VisitorData): Array<Pick<WatchAlert, 'kind' | 'message' | 'conversionScore' | 'goal'>> {
+  const alerts: Array<Pick<WatchAlert, 'kind' | 'message' | 'conversionScore' | 'goal'>> = [];
+  const score = data.prediction?.conversion_score ?? null;
+  const name = entry.label ? `${entry.label} (${entry.visitorId})` : entry.visitorId;
+
+  if (score !== null && entry.scoreAbove !== undefined && score > entry.scoreAbove && !(entry.lastScore !== null && entry.lastScore > entry.scoreAbove)) {
+    alerts.push({
+      kind: 'score_above',
+      conversionScore: score,
+      message: `🔥 Hot lead: ${name} conversion score rose to ${score}/100 (above ${entry.scoreAbove})`,
+    });
+  }
+  if (score !== null && entry.scoreBelow !== undefined && score < entry.scoreBelow && !(entry.lastScore !== null && entry.lastScore < entry.scoreBelow)) {
+    alerts.push({
+      kind: 'score_below',
+      conversionScore: score,
+      message: `🧊 Cooling lead: ${name} conversion score fell to ${score}/100 (below ${entry.scoreBelow})`,
+    });
+  }
+  if (entry.goal && countGoal(data, entry.goal) > entry.lastGoalCount) {
+    alerts.push({
+      kind: 'goal_completed',
+      conversionScore: score,
+      goal: entry.goal,
+      message: `🎯 ${name} completed the goal "${entry.goal}"${score === null ? '' : ` (conversion score ${score}/100)`}`,
+    });
+  }
+  return alerts;
+}
+
+// POSTs the alert as JSON; `text` makes the payload readable by Slack-compatible incoming webhooks
+export async function deliverAlert(
+  webhookUrl: string | undefined,
+  alert: Omit<WatchAlert, 'webhook' | 'webhookError'>
+): Promise<Pick<WatchAlert, 'webhook' | 'webhookError'>> {
+  if (!webhookUrl) {
+    return { webhook: 'not_configured' };
+  }
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'datafast-mcp-watchlist' },
+      body: JSON.stringify({ event: 'datafast.watchlist.alert', text: alert.message, alert }),
+      signal: AbortSignal.timeout(10_000),
+    });
+    return response.ok ? { webhook: 'sent' } : { webhook: 'failed', webhookError: `HTTP ${response.status}` };
+  } catch (error) {
+    return { webhook: 'failed', webhookError: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function countGoal(data: VisitorData, goal: string): number {
+  return data.activity.goals.filter((completed) => completed.name === goal).length;
+}
+
+function toEntry(row: WatchRow): WatchEntry {
+  return {
+    visitorId: row.visitor_id,
+    label: row.label ?? undefined,
+    scoreAbove: row.score_above ?? undefined,
+    scoreBelow: row.score_below ?? undefined,
+    goal: row.goal ?? undefined,
+    addedAt: new Date(row.added_at).toISOString(),
+    lastCheckedAt: row.last_checked_at === null ? undefined : new Date(row.last_checked_at).toISOString(),
+    lastScore: row.last_score,
+    lastGoalCount: row.last_goal_count,
+    lastError: row.last_error ?? undefined,
+  };
+}
+
+function toAlert(row: AlertRow): WatchAlert {
+  return {
+    alertId: row.alert_id,
+    visitorId: row.visitor_id,
+    label: row.label ?? undefined,
+    kind: row.kind,
+    message: row.message,
+    conversionScore: row.conversion_score,
+    goal: row.goal ?? undefined,
+    triggeredAt: new Date(row.triggered_at).toISOString(),
+    webhook: row.webhook,
+    webhookError: row.webhook_error ?? undefined,
+    clientError: row.client_error ?? undefined,
+  };
+}
@@ -0,0 +1,246 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { parseWebhookEvent, verifyWebhookSignature, WEBHOOK_TOLERANCE_SECONDS } from "./webhooks";
+
+// Signatures are computed with node:crypto rather than the module's own Web Crypto helper, so the
+// tests check the providers' documented schemes instead of the implementation against itself
+
+const SECRET = 'whsec_test_secret';
+const BODY = '{"type":"checkout.session.completed","data":{"object":{"id":"cs_test_1"}}}';
+const NOW = 1_760_000_000;
+
+function hmac(payload: string, secret = SECRET): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function stripeHeaders(timestamp: number, ...signatures: string[]): Headers {
+  return new Headers({ 'Stripe-Signature': [`t=${timestamp}`, ...signatures.map((signature) => `v1=${signature}`)].join(',') });
+}
+
+function paddleHeaders(timestamp: number, signature: string): Headers {
+  return new Headers({ 'Paddle-Signature': `ts=${timestamp};h1=${signature}` });
+}
+
+describe('verifyWebhookSignature: Stripe', () => {
+  it('accepts a signature over "<timestamp>.<body>"', async () => {
+    const headers = stripeHeaders(NOW, hmac(`${NOW}.${BODY}`));
+    expect(await verifyWebhookSignature('stripe', BODY, headers, SECRET, NOW)).toBeUndefined();
+  });
+
+  it('accepts the header when any of several v1 signatures matches (secret rotation)', async () => {
+    const headers = stripeHeaders(NOW, hmac(`${NOW}.${BODY}`, 'old_secret'), hmac(`${NOW}.${BODY}`));
+    expect(await verifyWebhookSignature('stripe', BODY, headers, SECRET, NOW)).toBeUndefined();
+  });
+
+  it('accepts uppercase hex and whitespace around the parts', async () => {
+    const headers = new Headers({ 'Stripe-Signature': `t=${NOW}, v1=${hmac(`${NOW}.${BODY}`).toUpperCase()}` });
+    expect(await verifyWebhookSignature('stripe', BODY, headers, SECRET, NOW)).toBeUndefined();
+  });
+
+  it('rejects a modified body or a different secret', async () => {
+    const headers = stripeHeaders(NOW, hmac(`${NOW}.${BODY}`));
+    expect(await verifyWebhookSignature('stripe', `${BODY} `, headers, SECRET, NOW)).toBe('signature does not match');
+    expect(await verifyWebhookSignature('stripe', BODY, headers, 'another_secret', NOW)).toBe('signature does not match');
+  });
+
+  it('rejects a signature whose timestamp was not part of the signed payload', async () => {
+    const headers = stripeHeaders(NOW, hmac(BODY));
+    expect(await verifyWebhookSignature('stripe', BODY, headers, SECRET, NOW)).toBe('signature does not match');
+  });
+
+  it('rejects missing and malformed headers', async () => {
+    expect(await verifyWebhookSignature('stripe', BODY, new Headers(), SECRET, NOW)).toBe('missing Stripe-Signature header');
+    const noTimestamp = new Headers({ 'Stripe-Signature': `v1=${hmac(`${NOW}.${BODY}`)}` });
+    expect(await verifyWebhookSignature('stripe', BODY, noTimestamp, SECRET, NOW)).toBe('malformed signature header');
+    const noSignature = new Headers({ 'Stripe-Signature': `t=${NOW},v0=abc` });
+    expect(await verifyWebhookSignature('stripe', BODY, noSignature, SECRET, NOW)).toBe('malformed signature header');
+    const badTimestamp = new Headers({ 'Stripe-Signature': `t=soon,v1=${hmac(`${NOW}.${BODY}`)}` });
+    expect(await verifyWebhookSignature('stripe', BODY, badTimestamp, SECRET, NOW)).toBe('malformed signature header');
+  });
+
+  it(`accepts timestamps up to ${WEBHOOK_TOLERANCE_SECONDS} seconds away and rejects older or later ones`, async () => {
+    for (const offset of [-WEBHOOK_TOLERANCE_SECONDS, WEBHOOK_TOLERANCE_SECONDS]) {
+      const timestamp = NOW + offset;
+      const headers = stripeHeaders(timestamp, hmac(`${timestamp}.${BODY}`));
+      expect(await verifyWebhookSignature('stripe', BODY, headers, SECRET, NOW)).toBeUndefined();
+    }
+    for (const offset of [-(WEBHOOK_TOLERANCE_SECONDS + 1), WEBHOOK_TOLERANCE_SECONDS + 1]) {
+      const timestamp = NOW + offset;
+      const headers = stripeHeaders(timestamp, hmac(`${timestamp}.${BODY}`));
+      expect(await verifyWebhookSignature('stripe', BODY, headers, SECRET, NOW)).toBe(
+        `signature timestamp is more than ${WEBHOOK_TOLERANCE_SECONDS} seconds old`
+      );
+    }
+  });
+});
+
+describe('verifyWebhookSignature: Paddle', () => {
+  it('accepts a signature over "<timestamp>:<body>"', async () => {
+    expect(await verifyWebhookSignature('paddle', BODY, paddleHeaders(NOW, hmac(`${NOW}:${BODY}`)), SECRET, NOW)).toBeUndefined();
+  });
+
+  it("rejects Stripe's payload format and a modified body", async () => {
+    expect(await verifyWebhookSignature('paddle', BODY, paddleHeaders(NOW, hmac(`${NOW}.${BODY}`)), SECRET, NOW)).toBe('signature does not match');
+    expect(await verifyWebhookSignature('paddle', '{}', paddleHeaders(NOW, hmac(`${NOW}:${BODY}`)), SECRET, NOW)).toBe('signature does not match');
+  });
+
+  it('rejects stale timestamps and missing headers', async () => {
+    const timestamp = NOW - WEBHOOK_TOLERANCE_SECONDS - 1;
+    const stale = paddleHeaders(timestamp, hmac(`${timestamp}:${BODY}`));
+    expect(await verifyWebhookSignature('paddle', BODY, stale, SECRET, NOW)).toBe(`signature timestamp is more than ${WEBHOOK_TOLERANCE_SECONDS} seconds old`);
+    expect(await verifyWebhookSignature('paddle', BODY, new Headers(), SECRET, NOW)).toBe('missing Paddle-Signature header');
+  });
+});
+
+describe('verifyWebhookSignature: Lemon Squeezy', () => {
+  it('accepts a hex signature of the raw body in X-Signature', async () => {
+    const headers = new Headers({ 'X-Signature': hmac(BODY) });
+    expect(await verifyWebhookSignature('lemonsqueezy', BODY, headers, SECRET, NOW)).toBeUndefined();
+  });
+
+  it('rejects a modified body, a different secret and a missing header', async () => {
+    const headers = new Headers({ 'X-Signature': hmac(BODY) });
+    expect(await verifyWebhookSignature('lemonsqueezy', `${BODY}\n`, headers, SECRET, NOW)).toBe('signature does not match');
+    expect(await verifyWebhookSignature('lemonsqueezy', BODY, headers, 'another_secret', NOW)).toBe('signature does not match');
+    expect(await verifyWebhookSignature('lemonsqueezy', BODY, new Headers(), SECRET, NOW)).toBe('missing X-Signature header');
+  });
+
+  it('rejects a truncated signature', async () => {
+    const headers = new Headers({ 'X-Signature': hmac(BODY).slice(0, 32) });
+    expect(await verifyWebhookSignature('lemonsqueezy', BODY, headers, SECRET, NOW)).toBe('signature does not match');
+  });
+});
+
+const REFUNDS_UNSUPPORTED = 'refunds of recorded payments are not supported by the DataFa.st API';
+
+describe('parseWebhookEvent: Stripe', () => {
+  const checkout = (object: Record<string, unknown>) => ({
+    type: 'checkout.session.completed',
+    data: {
+      object: {
+        id: 'cs_test_1',
+        payment_status: 'paid',
+        amount_total: 2999,
+        currency: 'usd',
+        payment_intent: 'pi_1',
+        customer: 'cus_1',
+        customer_details: { email: 'a@example.com', name: 'Ada' },
+        metadata: { datafast_visitor_id: 'visitor-1' },
+        ...object,
+      },
+    },
+  });
+
+  it('maps a paid checkout session onto a payment keyed by its payment intent', () => {
+    expect(parseWebhookEvent('stripe', checkout({}))).toEqual({
+      kind: 'payment',
+      provider: 'stripe',
+      eventType: 'checkout.session.completed',
+      input: { visitorId: 'visitor-1', amount: 29.99, currency: 'USD', transactionId: 'pi_1', email: 'a@example.com', name: 'Ada', customerId: 'cus_1' },
+    });
+  });
+
+  it('keys subscription checkouts by their invoice and converts zero-decimal currencies', () => {
+    const event = parseWebhookEvent('stripe', checkout({ invoice: 'in_1', amount_total: 5000, currency: 'jpy' }));
+    expect(event).toMatchObject({ kind: 'payment', input: { transactionId: 'in_1', amount: 5000, currency: 'JPY' } });
+  });
+
+  it('records renewal invoices with the subscription metadata and ignores the first invoice', () => {
+    const invoice = (billingReason: string) => ({
+      type: 'invoice.paid',
+      data: {
+        object: {
+          id: 'in_2',
+          billing_reason: billingReason,
+          amount_paid: 1500,
+          currency: 'eur',
+          customer_email: 'a@example.com',
+          parent: { subscription_details: { metadata: { datafast_visitor_id: 'visitor-1' } } },
+        },
+      },
+    });
+    expect(parseWebhookEvent('stripe', invoice('subscription_cycle'))).toMatchObject({
+      kind: 'payment',
+      input: { visitorId: 'visitor-1', amount: 15, currency: 'EUR', transactionId: 'in_2', renewal: true },
+    });
+    expect(parseWebhookEvent('stripe', invoice('subscription_create'))).toMatchObject({ kind: 'ignored' });
+  });
+
+  it('ignores unpaid sessions, sessions without a visitor ID, refunds and other events', () => {
+    expect(parseWebhookEvent('stripe', checkout({ payment_status: 'unpaid' }))).toEqual({
+      kind: 'ignored',
+      provider: 'stripe',
+      eventType: 'checkout.session.completed',
+      reason: 'checkout session payment_status is "unpaid"',
+    });
+    expect(parseWebhookEvent('stripe', checkout({ metadata: {} }))).toMatchObject({ kind: 'ignored', reason: 'no datafast_visitor_id in the checkout metadata' });
+    expect(parseWebhookEvent('stripe', { type: 'charge.refunded', data: { object: { id: 'ch_1' } } })).toMatchObject({ kind: 'ignored', reason: REFUNDS_UNSUPPORTED });
+    expect(parseWebhookEvent('stripe', { type: 'customer.created', data: { object: {} } })).toMatchObject({
+      kind: 'ignored',
+      reason: 'event type is not used for revenue attribution',
+    });
+  });
+});
+
+describe('parseWebhookEvent: Lemon Squeezy', () => {
+  const order = (eventName: string, attributes: Record<string, unknown>) => ({
+    meta: { event_name: eventName, custom_data: { datafast_visitor_id: 'visitor-1' } },
+    data: { id: '1001', attributes: { status: 'paid', total: 4900, currency: 'usd', user_email: 'a@example.com', customer_id: 77, ...attributes } },
+  });
+
+  it('maps a paid order onto a payment keyed by the order ID', () => {
+    expect(parseWebhookEvent('lemonsqueezy', order('order_created', {}))).toEqual({
+      kind: 'payment',
+      provider: 'lemonsqueezy',
+      eventType: 'order_created',
+      input: { visitorId: 'visitor-1', amount: 49, currency: 'USD', transactionId: '1001', email: 'a@example.com', customerId: '77' },
+    });
+  });
+
+  it('records renewal payments and ignores the first subscription payment', () => {
+    expect(parseWebhookEvent('lemonsqueezy', order('subscription_payment_success', { billing_reason: 'renewal' }))).toMatchObject({
+      kind: 'payment',
+      input: { renewal: true },
+    });
+    expect(parseWebhookEvent('lemonsqueezy', order('subscription_payment_success', { billing_reason: 'initial' }))).toMatchObject({ kind: 'ignored' });
+  });
+
+  it('ignores unpaid orders and refunds', () => {
+    expect(parseWebhookEvent('lemonsqueezy', order('order_created', { status: 'pending' }))).toMatchObject({ kind: 'ignored', reason: 'status is "pending"' });
+    expect(parseWebhookEvent('lemonsqueezy', order('order_refunded', { refunded_amount: 4900 }))).toMatchObject({ kind: 'ignored', reason: REFUNDS_UNSUPPORTED });
+  });
+});
+
+describe('parseWebhookEvent: Paddle', () => {
+  const transaction = (data: Record<string, unknown>) => ({
+    event_type: 'transaction.completed',
+    data: {
+      id: 'txn_1',
+      currency_code: 'GBP',
+      customer_id: 'ctm_1',
+      origin: 'web',
+      custom_data: { datafast_visitor_id: 'visitor-1' },
+      details: { totals: { grand_total: '1999' } },
+      ...data,
+    },
+  });
+
+  it('maps a completed transaction onto a payment, reading the grand total as minor units', () => {
+    expect(parseWebhookEvent('paddle', transaction({}))).toEqual({
+      kind: 'payment',
+      provider: 'paddle',
+      eventType: 'transaction.completed',
+      input: { visitorId: 'visitor-1', amount: 19.99, currency: 'GBP', transactionId: 'txn_1', customerId: 'ctm_1' },
+    });
+  });
+
+  it('flags recurring subscription transactions as renewals', () => {
+    expect(parseWebhookEvent('paddle', transaction({ origin: 'subscription_recurring' }))).toMatchObject({ kind: 'payment', input: { renewal: true } });
+  });
+
+  it('ignores zero-amount transactions and refund adjustments', () => {
+    expect(parseWebhookEvent('paddle', transaction({ details: { totals: { grand_total: '0' } } }))).toMatchObject({ kind: 'ignored', reason: 'zero-amount payment' });
+    const adjustment = { event_type: 'adjustment.created', data: { action: 'refund', status: 'approved', transaction_id: 'txn_1' } };
+    expect(parseWebhookEvent('paddle', adjustment)).toMatchObject({ kind: 'ignored', reason: REFUNDS_UNSUPPORTED });
+  });
+});
@@ -0,0 +1,251 @@
+import { parseAmount } from "./payment-import";
+import { formatValidationIssues, type PaymentInput, paymentInputSchema } from "./validation";
+
+// Payment-provider webhooks: signature verification and mapping of provider events onto
+// create_payment inputs
+
+export const WEBHOOK_PROVIDERS = ['stripe', 'lemonsqueezy', 'paddle'] as const;
+export type WebhookProvider = (typeof WEBHOOK_PROVIDERS)[number];
+
+// Signed timestamps older than this are rejected to stop replayed deliveries
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export type WebhookEvent =
+  | { kind: 'payment'; provider: WebhookProvider; eventType: string; input: PaymentInput }
+  | { kind: 'ignored'; provider: WebhookProvider; eventType: string; reason: string };
+
+export type WebhookResult = {
+  status: 'recorded' | 'replayed' | 'ignored' | 'failed';
+  event: string;
+  message: string;
+  transactionId?: string;
+  // Failed deliveries worth retrying get a 5xx so the provider sends them again
+  retry?: boolean;
+};
+
+type Json = Record<string, unknown>;
+
+// The API takes `refunded` only when a payment is created and documents no way to change it
+// afterwards, so refund events are acknowledged without being applied
+const REFUNDS_UNSUPPORTED = 'refunds of recorded payments are not supported by the DataFa.st API';
+
+export function isWebhookProvider(value: string): value is WebhookProvider {
+  return (WEBHOOK_PROVIDERS as readonly string[]).includes(value);
+}
+
+// Returns a reason when the signature is missing, malformed, stale or does not match
+export async function verifyWebhookSignature(
+  provider: WebhookProvider,
+  body: string,
+  headers: Headers,
+  secret: string,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): Promise<string | undefined> {
+  if (provider === 'lemonsqueezy') {
+    const signature = headers.get('X-Signature');
+    if (!signature) {
+      return 'missing X-Signature header';
+    }
+    return timingSafeEqual(await hmacHex(secret, body), signature.toLowerCase()) ? undefined : 'signature does not match';
+  }
+
+  // Stripe: "t=<ts>,v1=<hex>[,v1=<hex>]"; Paddle: "ts=<ts>;h1=<hex>"
+  const header = provider === 'stripe' ? headers.get('Stripe-Signature') : headers.get('Paddle-Signature');
+  if (!header) {
+    return `missing ${provider === 'stripe' ? 'Stripe-Signature' : 'Paddle-Signature'} header`;
+  }
+  const parts = header.split(provider === 'stripe' ? ',' : ';').map((part) => part.trim().split('='));
+  const timestamp = parts.find(([key]) => key === (provider === 'stripe' ? 't' : 'ts'))?.[1];
+  const signatures = parts.filter(([key]) => key === (provider === 'stripe' ? 'v1' : 'h1')).map(([, value]) => value ?? '');
+  if (!timestamp || !/^\d+$/.test(timestamp) || signatures.length === 0) {
+    return 'malformed signature header';
+  }
+  if (Math.abs(nowSeconds - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+    return `signature timestamp is more than ${WEBHOOK_TOLERANCE_SECONDS} seconds old`;
+  }
+
+  const expected = await hmacHex(secret, `${timestamp}${provider === 'stripe' ? '.' : ':'}${body}`);
+  return signatures.some((signature) => timingSafeEqual(expected, signature.toLowerCase()))
+    ? undefined
+    : 'signature does not match';
+}
+
+export function parseWebhookEvent(provider: WebhookProvider, body: unknown): WebhookEvent {
+  const event = record(body) ?? {};
+  switch (provider) {
+    case 'stripe':
+      return parseStripeEvent(event);
+    case 'lemonsqueezy':
+      return parseLemonSqueezyEvent(event);
+    case 'paddle':
+      return parsePaddleEvent(event);
+  }
+}
+
+// Transaction IDs follow the charge so that a checkout and its invoice renewals stay distinct: the invoice for
+// subscriptions, otherwise the payment intent
+function parseStripeEvent(event: Json): WebhookEvent {
+  const eventType = text(event.type) ?? 'unknown';
+  const object = record(record(event.data)?.object) ?? {};
+  const currency = text(object.currency)?.toUpperCase() ?? '';
+  const metadata = record(object.metadata);
+
+  switch (eventType) {
+    case 'checkout.session.completed': {
+      if (object.payment_status !== 'paid') {
+        return ignored('stripe', eventType, `checkout session payment_status is "${text(object.payment_status)}"`);
+      }
+      const customer = record(object.customer_details);
+      return payment('stripe', eventType, {
+        visitorId: text(metadata?.datafast_visitor_id),
+        amount: minorUnits(object.amount_total, currency),
+        currency,
+        transactionId: text(object.invoice) ?? text(object.payment_intent) ?? text(object.id),
+        email: text(customer?.email),
+        name: text(customer?.name),
+        customerId: text(object.customer),
+      });
+    }
+    case 'invoice.paid': {
+      // The first invoice of a subscription is already covered by checkout.session.completed
+      if (object.billing_reason !== 'subscription_cycle') {
+        return ignored('stripe', eventType, `invoice billing_reason is "${text(object.billing_reason)}"; only renewals are recorded from invoices`);
+      }
+      const subscriptionMetadata =
+        record(record(record(object.parent)?.subscription_details)?.metadata) ??
+        record(record(object.subscription_details)?.metadata) ??
+        metadata;
+      return payment('stripe', eventType, {
+        visitorId: text(subscriptionMetadata?.datafast_visitor_id),
+        amount: minorUnits(object.amount_paid, currency),
+        currency,
+        transactionId: text(object.id),
+        email: text(object.customer_email),
+        name: text(object.customer_name),
+        customerId: text(object.customer),
+        renewal: true,
+      });
+    }
+    case 'charge.refunded':
+      return ignored('stripe', eventType, REFUNDS_UNSUPPORTED);
+    default:
+      return ignored('stripe', eventType, 'event type is not used for revenue attribution');
+  }
+}
+
+function parseLemonSqueezyEvent(event: Json): WebhookEvent {
+  const meta = record(event.meta) ?? {};
+  const eventType = text(meta.event_name) ?? 'unknown';
+  const data = record(event.data) ?? {};
+  const attributes = record(data.attributes) ?? {};
+  const visitorId = text(record(meta.custom_data)?.datafast_visitor_id);
+  const currency = text(attributes.currency)?.toUpperCase() ?? '';
+  const transactionId = text(data.id);
+
+  switch (eventType) {
+    case 'order_created':
+    case 'subscription_payment_success': {
+      if (attributes.status !== 'paid') {
+        return ignored('lemonsqueezy', eventType, `status is "${text(attributes.status)}"`);
+      }
+      // The first subscription payment is already covered by order_created
+      if (eventType === 'subscription_payment_success' && attributes.billing_reason !== 'renewal') {
+        return ignored('lemonsqueezy', eventType, `billing_reason is "${text(attributes.billing_reason)}"; only renewals are recorded`);
+      }
+      return payment('lemonsqueezy', eventType, {
+        visitorId,
+        amount: minorUnits(attributes.total, currency),
+        currency,
+        transactionId,
+        email: text(attributes.user_email),
+        name: text(attributes.user_name),
+        customerId: text(attributes.customer_id),
+        renewal: eventType === 'subscription_payment_success' || undefined,
+      });
+    }
+    case 'order_refunded':
+    case 'subscription_payment_refunded':
+      return ignored('lemonsqueezy', eventType, REFUNDS_UNSUPPORTED);
+    default:
+      return ignored('lemonsqueezy', eventType, 'event type is not used for revenue attribution');
+  }
+}
+
+function parsePaddleEvent(event: Json): WebhookEvent {
+  const eventType = text(event.event_type) ?? 'unknown';
+  const data = record(event.data) ?? {};
+  const currency = text(data.currency_code)?.toUpperCase() ?? '';
+
+  switch (eventType) {
+    case 'transaction.completed': {
+      const totals = record(record(data.details)?.totals);
+      return payment('paddle', eventType, {
+        visitorId: text(record(data.custom_data)?.datafast_visitor_id),
+        amount: minorUnits(totals?.grand_total, currency),
+        currency,
+        transactionId: text(data.id),
+        customerId: text(data.customer_id),
+        renewal: data.origin === 'subscription_recurring' || undefined,
+      });
+    }
+    case 'adjustment.created':
+    case 'adjustment.updated':
+      return ignored('paddle', eventType, REFUNDS_UNSUPPORTED);
+    default:
+      return ignored('paddle', eventType, 'event type is not used for revenue attribution');
+  }
+}
+
+function payment(provider: WebhookProvider, eventType: string, candidate: Record<string, unknown>): WebhookEvent {
+  if (!candidate.visitorId) {
+    return ignored(provider, eventType, 'no datafast_visitor_id in the checkout metadata');
+  }
+  if (candidate.amount === 0) {
+    return ignored(provider, eventType, 'zero-amount payment');
+  }
+  const parsed = paymentInputSchema.safeParse(candidate);
+  if (!parsed.success) {
+    return ignored(provider, eventType, `invalid payment: ${formatValidationIssues(parsed.error).join('; ')}`);
+  }
+  return { kind: 'payment', provider, eventType, input: parsed.data };
+}
+
+function ignored(provider: WebhookProvider, eventType: string, reason: string): WebhookEvent {
+  return { kind: 'ignored', provider, eventType, reason };
+}
+
+function minorUnits(value: unknown, currency: string): number | undefined {
+  if (typeof value !== 'number' && typeof value !== 'string') {
+    return undefined;
+  }
+  return parseAmount(String(value), currency, 'minor');
+}
+
+function record(value: unknown): Json | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Json) : undefined;
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -3,7 +3,16 @@
 // Runtime types generated with workerd@1.20250816.0 2025-03-10 nodejs_compat
 declare namespace Cloudflare {
 	interface Env {
-		MCP_OBJECT: DurableObjectNamespace<import("./src/index").MyMCP>;
+		DATAFAST_API_BASE_URL: string;
+		DATAFAST_SANDBOX: string;
+		DATAFAST_API_KEY: string;
+		STRIPE_WEBHOOK_SECRET: string;
+		LEMONSQUEEZY_WEBHOOK_SECRET: string;
+		PADDLE_WEBHOOK_SECRET: string;
+		OAUTH_KV?: KVNamespace;
+		MCP_OBJECT: DurableObjectNamespace<import("./src/index").DataFastMCP>;
+		ACCOUNT_OBJECT: DurableObjectNamespace<import("./src/account").DataFastAccount>;
+		OAUTH_PROVIDER: import("@cloudflare/workers-oauth-provider").OAuthHelpers;
 	}
 }
 interface Env extends Cloudflare.Env {}